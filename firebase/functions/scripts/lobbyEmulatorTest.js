@@ -0,0 +1,141 @@
+/**
+ * Drives the lobby API against the Firebase emulators: create, list, join and leave.
+ *
+ *   npm run test:emulators
+ *
+ * builds the functions and runs this script under `firebase emulators:exec`
+ * (functions, Firestore and Auth of the demo-smugglers-town project). With the
+ * emulators already running (`firebase emulators:start`), run
+ * `node scripts/lobbyEmulatorTest.js` instead. Exits non-zero on the first failed check.
+ */
+const assert = require("node:assert/strict");
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || "demo-smugglers-town";
+const AUTH_HOST = process.env.FIREBASE_AUTH_EMULATOR_HOST || "127.0.0.1:9099";
+const LOBBIES_URL = process.env.LOBBIES_URL || `http://127.0.0.1:5001/${PROJECT_ID}/us-central1/lobbies`;
+
+/**
+ * Creates an anonymous account in the Auth emulator.
+ * @return {Promise<{uid: string, token: string}>} The account's uid and ID token.
+ */
+async function signUp() {
+  const response = await fetch(`http://${AUTH_HOST}/identitytoolkit.googleapis.com/v1/accounts:signUp?key=any`, {
+    method: "POST",
+    headers: {"Content-Type": "application/json"},
+    body: JSON.stringify({returnSecureToken: true}),
+  });
+  assert.equal(response.status, 200, "Auth emulator sign-up failed");
+  const {localId, idToken} = await response.json();
+  return {uid: localId, token: idToken};
+}
+
+/**
+ * Calls the lobby API.
+ * @param {string} method HTTP method.
+ * @param {string} path Path below the function URL.
+ * @param {{token: string}|null} user Caller, or null for no Authorization header.
+ * @param {object} [body] JSON body.
+ * @return {Promise<{status: number, body: any}>} Status and parsed JSON response.
+ */
+async function call(method, path, user, body) {
+  const headers = {"Content-Type": "application/json"};
+  if (user) headers.Authorization = `Bearer ${user.token}`;
+  const response = await fetch(`${LOBBIES_URL}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return {status: response.status, body: await response.json()};
+}
+
+/**
+ * Finds a lobby in the open lobby list.
+ * @param {string} lobbyId Lobby id.
+ * @return {Promise<object|undefined>} The listed lobby, if it is open.
+ */
+async function findListed(lobbyId) {
+  const listed = await call("GET", "/", null);
+  assert.equal(listed.status, 200);
+  return listed.body.lobbies.find((lobby) => lobby.id === lobbyId);
+}
+
+/**
+ * Runs a named check and logs it.
+ * @param {string} name What is checked.
+ * @param {function(): Promise<void>} check The check.
+ */
+async function step(name, check) {
+  await check();
+  console.log(`ok - ${name}`);
+}
+
+async function main() {
+  const [host, guest, third, late] = await Promise.all([signUp(), signUp(), signUp(), signUp()]);
+  const settings = {
+    name: "Emulator match",
+    location: {lat: 48.8566, lng: 2.3522, label: "Paris"},
+    durationSeconds: 180,
+    itemCount: 6,
+    botFill: 1,
+    maxPlayers: 3,
+  };
+  let lobbyId = "";
+  let handoff = null;
+
+  await step("creating a lobby needs an ID token", async () => {
+    assert.equal((await call("POST", "/", null, settings)).status, 401);
+  });
+  await step("invalid settings are refused", async () => {
+    assert.equal((await call("POST", "/", host, {...settings, itemCount: 99})).status, 400);
+  });
+  await step("create returns the lobby and its handoff", async () => {
+    const created = await call("POST", "/", host, settings);
+    assert.equal(created.status, 201, JSON.stringify(created.body));
+    lobbyId = created.body.lobby.id;
+    handoff = created.body.handoff;
+    assert.equal(created.body.lobby.hostUid, host.uid);
+    assert.equal(created.body.lobby.playerCount, 1);
+    assert.equal(handoff.roomName, "arena");
+    const {signature, ...options} = handoff.options;
+    assert.deepEqual(options, {
+      lobbyId,
+      location: {lat: settings.location.lat, lng: settings.location.lng},
+      durationSeconds: settings.durationSeconds,
+      itemCount: settings.itemCount,
+      botFill: settings.botFill,
+    });
+    if (process.env.LOBBY_HANDOFF_SECRET) assert.equal(typeof signature, "string", "handoff should be signed");
+  });
+  await step("list shows the open lobby", async () => {
+    const listed = await findListed(lobbyId);
+    assert.ok(listed, "lobby should be listed");
+    assert.equal(listed.name, settings.name);
+    assert.equal(listed.status, "open");
+  });
+  await step("join returns the same handoff, also when joining twice", async () => {
+    for (let i = 0; i < 2; i++) {
+      const joined = await call("POST", `/${lobbyId}/join`, guest);
+      assert.equal(joined.status, 200, JSON.stringify(joined.body));
+      assert.equal(joined.body.lobby.playerCount, 2);
+      assert.deepEqual(joined.body.handoff, handoff);
+    }
+  });
+  await step("a full lobby leaves the list and refuses new players", async () => {
+    const joined = await call("POST", `/${lobbyId}/join`, third);
+    assert.equal(joined.body.lobby.status, "full");
+    assert.equal(await findListed(lobbyId), undefined);
+    assert.equal((await call("POST", `/${lobbyId}/join`, late)).status, 409);
+  });
+  await step("the lobby is deleted when the last player leaves", async () => {
+    for (const user of [host, guest, third]) {
+      assert.equal((await call("POST", `/${lobbyId}/leave`, user)).status, 200);
+    }
+    assert.equal((await call("POST", `/${lobbyId}/join`, late)).status, 404);
+  });
+  console.log("Lobby API checks passed.");
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
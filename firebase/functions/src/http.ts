@@ -0,0 +1,53 @@
+import * as admin from "firebase-admin";
+import type {Request} from "firebase-functions/v1/https";
+import type {Response} from "express";
+
+/**
+ * Error with an HTTP status, sent to the client as `{error: message}`.
+ */
+export class HttpError extends Error {
+  /**
+   * @param {number} status HTTP status code.
+   * @param {string} message Message for the client.
+   */
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Verifies the Firebase ID token in the Authorization header.
+ * Works against the Auth emulator when FIREBASE_AUTH_EMULATOR_HOST is set.
+ * @param {Request} request Incoming request.
+ * @return {Promise<string>} The caller's uid.
+ */
+export async function requireUser(request: Request): Promise<string> {
+  const header = request.get("Authorization") ?? "";
+  const match = header.match(/^Bearer (.+)$/);
+  if (!match) {
+    throw new HttpError(401, "Missing Authorization: Bearer <ID token>");
+  }
+  try {
+    const decoded = await admin.auth().verifyIdToken(match[1]);
+    return decoded.uid;
+  } catch (err) {
+    throw new HttpError(401, "Invalid ID token");
+  }
+}
+
+/**
+ * Allows browser clients on other origins (the game client) to call the API.
+ * @param {Request} request Incoming request.
+ * @param {Response} response Outgoing response.
+ * @return {boolean} True if this was a preflight request that is now handled.
+ */
+export function handleCors(request: Request, response: Response): boolean {
+  response.set("Access-Control-Allow-Origin", "*");
+  response.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+  response.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+  if (request.method === "OPTIONS") {
+    response.status(204).send("");
+    return true;
+  }
+  return false;
+}
@@ -1,5 +1,6 @@
 import * as functions from "firebase-functions";
 import * as admin from "firebase-admin";
+import {handleLobbiesRequest} from "./lobbies";
 
 // Initialize Firebase Admin SDK
 // It automatically uses service account credentials or application default credentials
@@ -12,5 +13,7 @@ export const helloWorld = functions.https.onRequest((request, response) => {
   response.send("Hello from Firebase!");
 });
 
-// TODO: Add functions for lobby API (/lobbies POST, PATCH, etc.)
+// Lobby and matchmaking API (see lobbies.ts for routes)
+export const lobbies = functions.https.onRequest(handleLobbiesRequest);
+
 // TODO: Add function for user API (/users/me GET)
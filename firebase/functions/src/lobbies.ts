@@ -0,0 +1,233 @@
+import * as crypto from "crypto";
+import * as functions from "firebase-functions";
+import * as admin from "firebase-admin";
+import type {Request} from "firebase-functions/v1/https";
+import type {Response} from "express";
+import {HttpError, handleCors, requireUser} from "./http";
+import {LobbySettings, parseLobbySettings} from "./lobbySettings";
+
+const LOBBIES_COLLECTION = "lobbies";
+const MAX_LISTED_LOBBIES = 50;
+// Game server the lobby hands players off to (the client uses VITE_COLYSEUS_ENDPOINT)
+const COLYSEUS_ENDPOINT = process.env.COLYSEUS_ENDPOINT || "ws://localhost:2567";
+// Shared with the game server, which creates a lobby's room only with options signed by it
+const LOBBY_HANDOFF_SECRET = process.env.LOBBY_HANDOFF_SECRET;
+
+type LobbyStatus = "open" | "full";
+
+interface LobbyDoc {
+  name: string;
+  hostUid: string;
+  status: LobbyStatus;
+  settings: LobbySettings;
+  players: string[];
+  createdAt: admin.firestore.Timestamp | admin.firestore.FieldValue;
+}
+
+/**
+ * Everything a client needs to join the match for a lobby:
+ * `client.joinOrCreate(roomName, {...options, persistentPlayerId})` on `endpoint`.
+ * Players with the same lobbyId always land in the same room.
+ */
+interface MatchHandoff {
+  endpoint: string;
+  roomName: "arena";
+  options: HandoffOptions & {
+    /** HMAC-SHA256 of the options (hex), when LOBBY_HANDOFF_SECRET is set. */
+    signature?: string;
+  };
+}
+
+interface HandoffOptions {
+  lobbyId: string;
+  location: {lat: number; lng: number};
+  durationSeconds: number;
+  itemCount: number;
+  botFill: number;
+}
+
+/**
+ * Serializes the signed options; must match handoffPayload in
+ * packages/server/src/security/lobbyHandoff.ts.
+ * @param {HandoffOptions} options Handoff options.
+ * @return {string} The signed payload.
+ */
+function handoffPayload(options: HandoffOptions): string {
+  const {lobbyId, location, durationSeconds, itemCount, botFill} = options;
+  return JSON.stringify([lobbyId, location.lat, location.lng, durationSeconds, itemCount, botFill]);
+}
+
+/**
+ * Builds the Colyseus handoff for a lobby.
+ * @param {string} lobbyId Lobby document id.
+ * @param {LobbySettings} settings Lobby settings.
+ * @return {MatchHandoff} Endpoint, room name and join options.
+ */
+function buildHandoff(lobbyId: string, settings: LobbySettings): MatchHandoff {
+  const options: HandoffOptions = {
+    lobbyId,
+    location: {lat: settings.location.lat, lng: settings.location.lng},
+    durationSeconds: settings.durationSeconds,
+    itemCount: settings.itemCount,
+    botFill: settings.botFill,
+  };
+  if (!LOBBY_HANDOFF_SECRET) {
+    return {endpoint: COLYSEUS_ENDPOINT, roomName: "arena", options};
+  }
+  const signature = crypto.createHmac("sha256", LOBBY_HANDOFF_SECRET).update(handoffPayload(options)).digest("hex");
+  return {endpoint: COLYSEUS_ENDPOINT, roomName: "arena", options: {...options, signature}};
+}
+
+/**
+ * Converts a lobby document to its JSON response shape.
+ * @param {string} id Lobby document id.
+ * @param {LobbyDoc} lobby Lobby data.
+ * @return {object} The lobby as returned by the API.
+ */
+function toResponse(id: string, lobby: LobbyDoc) {
+  const createdAt = lobby.createdAt instanceof admin.firestore.Timestamp ?
+    lobby.createdAt.toDate().toISOString() :
+    null;
+  return {
+    id,
+    name: lobby.name,
+    hostUid: lobby.hostUid,
+    status: lobby.status,
+    settings: lobby.settings,
+    playerCount: lobby.players.length,
+    createdAt,
+  };
+}
+
+/**
+ * Lists open lobbies, newest first.
+ * @return {Promise<object[]>} Open lobbies.
+ */
+async function listLobbies() {
+  const snapshot = await admin.firestore()
+    .collection(LOBBIES_COLLECTION)
+    .where("status", "==", "open")
+    .limit(MAX_LISTED_LOBBIES)
+    .get();
+  // Sorted here rather than in the query so no composite index is needed
+  return snapshot.docs
+    .map((doc) => toResponse(doc.id, doc.data() as LobbyDoc))
+    .sort((a, b) => (b.createdAt ?? "").localeCompare(a.createdAt ?? ""));
+}
+
+/**
+ * Creates a lobby hosted by the caller, who joins it immediately.
+ * @param {string} uid Caller uid.
+ * @param {unknown} body Request body: {name?, location?, durationSeconds?, itemCount?, botFill?, maxPlayers?}.
+ * @return {Promise<object>} The new lobby and its handoff.
+ */
+async function createLobby(uid: string, body: unknown) {
+  const settings = parseLobbySettings(body);
+  const rawName = (body as {name?: unknown} | undefined)?.name;
+  const name = typeof rawName === "string" && rawName.trim() ?
+    rawName.trim().slice(0, 60) :
+    `${settings.location.label ?? "Custom"} match`;
+
+  const ref = admin.firestore().collection(LOBBIES_COLLECTION).doc();
+  const lobby: LobbyDoc = {
+    name,
+    hostUid: uid,
+    status: "open",
+    settings,
+    players: [uid],
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+  await ref.set(lobby);
+  functions.logger.info(`[lobbies] ${uid} created lobby ${ref.id}`, {settings});
+  return {lobby: toResponse(ref.id, lobby), handoff: buildHandoff(ref.id, settings)};
+}
+
+/**
+ * Adds the caller to a lobby. Joining a lobby you are already in is allowed,
+ * so clients can fetch the handoff again after a disconnect.
+ * @param {string} uid Caller uid.
+ * @param {string} lobbyId Lobby document id.
+ * @return {Promise<object>} The updated lobby and its handoff.
+ */
+async function joinLobby(uid: string, lobbyId: string) {
+  const ref = admin.firestore().collection(LOBBIES_COLLECTION).doc(lobbyId);
+  const lobby = await admin.firestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists) throw new HttpError(404, "Lobby not found");
+    const data = doc.data() as LobbyDoc;
+    if (data.players.includes(uid)) return data;
+    if (data.status !== "open") throw new HttpError(409, "Lobby is full");
+
+    const players = [...data.players, uid];
+    const status: LobbyStatus = players.length >= data.settings.maxPlayers ? "full" : "open";
+    transaction.update(ref, {players, status});
+    return {...data, players, status};
+  });
+  functions.logger.info(`[lobbies] ${uid} joined lobby ${lobbyId}`);
+  return {lobby: toResponse(lobbyId, lobby), handoff: buildHandoff(lobbyId, lobby.settings)};
+}
+
+/**
+ * Removes the caller from a lobby. The lobby is deleted when the last player leaves.
+ * @param {string} uid Caller uid.
+ * @param {string} lobbyId Lobby document id.
+ * @return {Promise<object>} `{left: true}`.
+ */
+async function leaveLobby(uid: string, lobbyId: string) {
+  const ref = admin.firestore().collection(LOBBIES_COLLECTION).doc(lobbyId);
+  await admin.firestore().runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists) throw new HttpError(404, "Lobby not found");
+    const data = doc.data() as LobbyDoc;
+    const players = data.players.filter((player) => player !== uid);
+    if (players.length === 0) {
+      transaction.delete(ref);
+    } else if (players.length !== data.players.length) {
+      transaction.update(ref, {players, status: "open"});
+    }
+  });
+  functions.logger.info(`[lobbies] ${uid} left lobby ${lobbyId}`);
+  return {left: true};
+}
+
+/**
+ * Routes a lobby API request. Paths are relative to the function:
+ *   GET  /            list open lobbies
+ *   POST /            create a lobby
+ *   POST /:id/join    join a lobby and get the match handoff
+ *   POST /:id/leave   leave a lobby
+ * Everything except listing requires a Firebase ID token.
+ * @param {Request} request Incoming request.
+ * @param {Response} response Outgoing response.
+ */
+export async function handleLobbiesRequest(request: Request, response: Response): Promise<void> {
+  if (handleCors(request, response)) return;
+  try {
+    const segments = request.path.split("/").filter(Boolean);
+    const [lobbyId, action] = segments;
+
+    if (segments.length === 0 && request.method === "GET") {
+      response.json({lobbies: await listLobbies()});
+      return;
+    }
+    if (request.method !== "POST") throw new HttpError(405, "Method not allowed");
+
+    const uid = await requireUser(request);
+    if (segments.length === 0) {
+      response.status(201).json(await createLobby(uid, request.body));
+    } else if (segments.length === 2 && action === "join") {
+      response.json(await joinLobby(uid, lobbyId));
+    } else if (segments.length === 2 && action === "leave") {
+      response.json(await leaveLobby(uid, lobbyId));
+    } else {
+      throw new HttpError(404, "Not found");
+    }
+  } catch (err) {
+    if (err instanceof HttpError) {
+      response.status(err.status).json({error: err.message});
+      return;
+    }
+    functions.logger.error("[lobbies] Unexpected error", err);
+    response.status(500).json({error: "Internal error"});
+  }
+}
@@ -0,0 +1,97 @@
+import {HttpError} from "./http";
+
+export interface LobbyLocation {
+  lat: number;
+  lng: number;
+  label?: string;
+}
+
+/**
+ * Match settings chosen by the lobby host. They are passed unchanged to the
+ * game server as `arena` room options, which validates them again.
+ */
+export interface LobbySettings {
+  location: LobbyLocation;
+  durationSeconds: number;
+  itemCount: number;
+  /** AI players added to each team when the room is created. */
+  botFill: number;
+  maxPlayers: number;
+}
+
+// Same defaults as the game server (Times Square, 5 minutes, 4 items)
+export const DEFAULT_LOBBY_SETTINGS: LobbySettings = {
+  location: {lat: 40.758, lng: -73.985, label: "Times Square"},
+  durationSeconds: 300,
+  itemCount: 4,
+  botFill: 0,
+  maxPlayers: 8,
+};
+
+const LIMITS = {
+  durationSeconds: {min: 60, max: 1800},
+  itemCount: {min: 1, max: 12},
+  botFill: {min: 0, max: 4},
+  maxPlayers: {min: 2, max: 16},
+};
+
+type IntegerSetting = keyof typeof LIMITS;
+
+/**
+ * Reads an integer setting, falling back to the default when it is missing.
+ * @param {Record<string, unknown>} input Request body.
+ * @param {IntegerSetting} key Setting name.
+ * @return {number} The validated value.
+ */
+function readInteger(input: Record<string, unknown>, key: IntegerSetting): number {
+  const value = input[key];
+  if (value === undefined) return DEFAULT_LOBBY_SETTINGS[key];
+  const {min, max} = LIMITS[key];
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    throw new HttpError(400, `${key} must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Reads the lobby location, falling back to the default when it is missing.
+ * @param {unknown} value The `location` field of the request body.
+ * @return {LobbyLocation} The validated location.
+ */
+function readLocation(value: unknown): LobbyLocation {
+  if (value === undefined) return DEFAULT_LOBBY_SETTINGS.location;
+  const location = value as Partial<LobbyLocation> | null;
+  if (
+    !location ||
+    typeof location.lat !== "number" || Math.abs(location.lat) > 90 ||
+    typeof location.lng !== "number" || Math.abs(location.lng) > 180
+  ) {
+    throw new HttpError(400, "location must be {lat, lng} with lat in [-90, 90] and lng in [-180, 180]");
+  }
+  const result: LobbyLocation = {lat: location.lat, lng: location.lng};
+  if (typeof location.label === "string" && location.label.trim()) {
+    result.label = location.label.trim().slice(0, 80);
+  }
+  return result;
+}
+
+/**
+ * Validates the settings in a create-lobby request body.
+ * Missing fields take their defaults; invalid fields are rejected with a 400.
+ * @param {unknown} body Parsed JSON body.
+ * @return {LobbySettings} The complete settings.
+ */
+export function parseLobbySettings(body: unknown): LobbySettings {
+  const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const settings: LobbySettings = {
+    location: readLocation(input.location),
+    durationSeconds: readInteger(input, "durationSeconds"),
+    itemCount: readInteger(input, "itemCount"),
+    botFill: readInteger(input, "botFill"),
+    maxPlayers: readInteger(input, "maxPlayers"),
+  };
+  if (settings.botFill * 2 >= settings.maxPlayers) {
+    throw new HttpError(400, "botFill must leave room for at least one human player");
+  }
+  return settings;
+}
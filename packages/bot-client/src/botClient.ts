@@ -0,0 +1,86 @@
+/**
+ * botClient.ts
+ *
+ * One bot connected to an `arena` room exactly like a browser: it joins with a
+ * persistent player id, keeps the synchronized ArenaState and sends an `input`
+ * message every tick while the match is live.
+ */
+
+import { Client, Room } from "colyseus.js";
+import { ArenaState, isLivePhase } from "@smugglers-town/shared-schemas";
+import { Bot, createBotSnapshot } from "@smugglers-town/shared-bots";
+import { GAME_EVENT_MESSAGE, GameEvent, InputMessage, MAX_INPUT_MAGNITUDE, SERVER_TICK_RATE } from "@smugglers-town/shared-utils";
+
+export interface BotClientOptions {
+    endpoint: string;
+    // Sent as persistentPlayerId, so the server keeps the bot on one team across reconnects
+    playerId: string;
+    // Join the room of a lobby (see the lobby API); omitted for quick play
+    lobbyId?: string;
+}
+
+export interface BotClientStats {
+    inputsSent: number;
+    stateUpdates: number;
+    // Items this bot scored (for balance testing)
+    captures: number;
+}
+
+export class BotClient {
+    readonly stats: BotClientStats = { inputsSent: 0, stateUpdates: 0, captures: 0 };
+    private room: Room<ArenaState> | null = null;
+    private timer: NodeJS.Timeout | null = null;
+    private seq = 1;
+
+    constructor(private readonly options: BotClientOptions, private readonly strategy: Bot) {}
+
+    get isConnected(): boolean {
+        return this.room !== null;
+    }
+
+    get sessionId(): string | null {
+        return this.room?.sessionId ?? null;
+    }
+
+    async connect(): Promise<void> {
+        const client = new Client(this.options.endpoint);
+        const joinOptions = { persistentPlayerId: this.options.playerId, lobbyId: this.options.lobbyId };
+        const room = await client.joinOrCreate<ArenaState>("arena", joinOptions);
+        this.room = room;
+        room.onStateChange(() => this.stats.stateUpdates++);
+        room.onMessage(GAME_EVENT_MESSAGE, (event: GameEvent) => {
+            if (event.type === "item_scored" && event.playerId === room.sessionId) this.stats.captures++;
+        });
+        room.onLeave(code => {
+            console.log(`[BotClient ${this.options.playerId}] Left room (code: ${code})`);
+            this.stopTicking();
+            this.room = null;
+        });
+        room.onError((code, message) => console.error(`[BotClient ${this.options.playerId}] Room error (code ${code}): ${message}`));
+        this.timer = setInterval(() => this.tick(), 1000 / SERVER_TICK_RATE);
+        console.log(`[BotClient ${this.options.playerId}] Joined room ${room.id} as ${room.sessionId}`);
+    }
+
+    async disconnect(): Promise<void> {
+        this.stopTicking();
+        const room = this.room;
+        this.room = null;
+        if (room) await room.leave(true);
+    }
+
+    private tick(): void {
+        const room = this.room;
+        if (!room || !room.state.players?.has(room.sessionId) || !isLivePhase(room.state.matchPhase)) return;
+        const { dx, dy } = this.strategy.decide(createBotSnapshot(room.state), room.sessionId);
+        // Strategies return any length; the server treats inputs longer than MAX_INPUT_MAGNITUDE as a violation
+        const scale = Math.min(1, MAX_INPUT_MAGNITUDE / (Math.hypot(dx, dy) || 1));
+        const input: InputMessage = { dx: dx * scale, dy: dy * scale, seq: this.seq++ };
+        room.send("input", input);
+        this.stats.inputsSent++;
+    }
+
+    private stopTicking(): void {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+}
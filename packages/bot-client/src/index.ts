@@ -0,0 +1,89 @@
+/**
+ * index.ts
+ *
+ * Spawns bot clients against a running server, for load and balance testing:
+ *
+ *   pnpm --filter smugglers-town-bot-client dev -- --count 20 --strategy greedy
+ *
+ * Options:
+ *   --endpoint <url>    Server (default: COLYSEUS_ENDPOINT or ws://localhost:2567)
+ *   --count <n>         Number of bots (default: 1)
+ *   --strategy <name>   greedy | wander | idle (default: greedy)
+ *   --lobby <id>        Join the room of a lobby instead of quick play
+ *   --stagger <ms>      Delay between connections (default: 100)
+ *   --duration <s>      Leave after this many seconds (default: run until Ctrl+C)
+ */
+
+import { BotClient } from "./botClient";
+import { STRATEGY_NAMES, createStrategy } from "./strategies";
+
+const STATS_INTERVAL_MS = 10_000;
+
+function readArgs(argv: string[]): Map<string, string> {
+    const args = new Map<string, string>();
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg.startsWith("--") && i + 1 < argv.length) args.set(arg.slice(2), argv[++i]);
+    }
+    return args;
+}
+
+function readNumber(args: Map<string, string>, name: string, fallback: number): number {
+    const value = Number(args.get(name) ?? fallback);
+    if (!Number.isFinite(value) || value < 0) {
+        console.warn(`[BotClients] Invalid --${name} "${args.get(name)}". Using ${fallback}.`);
+        return fallback;
+    }
+    return value;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main(): Promise<void> {
+    const args = readArgs(process.argv.slice(2));
+    const endpoint = args.get("endpoint") ?? process.env.COLYSEUS_ENDPOINT ?? "ws://localhost:2567";
+    const count = Math.floor(readNumber(args, "count", 1));
+    const strategyName = args.get("strategy") ?? "greedy";
+    const stagger = readNumber(args, "stagger", 100);
+    const duration = readNumber(args, "duration", 0);
+    if (!createStrategy(strategyName)) {
+        console.error(`[BotClients] Unknown strategy "${strategyName}". Available: ${STRATEGY_NAMES.join(", ")}`);
+        process.exit(1);
+    }
+
+    const runId = Date.now().toString(36);
+    const bots: BotClient[] = [];
+    console.log(`[BotClients] Connecting ${count} ${strategyName} bot(s) to ${endpoint}...`);
+    for (let i = 0; i < count; i++) {
+        const bot = new BotClient({ endpoint, playerId: `bot-client-${runId}-${i}`, lobbyId: args.get("lobby") }, createStrategy(strategyName)!);
+        bots.push(bot);
+        bot.connect().catch(error => console.error(`[BotClients] Bot ${i} failed to join:`, error?.message ?? error));
+        if (stagger > 0) await sleep(stagger);
+    }
+
+    // Throughput since the last report
+    let lastInputs = 0;
+    let lastUpdates = 0;
+    const statsTimer = setInterval(() => {
+        const inputs = bots.reduce((sum, bot) => sum + bot.stats.inputsSent, 0);
+        const updates = bots.reduce((sum, bot) => sum + bot.stats.stateUpdates, 0);
+        const seconds = STATS_INTERVAL_MS / 1000;
+        const connected = bots.filter(bot => bot.isConnected).length;
+        const captures = bots.reduce((sum, bot) => sum + bot.stats.captures, 0);
+        console.log(`[BotClients] ${connected}/${count} connected, ${((inputs - lastInputs) / seconds).toFixed(0)} inputs/s, ${((updates - lastUpdates) / seconds).toFixed(0)} state updates/s, ${captures} captures`);
+        lastInputs = inputs;
+        lastUpdates = updates;
+    }, STATS_INTERVAL_MS);
+
+    const shutdown = async () => {
+        clearInterval(statsTimer);
+        console.log("[BotClients] Disconnecting...");
+        await Promise.allSettled(bots.map(bot => bot.disconnect()));
+        process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    if (duration > 0) setTimeout(shutdown, duration * 1000);
+}
+
+main();
@@ -0,0 +1,49 @@
+/**
+ * strategies.ts
+ *
+ * Strategies a bot client can run, by name. A strategy is a `Bot` from
+ * shared-bots, so the same code can run in-process on the server too.
+ */
+
+import { Bot, BotInput, BotSnapshot, GreedyBot } from "@smugglers-town/shared-bots";
+
+// How long a wandering bot keeps its direction (seconds)
+const WANDER_TURN_SECONDS = 2;
+
+// Drives in a random direction, changing every few seconds (cheap load for many clients)
+class WanderBot implements Bot {
+    private direction: BotInput = { dx: 0, dy: 0 };
+    private nextTurnAt = 0;
+
+    decide(_snapshot: BotSnapshot, _selfId: string): BotInput {
+        const now = Date.now();
+        if (now >= this.nextTurnAt) {
+            const angle = Math.random() * Math.PI * 2;
+            this.direction = { dx: Math.cos(angle), dy: Math.sin(angle) };
+            this.nextTurnAt = now + WANDER_TURN_SECONDS * 1000;
+        }
+        return this.direction;
+    }
+}
+
+// Never moves (connection-only load)
+class IdleBot implements Bot {
+    decide(): BotInput {
+        return { dx: 0, dy: 0 };
+    }
+}
+
+const strategies: Record<string, () => Bot> = {
+    greedy: () => new GreedyBot(),
+    wander: () => new WanderBot(),
+    idle: () => new IdleBot(),
+};
+
+export const STRATEGY_NAMES = Object.keys(strategies);
+
+/**
+ * A new instance of the named strategy, or null if there is none.
+ */
+export function createStrategy(name: string): Bot | null {
+    return strategies[name]?.() ?? null;
+}
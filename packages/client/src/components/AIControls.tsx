@@ -1,8 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import { Player } from '@smugglers-town/shared-schemas';
+import { AI_DIFFICULTIES, AIDifficulty, DEFAULT_AI_DIFFICULTY } from '@smugglers-town/shared-utils';
 
 interface AIControlsProps {
-  onAddAi: (team: 'Red' | 'Blue') => void;
+  onAddAi: (team: 'Red' | 'Blue', difficulty: AIDifficulty) => void;
   players: Map<string, Player>;
   localPlayerTeam?: 'Red' | 'Blue' | 'none';
 }
@@ -10,6 +11,7 @@ interface AIControlsProps {
 const AIControls: React.FC<AIControlsProps> = ({ onAddAi, players, localPlayerTeam }) => {
   const [addingRed, setAddingRed] = useState(false);
   const [addingBlue, setAddingBlue] = useState(false);
+  const [difficulty, setDifficulty] = useState<AIDifficulty>(DEFAULT_AI_DIFFICULTY);
 
   const teamCounts = useMemo(() => {
     const counts = {
@@ -37,12 +39,12 @@ const AIControls: React.FC<AIControlsProps> = ({ onAddAi, players, localPlayerTe
     if (team === 'Red') {
       if (addingRed) return;
       setAddingRed(true);
-      onAddAi('Red');
+      onAddAi('Red', difficulty);
       setTimeout(() => setAddingRed(false), 1500);
     } else if (team === 'Blue') {
       if (addingBlue) return;
       setAddingBlue(true);
-      onAddAi('Blue');
+      onAddAi('Blue', difficulty);
       setTimeout(() => setAddingBlue(false), 1500);
     }
   };
@@ -65,6 +67,20 @@ const AIControls: React.FC<AIControlsProps> = ({ onAddAi, players, localPlayerTe
     <div className="p-2 rounded text-white text-xs shadow-md z-30 space-y-1 w-full">
       <span className="block font-bold mb-2 text-center">Add AI Player:</span>
 
+      <div className="flex items-center justify-between mb-1">
+        <label htmlFor="ai-difficulty-select">Difficulty:</label>
+        <select
+          id="ai-difficulty-select"
+          value={difficulty}
+          onChange={event => setDifficulty(event.target.value as AIDifficulty)}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs"
+        >
+          {AI_DIFFICULTIES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </div>
+
       {/* Red Team Button and Counts */}
       <div className={`space-y-1 ${getTeamSectionStyle('Red')}`}> {/* Apply conditional style */}
         <button
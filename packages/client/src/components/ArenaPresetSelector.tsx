@@ -0,0 +1,45 @@
+import React from 'react';
+import { ArenaPresetSummary, RANDOM_ARENA_PRESET } from '@smugglers-town/shared-utils';
+
+interface ArenaPresetSelectorProps {
+  presets: ArenaPresetSummary[]; // Sent by the server on join
+  currentPresetId: string; // Empty when the arena is a searched place
+  disabled: boolean; // While a location vote is open
+  onPick: (presetId: string) => void; // Proposes the preset (or a random one) for a location vote
+}
+
+// Vetted arenas from the server catalog; works without the location search (no geocoding needed)
+const ArenaPresetSelector: React.FC<ArenaPresetSelectorProps> = ({
+  presets,
+  currentPresetId,
+  disabled,
+  onPick,
+}) => {
+  const handleSelectChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    onPick(event.target.value);
+  };
+
+  return (
+    <div className="p-2 rounded text-white text-xs shadow-md z-30 w-full">
+      <label className="block font-bold mb-1" htmlFor="arena-preset-select">Arena:</label>
+      {/* Shows the current arena; picking another one opens a vote instead of moving right away */}
+      <select
+        id="arena-preset-select"
+        value={currentPresetId}
+        onChange={handleSelectChange}
+        disabled={disabled}
+        className="block w-full bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs disabled:opacity-50"
+      >
+        <option value="" disabled>Custom location</option>
+        <option value={RANDOM_ARENA_PRESET}>Random city</option>
+        {presets.map((preset) => (
+          <option key={preset.id} value={preset.id}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default ArenaPresetSelector;
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface DebugPanelProps {
+  sessionId: string | null;
+  mapStyleId: string;
+  isPixiReady: boolean;
+  playerCount: number;
+  isFollowingPlayer: boolean;
+  onReFollow: () => void;
+}
+
+const DebugPanel: React.FC<DebugPanelProps> = ({ sessionId, mapStyleId, isPixiReady, playerCount, isFollowingPlayer, onReFollow }) => {
+  return (
+    <div style={{ position: 'absolute', bottom: '40px', left: '10px', background: 'rgba(0,0,0,0.7)', color: 'white', padding: '5px', fontSize: '10px', zIndex: 30, maxHeight: '40%', overflowY: 'auto' }}>
+      <p>Debug Panel Placeholder</p>
+      <p>Session ID: {sessionId ?? 'N/A'}</p>
+      <p>Map Style ID: {mapStyleId}</p>
+      <p>Pixi Ready: {isPixiReady ? 'Yes' : 'No'}</p>
+      <p>Players: {playerCount}</p>
+      <p>Following Player: {isFollowingPlayer ? 'Yes' : 'No'}</p>
+      {!isFollowingPlayer && (
+        <button
+          onClick={onReFollow}
+          className="mt-2 bg-blue-600 hover:bg-blue-700 text-white p-1 rounded text-xs"
+        >
+          Re-Follow Player
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DebugPanel;
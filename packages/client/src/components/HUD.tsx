@@ -1,4 +1,5 @@
 import React from 'react';
+import { MatchPhase } from '@smugglers-town/shared-schemas';
 
 interface HUDProps {
   // Props for scores, timer, etc. will be added later
@@ -6,8 +7,18 @@ interface HUDProps {
   blueScore: number;
   gameTimeRemaining: number | undefined; // Can be undefined initially
   itemsScoredCount: number; // Replaced itemStatusString
+  itemCount: number; // Items per round, from the match config
+  matchPhase: MatchPhase | undefined;
 }
 
+// Short banner shown next to the timer outside of regular play
+const PHASE_LABELS: Partial<Record<MatchPhase, string>> = {
+  warmup: 'Warmup',
+  countdown: 'Get Ready',
+  overtime: 'Sudden Death',
+  results: 'Match Over',
+};
+
 // Helper to format seconds into MM:SS
 const formatTime = (totalSeconds: number | undefined): string => {
   if (totalSeconds === undefined || totalSeconds < 0) {
@@ -18,7 +29,7 @@ const formatTime = (totalSeconds: number | undefined): string => {
   return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 };
 
-const HUD: React.FC<HUDProps> = ({ redScore, blueScore, gameTimeRemaining, itemsScoredCount }) => {
+const HUD: React.FC<HUDProps> = ({ redScore, blueScore, gameTimeRemaining, itemsScoredCount, itemCount, matchPhase }) => {
   // Basic styles for positioning and appearance
   const hudStyle: React.CSSProperties = {
     display: 'flex',
@@ -52,18 +63,29 @@ const HUD: React.FC<HUDProps> = ({ redScore, blueScore, gameTimeRemaining, items
       fontVariantNumeric: 'tabular-nums',
   };
 
+  const phaseStyle: React.CSSProperties = {
+      fontSize: '0.7em',
+      fontWeight: 'bold',
+      textTransform: 'uppercase',
+      color: matchPhase === 'overtime' ? '#fde047' : 'white', // Tailwind yellow-300 approx
+  };
+  const phaseLabel = matchPhase ? PHASE_LABELS[matchPhase] : undefined;
+
   return (
     <div style={hudStyle}>
       {/* Display Scores */}
       <div style={blueScoreStyle}>{blueScore}</div>
-      {/* Placeholder Timer */}
-      <div style={timerStyle}>{formatTime(gameTimeRemaining)}</div>
+      {/* Timer (match clock while playing, phase clock otherwise) */}
+      <div style={timerStyle}>
+          {phaseLabel && <div style={phaseStyle}>{phaseLabel}</div>}
+          {formatTime(gameTimeRemaining)}
+      </div>
       {/* Display Scores */}
       <div style={redScoreStyle}>{redScore}</div>
 
       {/* Display Item Count */}
       <div style={itemCountStyle}>
-          Items: {itemsScoredCount} / 4 {/* TODO: Get total number from constant/config */}
+          Items: {itemsScoredCount} / {itemCount}
       </div>
     </div>
   );
@@ -2,8 +2,11 @@ import React, { useEffect, useRef } from 'react';
 import { GeocodingControl } from '@maptiler/geocoding-control/maplibregl';
 import '@maptiler/geocoding-control/style.css';
 import * as maplibregl from 'maplibre-gl';
-import { Room } from 'colyseus.js';
-import { ArenaState } from '@smugglers-town/shared-schemas';
+import { LocationProposal } from '@smugglers-town/shared-utils';
+
+// Map view after flying to a new arena location
+const ARRIVAL_ZOOM = 19;
+const FLY_SPEED = 1.8;
 
 // Define the options interface manually based on the library's requirements
 interface GeocodingControlOptions {
@@ -18,9 +21,10 @@ interface GeocodingControlOptions {
 interface LocationSearchProps {
     apiKey: string;
     mapInstance: maplibregl.Map | null;
-    onResultSelected?: () => void; // Callback when a result is selected (-> disables following)
+    onNavigationStarted?: () => void; // Callback when the map flies to a new arena location (-> disables following)
     onNavigationFinished?: () => void; // Callback when flyTo animation ends (-> enables following)
-    room: Room<ArenaState> | null; // Add room prop
+    worldOrigin: { lat: number; lng: number }; // Current arena location (ArenaState worldOriginLat/Lng)
+    onPropose: (proposal: LocationProposal) => void; // Picking a result proposes it for a vote (LocationVotePanel)
     // Add other options if needed
     controlOptions?: Partial<GeocodingControlOptions>;
 }
@@ -28,12 +32,31 @@ interface LocationSearchProps {
 export const LocationSearch: React.FC<LocationSearchProps> = ({
     apiKey,
     mapInstance,
-    onResultSelected,
+    onNavigationStarted,
     onNavigationFinished, // Add new prop
-    room,
+    worldOrigin,
+    onPropose,
     controlOptions
 }: LocationSearchProps) => {
     const geocodingControlRef = useRef<GeocodingControl | null>(null);
+    const lastOriginRef = useRef<{ lat: number; lng: number } | null>(null);
+
+    // The arena moved (a location vote passed): fly the map there for every player
+    useEffect(() => {
+        const { lat, lng } = worldOrigin;
+        if (!mapInstance || (lat === 0 && lng === 0)) return; // No state yet
+        const lastOrigin = lastOriginRef.current;
+        lastOriginRef.current = { lat, lng };
+        if (!lastOrigin || (lastOrigin.lat === lat && lastOrigin.lng === lng)) return;
+
+        console.log(`[LocationSearch] Arena moved to Lat=${lat}, Lng=${lng}. Flying there.`);
+        if (onNavigationStarted) onNavigationStarted();
+        mapInstance.flyTo({ center: [lng, lat], zoom: ARRIVAL_ZOOM, speed: FLY_SPEED });
+        mapInstance.once('moveend', () => {
+            console.log("[LocationSearch] flyTo animation finished (moveend).");
+            if (onNavigationFinished) onNavigationFinished();
+        });
+    }, [mapInstance, worldOrigin.lat, worldOrigin.lng, onNavigationStarted, onNavigationFinished]);
 
     useEffect(() => {
         if (!mapInstance || !apiKey || geocodingControlRef.current) {
@@ -46,7 +69,7 @@ export const LocationSearch: React.FC<LocationSearchProps> = ({
             apiKey: apiKey,
             maplibregl: maplibregl,
             marker: false,
-            flyTo: { speed: 1.8 }, // Re-enable built-in flyTo with original speed
+            flyTo: false, // The map only moves once the location vote passes (see above)
             placeholder: "Search Location...",
             ...(controlOptions || {}),
         });
@@ -57,47 +80,14 @@ export const LocationSearch: React.FC<LocationSearchProps> = ({
             const feature = evt.feature; // Extract feature from event
 
             // Only proceed if we have a valid feature object with a center
-            if (feature && feature.center) {
-                console.log("[LocationSearch handlePick] Processing picked feature:", feature);
-
-                // Call the original callback (e.g., to disable following)
-                if (onResultSelected) {
-                    onResultSelected();
-                }
-
-                // Send message to server to update world origin
-                const featureCenter = feature.center; // Use center from the picked feature
-
-                if (room && Array.isArray(featureCenter) && featureCenter.length === 2) {
-                    const [lng, lat] = featureCenter;
-                    if (typeof lat === 'number' && typeof lng === 'number') {
-                        console.log("[LocationSearch] Successfully sending set_world_origin. Feature object:", feature);
-                        console.log(`Sending set_world_origin: Lat=${lat}, Lng=${lng}`);
-                        room.send("set_world_origin", { lat, lng });
-
-                        // Keep listening for the end of the (now control-driven) flight animation
-                        if (mapInstance) {
-                            mapInstance.once('moveend', () => {
-                                console.log("[LocationSearch] Control's flyTo animation finished (moveend).");
-                                const desiredZoom = 19;
-                                mapInstance.setZoom(desiredZoom);
-                                if (onNavigationFinished) {
-                                    onNavigationFinished();
-                                }
-                            });
-                        }
-                    } else {
-                        console.warn("Invalid coordinates in picked feature center:", featureCenter);
-                    }
+            const featureCenter = feature?.center;
+            if (Array.isArray(featureCenter) && featureCenter.length === 2) {
+                const [lng, lat] = featureCenter;
+                if (typeof lat === 'number' && typeof lng === 'number') {
+                    // Proposes the location; the server opens a vote (LocationVotePanel shows it)
+                    onPropose({ lat, lng, label: feature.place_name ?? feature.text });
                 } else {
-                     // Log details if the stricter check fails
-                     console.warn("Cannot send set_world_origin. Details:", {
-                         isRoomAvailable: !!room,
-                         hasFeature: !!feature,
-                         hasValidFeatureCenter: Array.isArray(featureCenter) && featureCenter.length === 2,
-                         featureCenterValue: featureCenter, // Log the actual value
-                         pickedEventObject: evt // Log the whole event object
-                     });
+                    console.warn("Invalid coordinates in picked feature center:", featureCenter);
                 }
             } else {
                  console.warn("[LocationSearch handlePick] Received pick event without valid feature:", evt);
@@ -129,8 +119,8 @@ export const LocationSearch: React.FC<LocationSearchProps> = ({
             }
         };
         // Ensure effect runs only when map or key changes
-    }, [mapInstance, apiKey, controlOptions, onResultSelected, onNavigationFinished, room]); // Add room and onNavigationFinished to dependency array
+    }, [mapInstance, apiKey, controlOptions, onPropose]);
 
-    // No need to render a container, MapLibre handles placement
+    // The search control itself is placed by MapLibre
     return null;
 };
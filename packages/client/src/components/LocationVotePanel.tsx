@@ -0,0 +1,60 @@
+import React from 'react';
+import { LocationVoteView } from '../hooks/useColyseus';
+
+export interface LocationVotePanelProps {
+  vote: LocationVoteView | null;
+  voterCount: number; // Human players in the room
+  localSessionId: string | null;
+  isHost: boolean;
+  cooldown: number; // Seconds until the next proposal is allowed
+  rejection: string | null; // Why our last proposal was refused
+  onVote: (approve: boolean) => void;
+  onCancel: () => void;
+}
+
+// Open location vote (set_world_origin) with Yes/No buttons; the host can cancel it
+export const LocationVotePanel: React.FC<LocationVotePanelProps> = ({
+  vote, voterCount, localSessionId, isHost, cooldown, rejection, onVote, onCancel,
+}) => {
+  const buttonStyle = "flex-1 px-2 py-1 rounded font-semibold transition-colors duration-150";
+
+  if (!vote) {
+    if (rejection) return <div className="p-2 rounded text-xs text-yellow-300 bg-slate-800/90">{rejection}</div>;
+    if (cooldown > 0) return <div className="p-2 rounded text-xs text-white bg-slate-800/90">Next location vote in {Math.ceil(cooldown)}s</div>;
+    return null;
+  }
+
+  let approvals = 0;
+  let rejections = 0;
+  vote.votes.forEach(approve => (approve ? approvals++ : rejections++));
+  const myVote = localSessionId ? vote.votes.get(localSessionId) : undefined;
+  const place = vote.label || `${vote.lat.toFixed(4)}, ${vote.lng.toFixed(4)}`;
+
+  return (
+    <div className="p-2 rounded text-white text-xs shadow-md bg-slate-800/90 space-y-1 w-64">
+      <div className="font-bold">Move the arena to {place}?</div>
+      <div className="opacity-80">
+        {approvals} yes · {rejections} no · {voterCount} players · {Math.ceil(vote.timeRemaining)}s left
+      </div>
+      <div className="flex space-x-1">
+        <button
+          onClick={() => onVote(true)}
+          className={`${buttonStyle} ${myVote === true ? 'bg-green-600' : 'bg-gray-700 hover:bg-green-700'}`}
+        >
+          Yes
+        </button>
+        <button
+          onClick={() => onVote(false)}
+          className={`${buttonStyle} ${myVote === false ? 'bg-red-600' : 'bg-gray-700 hover:bg-red-700'}`}
+        >
+          No
+        </button>
+        {isHost && (
+          <button onClick={onCancel} className={`${buttonStyle} bg-gray-600 hover:bg-gray-500`}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
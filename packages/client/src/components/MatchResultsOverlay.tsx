@@ -0,0 +1,64 @@
+import React from 'react';
+import { MatchResults, PlayerResult } from '@smugglers-town/shared-schemas';
+
+interface MatchResultsOverlayProps {
+  results: MatchResults;
+  nextMatchIn: number | undefined; // Seconds until the next match starts
+  localSessionId: string | null;
+}
+
+const getWinnerText = (results: MatchResults): string => {
+  if (results.winner === 'Draw') return 'Draw!';
+  const suffix = results.decidedInOvertime ? ' in Sudden Death' : '';
+  return `Team ${results.winner} Wins${suffix}!`;
+};
+
+const getTeamTextColor = (team: string): string => {
+  if (team === 'Red') return 'text-red-400';
+  if (team === 'Blue') return 'text-blue-400';
+  return 'text-white';
+};
+
+const MatchResultsOverlay: React.FC<MatchResultsOverlayProps> = ({ results, nextMatchIn, localSessionId }) => {
+  return (
+    <div className="bg-slate-800/90 rounded shadow-lg p-4 text-white min-w-[280px]">
+      <h2 className={`text-center text-xl font-bold mb-1 ${getTeamTextColor(results.winner)}`}>
+        {getWinnerText(results)}
+      </h2>
+      <div className="text-center text-sm mb-3">
+        <span className="text-blue-400">{results.blueScore}</span>
+        <span className="mx-2 opacity-60">-</span>
+        <span className="text-red-400">{results.redScore}</span>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="opacity-70">
+            <th className="text-left font-semibold pb-1">Player</th>
+            <th className="text-right font-semibold pb-1">Captures</th>
+            <th className="text-right font-semibold pb-1 pl-3">Steals</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.players.map((line: PlayerResult) => (
+            <tr key={line.sessionId} className={line.sessionId === localSessionId ? 'bg-white/10' : ''}>
+              <td className={`py-0.5 ${getTeamTextColor(line.team)}`}>
+                {line.isAI ? '🤖 ' : '👤 '}{line.name}
+              </td>
+              <td className="py-0.5 text-right tabular-nums">{line.stats.captures}</td>
+              <td className="py-0.5 text-right tabular-nums">{line.stats.steals}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {nextMatchIn !== undefined && (
+        <div className="text-center text-xs opacity-70 mt-3">
+          Next match in {Math.ceil(nextMatchIn)}s
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchResultsOverlay;
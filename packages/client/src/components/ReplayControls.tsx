@@ -0,0 +1,94 @@
+import React from 'react';
+import { ReplayMarker } from '../replay/replayFormat';
+import { REPLAY_SPEEDS } from '../hooks/useReplayPlayback';
+
+interface ReplayControlsProps {
+  currentTime: number; // ms
+  duration: number; // ms
+  isPlaying: boolean;
+  speed: number;
+  markers: ReplayMarker[];
+  onTogglePlaying: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onSave: () => void;
+  onExit: () => void;
+}
+
+const formatTime = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const MARKER_COLORS: Record<string, string> = {
+  Red: 'bg-red-500',
+  Blue: 'bg-blue-500',
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  currentTime,
+  duration,
+  isPlaying,
+  speed,
+  markers,
+  onTogglePlaying,
+  onSeek,
+  onSpeedChange,
+  onSave,
+  onExit,
+}) => {
+  const buttonStyle = "px-3 py-1 rounded font-semibold shadow-md transition-colors duration-150 text-sm bg-gray-700/80 hover:bg-gray-600/90 text-white";
+
+  return (
+    <div className="p-3 rounded text-white text-xs shadow-md w-[640px] max-w-[90vw] space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="font-bold">Replay (drag to pan, scroll to zoom)</span>
+        <div className="space-x-2">
+          <button onClick={onSave} className={buttonStyle}>Save</button>
+          <button onClick={onExit} className={buttonStyle}>Exit Replay</button>
+        </div>
+      </div>
+
+      {/* Timeline with steal (triangle) and score (circle) markers */}
+      <div className="relative pt-3">
+        {markers.map((marker, index) => (
+          <button
+            key={`${marker.t}-${index}`}
+            title={`${formatTime(marker.t)} ${marker.label}`}
+            onClick={() => onSeek(Math.max(0, marker.t - 3000))} // Jump to just before the highlight
+            className={`absolute top-0 w-2 h-2 -ml-1 ${MARKER_COLORS[marker.team ?? ''] ?? 'bg-gray-300'} ${marker.type === 'item_scored' ? 'rounded-full' : 'rotate-45'}`}
+            style={{ left: `${duration > 0 ? (marker.t / duration) * 100 : 0}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          value={currentTime}
+          onChange={event => onSeek(Number(event.target.value))}
+          className="w-full"
+        />
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <button onClick={onTogglePlaying} className={buttonStyle}>{isPlaying ? 'Pause' : 'Play'}</button>
+        <span className="font-mono">{formatTime(currentTime)} / {formatTime(duration)}</span>
+        <label className="ml-auto" htmlFor="replay-speed-select">Speed:</label>
+        <select
+          id="replay-speed-select"
+          value={speed}
+          onChange={event => onSpeedChange(Number(event.target.value))}
+          className="bg-gray-700 border border-gray-600 rounded px-2 py-1 text-white focus:outline-none focus:ring-1 focus:ring-blue-500 text-xs"
+        >
+          {REPLAY_SPEEDS.map(option => (
+            <option key={option} value={option}>{option}x</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
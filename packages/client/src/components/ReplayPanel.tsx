@@ -0,0 +1,50 @@
+import React, { useRef, useState } from 'react';
+import { Replay } from '../replay/replayFormat';
+import { readReplayFile } from '../replay/replayFile';
+
+interface ReplayPanelProps {
+  getReplay: () => Replay | null;
+  onWatch: (replay: Replay) => void;
+}
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ getReplay, onWatch }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const baseButtonStyle = "block w-full text-center px-3 py-1.5 rounded font-semibold shadow-md transition-colors duration-150 text-sm bg-gray-700/80 hover:bg-gray-600/90 text-white";
+
+  const handleWatch = () => {
+    const replay = getReplay();
+    if (!replay) {
+      setMessage('Nothing recorded yet.');
+      return;
+    }
+    setMessage(null);
+    onWatch(replay);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow loading the same file again
+    if (!file) return;
+    try {
+      onWatch(await readReplayFile(file));
+      setMessage(null);
+    } catch (e: any) {
+      console.error('[ReplayPanel] Failed to load replay:', e);
+      setMessage(e.message || 'Failed to load replay.');
+    }
+  };
+
+  return (
+    <div className="p-2 rounded text-white text-xs shadow-md z-30 space-y-1 w-full">
+      <span className="block font-bold mb-2 text-center">Replays:</span>
+      <button onClick={handleWatch} className={baseButtonStyle}>Watch Last Match</button>
+      <button onClick={() => fileInputRef.current?.click()} className={baseButtonStyle}>Load File...</button>
+      <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+      {message && <div className="text-yellow-300 text-center">{message}</div>}
+    </div>
+  );
+};
+
+export default ReplayPanel;
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { Player } from '@smugglers-town/shared-schemas';
+
+interface ScoreboardProps {
+  players: Map<string, Player>;
+  scores: { red: number; blue: number };
+  localSessionId: string | null;
+}
+
+type TeamName = 'Blue' | 'Red';
+const TEAMS: TeamName[] = ['Blue', 'Red'];
+const TEAM_TEXT_COLORS: Record<TeamName, string> = {
+  Blue: 'text-blue-400',
+  Red: 'text-red-400',
+};
+
+const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+
+const formatSeconds = (seconds: number): string => `${Math.floor(seconds)}s`;
+
+const Scoreboard: React.FC<ScoreboardProps> = ({ players, scores, localSessionId }) => {
+  // Players grouped by team, best performers first
+  const rowsByTeam = useMemo(() => {
+    const rows: Record<TeamName, [string, Player][]> = { Blue: [], Red: [] };
+    players.forEach((player, sessionId) => {
+      if (player.team === 'Red' || player.team === 'Blue') {
+        rows[player.team].push([sessionId, player]);
+      }
+    });
+    TEAMS.forEach(team => {
+      rows[team].sort(([, a], [, b]) => b.stats.captures - a.stats.captures || b.stats.steals - a.stats.steals);
+    });
+    return rows;
+  }, [players]);
+
+  return (
+    <div className="bg-slate-800/90 rounded shadow-lg p-4 text-white min-w-[520px] pointer-events-none">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="opacity-70">
+            <th className="text-left font-semibold pb-1">Player</th>
+            <th className="text-right font-semibold pb-1">Captures</th>
+            <th className="text-right font-semibold pb-1">Pickups</th>
+            <th className="text-right font-semibold pb-1">Steals</th>
+            <th className="text-right font-semibold pb-1">Robbed</th>
+            <th className="text-right font-semibold pb-1">Carrying</th>
+            <th className="text-right font-semibold pb-1">Distance</th>
+            <th className="text-right font-semibold pb-1">Water</th>
+          </tr>
+        </thead>
+        {TEAMS.map(team => (
+          <tbody key={team}>
+            <tr>
+              <td colSpan={8} className={`pt-2 pb-1 font-bold ${TEAM_TEXT_COLORS[team]}`}>
+                Team {team} — {team === 'Red' ? scores.red : scores.blue}
+              </td>
+            </tr>
+            {rowsByTeam[team].map(([sessionId, player]) => (
+              <tr key={sessionId} className={`tabular-nums ${sessionId === localSessionId ? 'bg-white/10' : ''}`}>
+                <td className="py-0.5">
+                  {player.isAI ? '🤖 ' : '👤 '}{player.name}
+                  {player.aiDifficulty && <span className="opacity-60"> · {player.aiDifficulty}</span>}
+                </td>
+                <td className="py-0.5 text-right">{player.stats.captures}</td>
+                <td className="py-0.5 text-right">{player.stats.pickups}</td>
+                <td className="py-0.5 text-right">{player.stats.steals}</td>
+                <td className="py-0.5 text-right">{player.stats.timesRobbed}</td>
+                <td className="py-0.5 text-right">{formatSeconds(player.stats.timeCarrying)}</td>
+                <td className="py-0.5 text-right">{formatDistance(player.stats.distanceDriven)}</td>
+                <td className="py-0.5 text-right">{player.stats.waterResets}</td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+      <div className="text-center text-[10px] opacity-60 mt-2">Release Tab to close</div>
+    </div>
+  );
+};
+
+export default Scoreboard;
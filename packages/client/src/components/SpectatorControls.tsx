@@ -0,0 +1,31 @@
+import React from 'react';
+import { SpectatorCameraMode } from '../hooks/useSpectatorCamera';
+
+interface SpectatorControlsProps {
+  mode: SpectatorCameraMode;
+  targetName: string | null;
+  onCyclePlayer: (step: number) => void;
+  onModeChange: (mode: SpectatorCameraMode) => void;
+}
+
+const SpectatorControls: React.FC<SpectatorControlsProps> = ({ mode, targetName, onCyclePlayer, onModeChange }) => {
+  const buttonStyle = (active: boolean) =>
+    `px-3 py-1 rounded font-semibold shadow-md transition-colors duration-150 text-sm text-white ${active ? 'bg-blue-600/90' : 'bg-gray-700/80 hover:bg-gray-600/90'}`;
+
+  const status = mode === 'overview' || !targetName
+    ? (mode === 'carrier' ? 'No carrier - overview' : 'Overview')
+    : `Following ${targetName}`;
+
+  return (
+    <div className="p-2 rounded text-white text-xs shadow-md flex items-center space-x-2">
+      <span className="font-bold mr-2">Spectating:</span>
+      <button onClick={() => onCyclePlayer(-1)} className={buttonStyle(false)}>◀</button>
+      <button onClick={() => onCyclePlayer(1)} className={buttonStyle(mode === 'player')}>Player ▶</button>
+      <button onClick={() => onModeChange('carrier')} className={buttonStyle(mode === 'carrier')}>Carrier</button>
+      <button onClick={() => onModeChange('overview')} className={buttonStyle(mode === 'overview')}>Overview</button>
+      <span className="ml-2 opacity-80 min-w-[140px]">{status}</span>
+    </div>
+  );
+};
+
+export default SpectatorControls;
@@ -1,6 +1,6 @@
 import { useRef, useState, useEffect, useCallback } from 'react';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import { CAR_HEIGHT } from '@smugglers-town/shared-utils';
+import { CAR_HEIGHT, InputMessage } from '@smugglers-town/shared-utils';
 
 // Hooks
 import { useMapLibre } from '../hooks/useMapLibre';
@@ -10,19 +10,36 @@ import { useInputManager } from '../hooks/useInputManager';
 import { useGameLoop } from '../hooks/useGameLoop';
 import { useDustParticles } from '../hooks/useDustParticles';
 import { useSmoothedServerTime } from '../hooks/useSmoothedServerTime';
+import { useKeyHeld } from '../hooks/useKeyHeld';
+import { useReplayPlayback } from '../hooks/useReplayPlayback';
+import { useSpectatorCamera } from '../hooks/useSpectatorCamera';
+import { useHazardLayer } from '../hooks/useHazardLayer';
 
 // Components
 import HUD from '../components/HUD';
 import AIControls from '../components/AIControls';
 import MapStyleSelector from '../components/MapStyleSelector';
+import ArenaPresetSelector from '../components/ArenaPresetSelector';
 import { LocationSearch } from '../components/LocationSearch';
+import { LocationVotePanel } from '../components/LocationVotePanel';
 import { FloatingPanel } from '../components/FloatingPanel';
+import MatchResultsOverlay from '../components/MatchResultsOverlay';
+import Scoreboard from '../components/Scoreboard';
+import DebugPanel from '../components/DebugPanel';
+import ReplayPanel from '../components/ReplayPanel';
+import ReplayControls from '../components/ReplayControls';
+import SpectatorControls from '../components/SpectatorControls';
+import { Replay } from '../replay/replayFormat';
+import { downloadReplay } from '../replay/replayFile';
 
 const API_KEY = import.meta.env.VITE_MAPTILER_API_KEY;
 
 // Default map style ID for initial rendering
 const DEFAULT_MAP_STYLE_ID = 'winter-v2';
 
+// Open the game with ?spectate to watch without a car (e.g. on a shared screen)
+const IS_SPECTATOR = new URLSearchParams(window.location.search).has('spectate');
+
 export function GameCanvas() {
     // --- Refs --- (Keep separate from state if not causing re-renders)
     const mapContainerRef = useRef<HTMLDivElement>(null);
@@ -35,6 +52,7 @@ export function GameCanvas() {
     const [showDebug, setShowDebug] = useState(false);
     const [isFollowingPlayer, setIsFollowingPlayer] = useState(true);
     const [hudHeight, setHudHeight] = useState<number>(60);
+    const [activeReplay, setActiveReplay] = useState<Replay | null>(null);
 
     // --- Hooks --- (Order can matter)
     const mapInstanceRef = useMapLibre({
@@ -51,43 +69,81 @@ export function GameCanvas() {
         carHeight: CAR_HEIGHT,
     });
 
-    const colyseusState = useColyseus();
+    const colyseusState = useColyseus({ spectator: IS_SPECTATOR });
     const { // Destructure only what's needed from Colyseus return
         sessionIdRef,
-        room,
-        players,
-        itemsScoredCount,
-        scores,
-        gameTimeRemaining,
         isConnected,
+        isReconnecting,
         error: colyseusError,
         sendInput,
         addAiPlayer,
-        arenaStateRef,
+        getReplay,
     } = colyseusState;
 
-    const { inputVector } = useInputManager();
+    // --- Replay Mode --- (renders the recorded match instead of the live room)
+    const replayPlayback = useReplayPlayback(activeReplay, mapInstanceRef);
+    const isReplaying = activeReplay !== null && replayPlayback.gameState !== null;
+    const gameSource = isReplaying ? replayPlayback.gameState! : colyseusState;
+    const { players, items, itemsScoredCount, itemCount, terrainVersion, scores, gameTimeRemaining, matchPhase, phaseTimeRemaining, matchResults } = gameSource;
+
+    // --- Terrain Hazards --- (map overlay of the replicated water/park/building polygons)
+    useHazardLayer({
+        mapInstance: mapInstanceRef,
+        arenaStateRef: isReplaying ? replayPlayback.arenaStateRef : colyseusState.arenaStateRef,
+        terrainVersion,
+    });
+
+    // --- Spectator Camera --- (the followed player is rendered like the local car)
+    const spectatorCamera = useSpectatorCamera({
+        enabled: IS_SPECTATOR && !isReplaying,
+        players,
+        items,
+        mapInstance: mapInstanceRef,
+        arenaStateRef: colyseusState.arenaStateRef,
+    });
+    const spectatorTargetId = spectatorCamera.targetSessionId;
+    const viewSessionId = isReplaying
+        ? activeReplay.localSessionId
+        : spectatorTargetId ?? sessionIdRef.current;
+    // Replays have a free camera; spectators only follow when they have a target
+    const canFollow = !isReplaying && (!IS_SPECTATOR || spectatorTargetId !== null);
+
+    const { inputVector, takeThrowRequest } = useInputManager();
+    // A throw (Space) rides on the next input message
+    const sendInputWithThrow = useCallback((input: InputMessage) => {
+        sendInput(takeThrowRequest() ? { ...input, throw: true } : input);
+    }, [sendInput, takeThrowRequest]);
+    const isScoreboardOpen = useKeyHeld('Tab');
 
     // --- Use the smoothed timer hook ---
     const smoothedGameTime = useSmoothedServerTime(gameTimeRemaining);
+    const smoothedPhaseTime = useSmoothedServerTime(phaseTimeRemaining);
+    // The HUD clock shows the match clock while playing and the phase clock otherwise
+    const hudTime = matchPhase === 'playing' ? smoothedGameTime : smoothedPhaseTime;
     // ---------------------------------
 
     // --- Derived State --- (Move localPlayerTeam up)
     const derivedTeam = players.get(sessionIdRef.current ?? '')?.team;
     const localPlayerTeam = derivedTeam === 'none' ? undefined : derivedTeam;
 
+    // --- Recommended map style of an arena preset (players can still switch afterwards) ---
+    const presetMapStyle = colyseusState.mapStyle;
+    useEffect(() => {
+        if (presetMapStyle) setCurrentMapStyleId(presetMapStyle);
+    }, [presetMapStyle]);
+
     // --- Effect to measure HUD height ---
     useEffect(() => {
         if (hudWrapperRef.current) {
             setHudHeight(hudWrapperRef.current.offsetHeight);
         }
         // Re-run if potential height-affecting props change
-    }, [scores, gameTimeRemaining, localPlayerTeam, itemsScoredCount]); // Now localPlayerTeam is defined
+    }, [scores, gameTimeRemaining, localPlayerTeam, itemsScoredCount, matchPhase]); // Now localPlayerTeam is defined
     // -------------------------------------
 
     // --- Memoized Callback for LocationSearch ---
-    const handleLocationSelected = useCallback(() => {
-        console.log("[GameCanvas] Location selected, disabling player follow.");
+    const handleNavigationStarted = useCallback(() => {
+        console.log("[GameCanvas] Arena location changed, disabling player follow.");
         setIsFollowingPlayer(false);
     }, []); // Empty dependency array: function identity is stable
     // -------------------------------------------
@@ -103,15 +159,16 @@ export function GameCanvas() {
     useGameLoop({
         pixiRefs,
         mapInstance: mapInstanceRef,
-        sessionId: sessionIdRef.current,
-        arenaStateRef,
-        isConnected,
-        sendInput,
+        sessionId: viewSessionId,
+        arenaStateRef: isReplaying ? replayPlayback.arenaStateRef : colyseusState.arenaStateRef,
+        isConnected: isConnected && !isReplaying && !IS_SPECTATOR, // Only a driving player sends and predicts inputs
+        sendInput: sendInputWithThrow,
         inputVector,
         isPixiReady,
         carHeight: CAR_HEIGHT,
-        isFollowingPlayer,
+        isFollowingPlayer: isFollowingPlayer && canFollow,
         hudHeight,
+        onGameEvent: isReplaying ? replayPlayback.onGameEvent : colyseusState.onGameEvent,
     });
 
     // --- Dust Particles Hook ---
@@ -129,19 +186,35 @@ export function GameCanvas() {
             <div ref={mapContainerRef} style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0 }} />
             <div ref={pixiContainerRef} style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%', pointerEvents: 'none' }} />
 
-            {/* Location Search Control */}
-            {mapInstanceRef.current && API_KEY && (
+            {/* Location Search Control and the location vote (proposed by a search or an arena preset) */}
+            {!isReplaying && (
                 <div
                     style={{ position: 'absolute', top: 10, left: 10, zIndex: 20 }}
                     className="shadow-lg rounded p-1"
                  >
-                    <LocationSearch
-                        mapInstance={mapInstanceRef.current}
-                        apiKey={API_KEY}
-                        onResultSelected={handleLocationSelected}
-                        onNavigationFinished={handleNavigationFinished}
-                        room={room}
-                    />
+                    {mapInstanceRef.current && API_KEY && (
+                        <LocationSearch
+                            mapInstance={mapInstanceRef.current}
+                            apiKey={API_KEY}
+                            onNavigationStarted={handleNavigationStarted}
+                            onNavigationFinished={handleNavigationFinished}
+                            worldOrigin={colyseusState.worldOrigin}
+                            onPropose={colyseusState.proposeLocation}
+                        />
+                    )}
+                    {/* Below the search box, which MapLibre places */}
+                    <div style={{ marginTop: API_KEY ? 48 : 0 }}>
+                        <LocationVotePanel
+                            vote={colyseusState.locationVote}
+                            voterCount={Array.from(colyseusState.players.values()).filter(player => !player.isAI).length}
+                            localSessionId={sessionIdRef.current}
+                            isHost={!!sessionIdRef.current && colyseusState.hostId === sessionIdRef.current}
+                            cooldown={colyseusState.locationVoteCooldown}
+                            rejection={colyseusState.locationRejection}
+                            onVote={colyseusState.voteOnLocation}
+                            onCancel={colyseusState.cancelLocationVote}
+                        />
+                    </div>
                 </div>
             )}
 
@@ -157,21 +230,71 @@ export function GameCanvas() {
                     <HUD
                         redScore={scores.red}
                         blueScore={scores.blue}
-                        gameTimeRemaining={smoothedGameTime}
+                        gameTimeRemaining={hudTime}
                         itemsScoredCount={itemsScoredCount}
+                        itemCount={itemCount}
+                        matchPhase={matchPhase}
                     />
                 </FloatingPanel>
             </div>
 
-            {/* --- Absolute Positioned UI Elements --- */}
-            <div style={{ position: 'absolute', top: '10px', right: '10px', zIndex: 10 }} className="flex flex-col space-y-2 items-end">
-                <FloatingPanel className="rounded mb-1">
-                    <AIControls
-                        onAddAi={addAiPlayer}
+            {/* Scoreboard (held open with Tab, below the HUD) */}
+            {isScoreboardOpen && !isReplaying && (
+                <div style={{ position: 'absolute', top: hudHeight + 20, left: '50%', transform: 'translateX(-50%)', zIndex: 35 }}>
+                    <Scoreboard
                         players={players}
-                        localPlayerTeam={localPlayerTeam}
+                        scores={scores}
+                        localSessionId={sessionIdRef.current}
                     />
-                </FloatingPanel>
+                </div>
+            )}
+
+            {/* End-of-match Results (centered) */}
+            {matchPhase === 'results' && matchResults && (
+                <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', zIndex: 40 }}>
+                    <MatchResultsOverlay
+                        results={matchResults}
+                        nextMatchIn={smoothedPhaseTime}
+                        localSessionId={sessionIdRef.current}
+                    />
+                </div>
+            )}
+
+            {/* Dropped connection: the server holds our car while we reconnect */}
+            {isReconnecting && (
+                <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', zIndex: 45 }}>
+                    <FloatingPanel className="rounded shadow-md px-4 py-2 text-white text-sm animate-pulse">
+                        Reconnecting…
+                    </FloatingPanel>
+                </div>
+            )}
+
+            {/* --- Absolute Positioned UI Elements --- */}
+            <div style={{ position: 'absolute', top: '10px', right: '10px', zIndex: 10 }} className="flex flex-col space-y-2 items-end">
+                {!isReplaying && !IS_SPECTATOR && (
+                    <FloatingPanel className="rounded mb-1">
+                        <AIControls
+                            onAddAi={addAiPlayer}
+                            players={players}
+                            localPlayerTeam={localPlayerTeam}
+                        />
+                    </FloatingPanel>
+                )}
+                {!isReplaying && (
+                    <FloatingPanel className="rounded mb-1">
+                        <ReplayPanel getReplay={getReplay} onWatch={setActiveReplay} />
+                    </FloatingPanel>
+                )}
+                {!isReplaying && !IS_SPECTATOR && colyseusState.arenaPresets.length > 0 && (
+                    <FloatingPanel className="rounded mb-1">
+                        <ArenaPresetSelector
+                            presets={colyseusState.arenaPresets}
+                            currentPresetId={colyseusState.arenaPresetId}
+                            disabled={colyseusState.locationVote !== null}
+                            onPick={presetId => colyseusState.proposeLocation({ presetId })}
+                        />
+                    </FloatingPanel>
+                )}
                 {API_KEY && mapInstanceRef.current && (
                     <FloatingPanel className="rounded mb-1">
                         <MapStyleSelector
@@ -190,32 +313,53 @@ export function GameCanvas() {
                 </FloatingPanel>
             </div>
 
+            {/* Replay Timeline or Spectator Camera Controls (bottom center) */}
+            {(isReplaying || IS_SPECTATOR) && (
+                <div style={{ position: 'absolute', bottom: '10px', left: '50%', transform: 'translateX(-50%)', zIndex: 30 }}>
+                    <FloatingPanel className="rounded">
+                        {isReplaying ? (
+                            <ReplayControls
+                                currentTime={replayPlayback.currentTime}
+                                duration={replayPlayback.duration}
+                                isPlaying={replayPlayback.isPlaying}
+                                speed={replayPlayback.speed}
+                                markers={replayPlayback.markers}
+                                onTogglePlaying={replayPlayback.togglePlaying}
+                                onSeek={replayPlayback.seek}
+                                onSpeedChange={replayPlayback.setSpeed}
+                                onSave={() => downloadReplay(activeReplay)}
+                                onExit={() => setActiveReplay(null)}
+                            />
+                        ) : (
+                            <SpectatorControls
+                                mode={spectatorCamera.mode}
+                                targetName={spectatorCamera.targetName}
+                                onCyclePlayer={spectatorCamera.cyclePlayer}
+                                onModeChange={spectatorCamera.setMode}
+                            />
+                        )}
+                    </FloatingPanel>
+                </div>
+            )}
+
             {/* Bottom-Left Status */}
             <div style={{ position: 'absolute', bottom: '10px', left: '10px', zIndex: 30 }}>
                 <FloatingPanel className="p-2 rounded text-white text-xs shadow-md min-w-[180px]">
-                    {isConnected ? `Status: Connected (ID: ${sessionIdRef.current ?? 'N/A'})` : 'Status: Disconnected'}
+                    {isConnected ? `Status: ${IS_SPECTATOR ? 'Spectating' : 'Connected'} (ID: ${sessionIdRef.current ?? 'N/A'})` : isReconnecting ? 'Status: Reconnecting…' : 'Status: Disconnected'}
                     {colyseusError && <div style={{ marginTop: '0.25rem', color: '#fde047' }}>Error: {colyseusError}</div>}
                 </FloatingPanel>
             </div>
 
             {/* Debug Panel Placeholder */}
             {showDebug && (
-                <div style={{ position: 'absolute', bottom: '40px', left: '10px', background: 'rgba(0,0,0,0.7)', color: 'white', padding: '5px', fontSize: '10px', zIndex: 30, maxHeight: '40%', overflowY: 'auto' }}>
-                    <p>Debug Panel Placeholder</p>
-                    <p>Session ID: {sessionIdRef.current ?? 'N/A'}</p>
-                    <p>Map Style ID: {currentMapStyleId}</p>
-                    <p>Pixi Ready: {isPixiReady ? 'Yes' : 'No'}</p>
-                    <p>Players: {players.size}</p>
-                    <p>Following Player: {isFollowingPlayer ? 'Yes' : 'No'}</p>
-                    {!isFollowingPlayer && (
-                        <button
-                            onClick={() => setIsFollowingPlayer(true)}
-                            className="mt-2 bg-blue-600 hover:bg-blue-700 text-white p-1 rounded text-xs"
-                        >
-                            Re-Follow Player
-                        </button>
-                    )}
-                </div>
+                <DebugPanel
+                    sessionId={sessionIdRef.current}
+                    mapStyleId={currentMapStyleId}
+                    isPixiReady={isPixiReady}
+                    playerCount={players.size}
+                    isFollowingPlayer={isFollowingPlayer}
+                    onReFollow={() => setIsFollowingPlayer(true)}
+                />
             )}
         </div>
     );
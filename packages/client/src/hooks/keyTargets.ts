@@ -0,0 +1,26 @@
+/**
+ * Where a key event happened, so game shortcuts on `window` leave page controls alone.
+ */
+
+const TEXT_ENTRY_SELECTOR = 'input, textarea';
+const FOCUSABLE_SELECTOR = 'input, textarea, select, button, a[href], [tabindex]:not([tabindex="-1"])';
+
+function asElement(target: EventTarget | null): HTMLElement | null {
+    return target instanceof HTMLElement ? target : null;
+}
+
+/**
+ * True while the user types into a text field (e.g. the location search box).
+ */
+export function isTextEntryTarget(target: EventTarget | null): boolean {
+    const element = asElement(target);
+    return !!element && (element.isContentEditable || element.closest(TEXT_ENTRY_SELECTOR) !== null);
+}
+
+/**
+ * True for text fields and other controls that take keyboard focus (buttons, selects, links).
+ */
+export function isFocusableTarget(target: EventTarget | null): boolean {
+    const element = asElement(target);
+    return !!element && (element.isContentEditable || element.closest(FOCUSABLE_SELECTOR) !== null);
+}
@@ -3,21 +3,157 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Client, Room } from 'colyseus.js';
 import { v4 as uuidv4 } from 'uuid';
-import { ArenaState, Player, FlagState } from '@smugglers-town/shared-schemas';
+import { ArenaState, Player, FlagState, LocationVote, MatchPhase, MatchResults } from '@smugglers-town/shared-schemas';
+import {
+    AIDifficulty, ARENA_PRESETS_MESSAGE, ArenaPresetSummary, GameEvent, GameEventDispatcher, GameEventListener, GameEventType, GAME_EVENT_MESSAGE, INPUT_WARNING_MESSAGE, InputMessage, InputWarning,
+    KICKED_CLOSE_CODE, LOCATION_REJECTED_MESSAGE, LOCATION_VOTE_CANCEL_MESSAGE, LOCATION_VOTE_MESSAGE, LocationProposal
+} from '@smugglers-town/shared-utils';
+import { ReplayRecorder } from '../replay/replayRecorder';
+import { Replay } from '../replay/replayFormat';
 
 const COLYSEUS_ENDPOINT = import.meta.env.VITE_COLYSEUS_ENDPOINT?.toString() || 'ws://localhost:2567';
 const SESSION_TAB_ID_KEY = 'smugglersTown_sessionTabId'; // REVERTED KEY - Using sessionStorage
+const SESSION_RECONNECTION_TOKEN_KEY = 'smugglersTown_reconnectionToken'; // Resumes the same car after a drop or reload
 
-// Define the shape of the state managed internally by the hook
-interface ColyseusHookInternalState {
-    room: Room<ArenaState> | null;
+// Auto-reconnect after a dropped connection: exponential backoff, covering the server's
+// 20 s hold (RECONNECTION_TIMEOUT_SECONDS) before giving up and joining as a new player
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 4000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Close codes from 4000 (Colyseus CloseCode.CONSENTED) up are sent on purpose by the server
+const CONSENTED_CLOSE_CODE = 4000;
+const NORMAL_CLOSE_CODE = 1000;
+
+// A reconnection token with the mode it was issued for (a player's car can't be resumed as a spectator, or vice versa)
+interface StoredReconnection {
+    token: string;
+    spectator: boolean;
+}
+
+function saveReconnectionToken(token: string, spectator: boolean): void {
+    const stored: StoredReconnection = { token, spectator };
+    sessionStorage.setItem(SESSION_RECONNECTION_TOKEN_KEY, JSON.stringify(stored));
+}
+
+/**
+ * The stored reconnection token if it was issued for the requested mode. A token for the other mode is cleared.
+ */
+function loadReconnectionToken(spectator: boolean): string | null {
+    const json = sessionStorage.getItem(SESSION_RECONNECTION_TOKEN_KEY);
+    if (!json) return null;
+    try {
+        const stored = JSON.parse(json) as Partial<StoredReconnection>;
+        if (typeof stored.token === 'string' && stored.spectator === spectator) return stored.token;
+    } catch {
+        // Not written by saveReconnectionToken: drop it
+    }
+    sessionStorage.removeItem(SESSION_RECONNECTION_TOKEN_KEY);
+    return null;
+}
+
+// Network drops, server restarts etc. (as opposed to leaving or being removed)
+function isDroppedConnection(code: number): boolean {
+    return code !== NORMAL_CLOSE_CODE && code < CONSENTED_CLOSE_CODE;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Plain copy of an open LocationVote
+export interface LocationVoteView {
+    proposerId: string;
+    label: string;
+    lat: number;
+    lng: number;
+    votes: Map<string, boolean>; // sessionId -> approve
+    timeRemaining: number;
+}
+
+// Game fields derived from the synchronized ArenaState
+export interface DerivedGameState {
     players: Map<string, Player>;
     items: FlagState[];
     scores: { red: number; blue: number };
     gameTimeRemaining: number | undefined;
+    itemsScoredCount: number;
+    itemCount: number; // Items per round (match config)
+    terrainVersion: number; // Changes whenever state.hazards is replaced
+    matchPhase: MatchPhase | undefined;
+    phaseTimeRemaining: number | undefined;
+    matchResults: MatchResults | null;
+    worldOrigin: { lat: number; lng: number };
+    arenaPresetId: string; // Empty unless the arena is a preset
+    mapStyle: string; // Map style the preset recommends, empty for none
+    hostId: string;
+    locationVote: LocationVoteView | null;
+    locationVoteCooldown: number;
+}
+
+// Define the shape of the state managed internally by the hook
+interface ColyseusHookInternalState extends DerivedGameState {
+    room: Room<ArenaState> | null;
     isConnected: boolean;
+    isReconnecting: boolean; // Connection dropped, trying to resume the same car
     error: string | null;
-    itemsScoredCount: number;
+    locationRejection: string | null; // Why the server refused our last location proposal
+    arenaPresets: ArenaPresetSummary[]; // Sent by the server on join
+}
+
+const EMPTY_GAME_STATE: DerivedGameState = {
+    players: new Map(),
+    items: [],
+    scores: { red: 0, blue: 0 },
+    gameTimeRemaining: undefined,
+    itemsScoredCount: 0,
+    itemCount: 0,
+    terrainVersion: 0,
+    matchPhase: undefined,
+    phaseTimeRemaining: undefined,
+    matchResults: null,
+    worldOrigin: { lat: 0, lng: 0 },
+    arenaPresetId: '',
+    mapStyle: '',
+    hostId: '',
+    locationVote: null,
+    locationVoteCooldown: 0,
+};
+
+function toLocationVoteView(vote: LocationVote | undefined): LocationVoteView | null {
+    if (!vote) return null;
+    return {
+        proposerId: vote.proposerId,
+        label: vote.label,
+        lat: vote.lat,
+        lng: vote.lng,
+        votes: new Map(vote.votes.entries()),
+        timeRemaining: vote.timeRemaining,
+    };
+}
+
+// Creates new collection instances so hooks depending on them re-run
+export function deriveGameState(state: ArenaState): DerivedGameState {
+    return {
+        players: new Map(state.players.entries()),
+        items: Array.from(state.items.values()),
+        scores: { red: state.redScore, blue: state.blueScore },
+        gameTimeRemaining: state.gameTimeRemaining,
+        itemsScoredCount: state.items.filter((item: FlagState) => item.status === 'scored').length,
+        itemCount: state.matchConfig.itemCount,
+        terrainVersion: state.terrainVersion,
+        matchPhase: state.matchPhase,
+        phaseTimeRemaining: state.phaseTimeRemaining,
+        matchResults: state.matchResults?.winner ? state.matchResults : null,
+        worldOrigin: { lat: state.worldOriginLat, lng: state.worldOriginLng },
+        arenaPresetId: state.arenaPresetId,
+        mapStyle: state.mapStyle,
+        hostId: state.hostId,
+        locationVote: toLocationVoteView(state.locationVote),
+        locationVoteCooldown: state.locationVoteCooldown,
+    };
+}
+
+interface UseColyseusOptions {
+    // Join without a car: receive state only (e.g. a shared screen)
+    spectator?: boolean;
 }
 
 // Define the shape of the object returned by the hook
@@ -27,26 +163,47 @@ export interface UseColyseusReturn {
     players: Map<string, Player>;
     items: FlagState[];
     itemsScoredCount: number;
+    itemCount: number;
+    terrainVersion: number;
     scores: { red: number; blue: number };
     gameTimeRemaining: number | undefined;
+    matchPhase: MatchPhase | undefined;
+    phaseTimeRemaining: number | undefined;
+    matchResults: MatchResults | null;
     isConnected: boolean;
+    isReconnecting: boolean;
     error: string | null;
-    sendInput: (input: { dx: number; dy: number }) => void;
-    addAiPlayer: (team: 'Red' | 'Blue') => void;
+    sendInput: (input: InputMessage) => void;
+    addAiPlayer: (team: 'Red' | 'Blue', difficulty: AIDifficulty) => void;
+    worldOrigin: { lat: number; lng: number };
+    arenaPresetId: string;
+    mapStyle: string;
+    arenaPresets: ArenaPresetSummary[];
+    hostId: string;
+    locationVote: LocationVoteView | null;
+    locationVoteCooldown: number;
+    locationRejection: string | null;
+    // Location vote (set_world_origin): propose a place or preset, vote on the open proposal, or cancel it (host)
+    proposeLocation: (proposal: LocationProposal) => void;
+    voteOnLocation: (approve: boolean) => void;
+    cancelLocationVote: () => void;
+    // Subscribe to server gameplay events; returns an unsubscribe function
+    onGameEvent: <T extends GameEventType>(type: T, listener: GameEventListener<T>) => () => void;
+    // Recording of the last completed match (or the current one if none has finished)
+    getReplay: () => Replay | null;
     client: Client | null;
     room: Room<ArenaState> | null;
 }
 
-export function useColyseus(): UseColyseusReturn {
+export function useColyseus({ spectator = false }: UseColyseusOptions = {}): UseColyseusReturn {
     const [internalState, setInternalState] = useState<ColyseusHookInternalState>({
+        ...EMPTY_GAME_STATE,
         room: null,
-        players: new Map(),
-        items: [],
-        scores: { red: 0, blue: 0 },
-        gameTimeRemaining: undefined,
         isConnected: false,
+        isReconnecting: false,
         error: null,
-        itemsScoredCount: 0,
+        locationRejection: null,
+        arenaPresets: [],
     });
     const sessionIdRef = useRef<string | null>(null);
     const isMounted = useRef(false);
@@ -54,8 +211,14 @@ export function useColyseus(): UseColyseusReturn {
     const roomRef = useRef<Room<ArenaState> | null>(null);
     const connectionAttempted = useRef(false);
     const arenaStateRef = useRef<ArenaState | null>(null);
+    // Re-dispatches GAME_EVENT_MESSAGE broadcasts to subscribers (survives reconnects)
+    const gameEventsRef = useRef(new GameEventDispatcher());
+    // Records state patches, events and inputs for match replays
+    const replayRecorderRef = useRef(new ReplayRecorder());
 
-    const connect = useCallback(async () => {
+    // Joins the arena, or resumes the car held for this tab (see ArenaRoom.onLeave).
+    // `resuming` retries with backoff after a dropped connection instead of trying once.
+    const connect = useCallback(async (resuming = false) => {
         console.log("---> [useColyseus connect ENTERED]");
         if (connectionAttempted.current) {
             console.log("---> [useColyseus connect] Already attempting connection, skipping.");
@@ -82,8 +245,24 @@ export function useColyseus(): UseColyseusReturn {
         colyseusClient.current = new Client(COLYSEUS_ENDPOINT);
 
         try {
-            const joinOptions = { persistentPlayerId: tabId };
-            const room = await colyseusClient.current.joinOrCreate<ArenaState>('arena', joinOptions);
+            let resumed: Room<ArenaState> | null = null;
+            const reconnectionToken = loadReconnectionToken(spectator);
+            const attempts = reconnectionToken ? (resuming ? MAX_RECONNECT_ATTEMPTS : 1) : 0;
+            for (let attempt = 0; attempt < attempts && !resumed; attempt++) {
+                if (resuming) await delay(Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS));
+                if (!isMounted.current) return;
+                try {
+                    resumed = await colyseusClient.current.reconnect<ArenaState>(reconnectionToken!);
+                    console.log(`[useColyseus] Reconnected to room ${resumed.id} (attempt ${attempt + 1}/${attempts}).`);
+                } catch (e: any) {
+                    console.warn(`[useColyseus] Reconnect attempt ${attempt + 1}/${attempts} failed: ${e?.message ?? e}`);
+                }
+            }
+            if (!isMounted.current) return;
+            // The held car is gone (or there never was one): join as a new player
+            const joinOptions = { persistentPlayerId: tabId, spectator };
+            const room = resumed ?? await colyseusClient.current.joinOrCreate<ArenaState>('arena', joinOptions);
+            saveReconnectionToken(room.reconnectionToken, spectator);
             roomRef.current = room;
             sessionIdRef.current = room.sessionId;
 
@@ -93,20 +272,17 @@ export function useColyseus(): UseColyseusReturn {
                 ...prevState,
                 room: room,
                 isConnected: true,
+                isReconnecting: false,
                 error: null,
             }));
 
             room.onStateChange((newState: ArenaState) => {
                  if (!isMounted.current) return;
                  arenaStateRef.current = newState;
-                 const scoredCount = newState.items.filter((item: FlagState) => item.status === 'scored').length;
+                 replayRecorderRef.current.recordState(newState, room.sessionId);
                  setInternalState(prevState => ({
                     ...prevState,
-                    players: new Map(newState.players.entries()),
-                    items: Array.from(newState.items.values()),
-                    scores: { red: newState.redScore, blue: newState.blueScore },
-                    gameTimeRemaining: newState.gameTimeRemaining,
-                    itemsScoredCount: scoredCount,
+                    ...deriveGameState(newState),
                 }));
             });
 
@@ -115,47 +291,69 @@ export function useColyseus(): UseColyseusReturn {
             if (roomRef.current?.state) {
                 const initialState = roomRef.current.state;
                 arenaStateRef.current = initialState;
-                const initialScoredCount = initialState.items.filter((item: FlagState) => item.status === 'scored').length;
                 setInternalState(prevState => ({
                     ...prevState,
-                    players: new Map(initialState.players.entries()),
-                    items: Array.from(initialState.items.values()),
-                    scores: { red: initialState.redScore, blue: initialState.blueScore },
-                    gameTimeRemaining: initialState.gameTimeRemaining,
-                    itemsScoredCount: initialScoredCount,
-                    isConnected: prevState.isConnected,
-                    error: prevState.error
+                    ...deriveGameState(initialState),
                 }));
                 console.log('[useColyseus Post-Join] Manually set initial arenaStateRef and derived state.');
             }
 
-            room.onMessage("water_reset", () => {
+            room.onMessage(GAME_EVENT_MESSAGE, (event: GameEvent) => {
                  if (!isMounted.current) return;
-                 console.log("[useColyseus] Received water_reset message!");
+                 replayRecorderRef.current.recordEvent(event);
+                 gameEventsRef.current.emit(event);
             });
 
             room.onMessage('debug_steal_check_positions', (_message) => {
             });
 
-            room.onMessage('flag_scored', (message) => {
-                console.log('[useColyseus] Received flag_scored:', message);
+            room.onMessage(LOCATION_REJECTED_MESSAGE, ({ reason }: { reason: string }) => {
+                 console.warn(`[useColyseus] Location proposal rejected: ${reason}`);
+                 if (!isMounted.current) return;
+                 setInternalState(prevState => ({ ...prevState, locationRejection: reason }));
+            });
+
+            room.onMessage(ARENA_PRESETS_MESSAGE, (arenaPresets: ArenaPresetSummary[]) => {
+                 if (!isMounted.current) return;
+                 setInternalState(prevState => ({ ...prevState, arenaPresets }));
+            });
+
+            room.onMessage(INPUT_WARNING_MESSAGE, (warning: InputWarning) => {
+                 console.warn(`[useColyseus] Server rejected input (${warning.reason}), strike ${warning.strikes}/${warning.maxStrikes}`);
+                 if (!isMounted.current) return;
+                 setInternalState(prevState => ({
+                     ...prevState,
+                     error: `Invalid input (${warning.reason}): ${warning.strikes}/${warning.maxStrikes} strikes before removal`,
+                 }));
             });
 
             room.onLeave((code: number) => {
                 console.log(`[useColyseus] Left room with code: ${code}`);
                 roomRef.current = null;
                 sessionIdRef.current = null;
-                arenaStateRef.current = null;
                  if (!isMounted.current) return;
+                 if (isDroppedConnection(code)) {
+                     // Keep showing the last state while the server holds the car
+                     console.log("[useColyseus] Connection dropped. Reconnecting...");
+                     setInternalState(prevState => ({
+                         ...prevState,
+                         isConnected: false,
+                         isReconnecting: true,
+                         error: null,
+                     }));
+                     connect(true);
+                     return;
+                 }
+                 arenaStateRef.current = null;
+                 sessionStorage.removeItem(SESSION_RECONNECTION_TOKEN_KEY);
                  setInternalState({
+                     ...EMPTY_GAME_STATE,
                      room: null,
-                     players: new Map(),
-                     items: [],
-                     scores: { red: 0, blue: 0 },
-                     gameTimeRemaining: undefined,
                      isConnected: false,
-                     error: `Left room (code: ${code})`,
-                     itemsScoredCount: 0,
+                     isReconnecting: false,
+                     locationRejection: null,
+                     arenaPresets: [],
+                     error: code === KICKED_CLOSE_CODE ? 'Removed from the match for invalid input' : `Left room (code: ${code})`,
                  });
             });
 
@@ -165,13 +363,9 @@ export function useColyseus(): UseColyseusReturn {
                  if (!isMounted.current) return;
                  setInternalState(prevState => ({
                      ...prevState,
+                     ...EMPTY_GAME_STATE,
                      isConnected: false,
                      error: `Room error ${code}: ${message || 'Unknown error'}`,
-                     players: new Map(),
-                     items: [],
-                     scores: { red: 0, blue: 0 },
-                     gameTimeRemaining: undefined,
-                     itemsScoredCount: 0,
                  }));
              });
 
@@ -181,42 +375,62 @@ export function useColyseus(): UseColyseusReturn {
              if (!isMounted.current) return;
             setInternalState(prevState => ({
                 ...prevState,
+                ...EMPTY_GAME_STATE,
                 isConnected: false,
+                isReconnecting: false,
                 error: e.message || "Failed to connect",
-                itemsScoredCount: 0,
-                 players: new Map(),
-                 items: [],
-                 scores: { red: 0, blue: 0 },
-                 gameTimeRemaining: undefined,
             }));
         } finally {
             console.log("---> [useColyseus connect EXITING]");
             connectionAttempted.current = false;
         }
-    }, []);
+    }, [spectator]);
 
     const leave = useCallback(() => {
         if (roomRef.current) {
             console.log("[useColyseus] Leaving room manually...");
+            sessionStorage.removeItem(SESSION_RECONNECTION_TOKEN_KEY); // Consented leave: the server frees the car
             roomRef.current.leave();
         }
     }, []);
 
-    const sendInput = useCallback((input: { dx: number, dy: number }) => {
+    const sendInput = useCallback((input: InputMessage) => {
         if (roomRef.current && internalState.isConnected) {
             roomRef.current.send("input", input);
+            replayRecorderRef.current.recordInput(input);
         }
     }, [internalState.isConnected]);
 
-    const addAiPlayer = useCallback((team: 'Red' | 'Blue') => {
+    const addAiPlayer = useCallback((team: 'Red' | 'Blue', difficulty: AIDifficulty) => {
         if (roomRef.current && internalState.isConnected) {
-             console.log(`[useColyseus] Sending request to add ${team} AI...`);
-             roomRef.current.send("add_ai", { team });
+             console.log(`[useColyseus] Sending request to add ${difficulty} ${team} AI...`);
+             roomRef.current.send("add_ai", { team, difficulty });
         } else {
              console.warn("[useColyseus] Game room not connected, cannot add AI.");
         }
     }, [internalState.isConnected]);
 
+    const proposeLocation = useCallback((proposal: LocationProposal) => {
+        if (!roomRef.current || !internalState.isConnected) return;
+        console.log('[useColyseus] Proposing location:', proposal);
+        setInternalState(prevState => ({ ...prevState, locationRejection: null }));
+        roomRef.current.send("set_world_origin", proposal);
+    }, [internalState.isConnected]);
+
+    const voteOnLocation = useCallback((approve: boolean) => {
+        if (roomRef.current && internalState.isConnected) roomRef.current.send(LOCATION_VOTE_MESSAGE, { approve });
+    }, [internalState.isConnected]);
+
+    const cancelLocationVote = useCallback(() => {
+        if (roomRef.current && internalState.isConnected) roomRef.current.send(LOCATION_VOTE_CANCEL_MESSAGE);
+    }, [internalState.isConnected]);
+
+    const onGameEvent = useCallback(<T extends GameEventType>(type: T, listener: GameEventListener<T>) => {
+        return gameEventsRef.current.on(type, listener);
+    }, []);
+
+    const getReplay = useCallback(() => replayRecorderRef.current.getReplay(), []);
+
     useEffect(() => {
         isMounted.current = true;
         console.log("---> [useColyseus useEffect Mount] Attempting initial connect.");
@@ -238,12 +452,31 @@ export function useColyseus(): UseColyseusReturn {
         players: internalState.players,
         items: internalState.items,
         itemsScoredCount: internalState.itemsScoredCount,
+        itemCount: internalState.itemCount,
+        terrainVersion: internalState.terrainVersion,
         scores: internalState.scores,
         gameTimeRemaining: internalState.gameTimeRemaining,
+        matchPhase: internalState.matchPhase,
+        phaseTimeRemaining: internalState.phaseTimeRemaining,
+        matchResults: internalState.matchResults,
         isConnected: internalState.isConnected,
+        isReconnecting: internalState.isReconnecting,
         error: internalState.error,
         sendInput,
         addAiPlayer,
+        worldOrigin: internalState.worldOrigin,
+        arenaPresetId: internalState.arenaPresetId,
+        mapStyle: internalState.mapStyle,
+        arenaPresets: internalState.arenaPresets,
+        hostId: internalState.hostId,
+        locationVote: internalState.locationVote,
+        locationVoteCooldown: internalState.locationVoteCooldown,
+        locationRejection: internalState.locationRejection,
+        proposeLocation,
+        voteOnLocation,
+        cancelLocationVote,
+        onGameEvent,
+        getReplay,
         client: colyseusClient.current,
         room: roomRef.current
     };
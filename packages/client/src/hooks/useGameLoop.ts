@@ -1,15 +1,16 @@
 import { useCallback, useEffect, useRef } from 'react';
 import * as PIXI from 'pixi.js';
-import { ArenaState, Player, FlagState } from '@smugglers-town/shared-schemas';
+import { ArenaState, Player, FlagState, isLivePhase, getTeamBase } from '@smugglers-town/shared-schemas';
 import { Map as MapLibreMap, LngLat } from 'maplibre-gl';
-import { lerp, angleLerp, worldToGeo, geoToWorld } from '@smugglers-town/shared-utils';
+import { lerp, angleLerp, worldToGeo, GameEventListener, GameEventType, InputMessage, CarMovementState } from '@smugglers-town/shared-utils';
 import { PixiRefs } from './usePixiApp';
-import { RED_BASE_POS, BLUE_BASE_POS, distSq, VISUAL_BASE_RADIUS } from "@smugglers-town/shared-utils";
+import { distSq, VISUAL_BASE_RADIUS } from "@smugglers-town/shared-utils";
 import 'pixi.js/gif';
 import { Assets } from 'pixi.js';
 import { GifSprite, GifSource } from 'pixi.js/gif';
 import { type InputVector } from './useInputManager';
 import { ASSET_PATHS } from '../config/assets';
+import { useLocalPrediction } from './useLocalPrediction';
 
 // Constants from GameCanvas (consider moving)
 const INTERPOLATION_FACTOR = 0.3;
@@ -21,16 +22,18 @@ interface UseGameLoopProps {
     arenaStateRef: React.RefObject<ArenaState | null>;
     sessionId: string | null;
     isConnected: boolean;
-    sendInput: (input: { dx: number; dy: number }) => void;
+    sendInput: (input: InputMessage) => void;
     // Use the unified InputVector type
     inputVector: InputVector;
     isPixiReady: boolean;
     carHeight: number;
     isFollowingPlayer: boolean;
     hudHeight: number;
+    // Gameplay event subscription from useColyseus (drives one-shot effects)
+    onGameEvent: <T extends GameEventType>(type: T, listener: GameEventListener<T>) => () => void;
 }
 
-// Vortex is always a static animation at the item's last carried position (when scored)
+// Vortex is a static one-shot animation at a world position (item scored / item spawned)
 type ActiveVortex = { sprite: GifSprite; worldX: number; worldY: number };
 
 export function useGameLoop({
@@ -45,17 +48,16 @@ export function useGameLoop({
     carHeight,
     isFollowingPlayer,
     hudHeight,
+    onGameEvent,
 }: UseGameLoopProps) {
     const mapTargetCenter = useRef<LngLat | null>(null);
     const initialPlacementDone = useRef(false);
     const itemSourceRef = useRef<GifSource | null>(null);
     const carTextureRef = useRef<PIXI.Texture | null>(null);
     const vortexSourceRef = useRef<GifSource | null>(null);
-    const prevStatusesRef = useRef<Map<string, string>>(new Map());
-    // Track previous carrierId for each item
-    const prevCarrierIdsRef = useRef<Map<string, string | undefined>>(new Map());
     // Track active vortexes for animation and position updates
     const activeVortexesRef = useRef<ActiveVortex[]>([]);
+    const { predict: predictLocalCar } = useLocalPrediction();
 
     // --- Refs for frequently changing state/props ---
     // Removed playersRef, itemsRef, stateRef
@@ -103,6 +105,33 @@ export function useGameLoop({
             });
     }, []);
 
+    // Spawns a one-shot vortex animation at a world position
+    const spawnVortex = useCallback((worldX: number, worldY: number) => {
+        const app = pixiRefs.current?.app;
+        if (!app || !vortexSourceRef.current) return;
+        try {
+            const vortex = new GifSprite({ source: vortexSourceRef.current, autoPlay: true, loop: false });
+            vortex.anchor.set(0.5);
+            vortex.scale.set(0.5);
+            vortex.position.set(-1000, -1000); // Will be updated every frame
+            app.stage.addChild(vortex);
+            activeVortexesRef.current.push({ sprite: vortex, worldX, worldY });
+            vortex.onComplete = () => { vortex.destroy(); };
+        } catch (e) {
+            console.error('[useGameLoop] Error spawning vortex:', e);
+        }
+    }, [pixiRefs]);
+
+    // Vortex when an item is scored (at the carrier) and when items respawn for a new round
+    useEffect(() => {
+        const unsubscribeScored = onGameEvent('item_scored', event => spawnVortex(event.x, event.y));
+        const unsubscribeSpawned = onGameEvent('item_spawned', event => spawnVortex(event.x, event.y));
+        return () => {
+            unsubscribeScored();
+            unsubscribeSpawned();
+        };
+    }, [onGameEvent, spawnVortex]);
+
     // Load car texture once
     useEffect(() => {
         // Ensure PIXI.Assets exists and is ready
@@ -153,17 +182,29 @@ export function useGameLoop({
         const localPlayerState = currentPlayers.get(currentSessionId); // Use currentPlayers from ref
         // ---------------------------------------------------------\
 
-        // --- Send Input ---
-        if (currentIsConnected) {
-            currentSendInput(currentInputVector);
+        // --- Send Input & Predict Local Car ---
+        // The local car is rendered at its predicted position instead of waiting for server state
+        let localCar: CarMovementState | undefined = localPlayerState;
+        if (localPlayerState && currentIsConnected) {
+            localCar = predictLocalCar(
+                localPlayerState,
+                currentInputVector,
+                ticker.deltaMS / 1000,
+                isLivePhase(currentState.matchPhase),
+                currentSendInput,
+                currentState.matchConfig,
+                currentState.hazards,
+                currentState.terrainVersion,
+                getTeamBase(currentState, localPlayerState.team) ?? { x: 0, y: 0 }
+            );
         }
 
         // --- Map Interpolation & Target Calculation (Conditional) ---
         if (currentIsFollowingPlayer) {
-            if (localPlayerState && isFinite(localPlayerState.x) && isFinite(localPlayerState.y)) {
+            if (localCar && isFinite(localCar.x) && isFinite(localCar.y)) {
                 try {
                     const { worldOriginLng, worldOriginLat } = currentState;
-                    const [targetLng, targetLat] = worldToGeo(localPlayerState.x, localPlayerState.y, worldOriginLng, worldOriginLat);
+                    const [targetLng, targetLat] = worldToGeo(localCar.x, localCar.y, worldOriginLng, worldOriginLat);
                     if (!isFinite(targetLng) || !isFinite(targetLat)) throw new Error("Invalid target LngLat from worldToGeo");
                     mapTargetCenter.current = new LngLat(targetLng, targetLat);
                 } catch(e) {
@@ -191,86 +232,6 @@ export function useGameLoop({
         }
         // --- End Conditional Map Centering ---
 
-        // --- Vortex effects on status change ---
-        currentItems.forEach((item: FlagState) => { // Use currentItems from ref
-            const prevStatus = prevStatusesRef.current.get(item.id);
-            const prevCarrierId = prevCarrierIdsRef.current.get(item.id) ?? undefined;
-            if (prevStatus !== item.status && vortexSourceRef.current) {
-                // when item is scored
-                if (item.status === 'scored') {
-                    try {
-                        let worldX = item.x;
-                        let worldY = item.y;
-                        let vortexCarrierId = (item.carrierId ?? undefined) || (prevStatus === 'carried' ? prevCarrierId : undefined);
-                        let toiletWorldX = worldX;
-                        let toiletWorldY = worldY;
-                        const vortex = new GifSprite({ source: vortexSourceRef.current, autoPlay: true, loop: false });
-                        vortex.anchor.set(0.5);
-                        vortex.scale.set(0.5);
-                        vortex.position.set(-1000, -1000); // Will be updated every frame
-                        app.stage.addChild(vortex);
-                        if (vortexCarrierId) {
-                            const carrier = currentPlayers.get(vortexCarrierId);
-                            const carrierSpriteCandidate = vortexCarrierId === currentSessionId
-                                ? refs.carSprite
-                                : refs.otherPlayerSprites.current[vortexCarrierId];
-                            if (carrier && carrierSpriteCandidate) {
-                                const distanceBehind = currentCarHeight / 2 + 2;
-                                const angle = carrierSpriteCandidate.rotation - Math.PI / 2;
-                                const offsetX = Math.cos(angle) * distanceBehind;
-                                const offsetY = Math.sin(angle) * distanceBehind;
-                                // The last known position of the toilet when carried
-                                const toiletScreenX = carrierSpriteCandidate.x + offsetX;
-                                const toiletScreenY = carrierSpriteCandidate.y + offsetY;
-                                // Convert screen position to geo, then to world coordinates
-                                let vortexWorld = { x: toiletWorldX, y: toiletWorldY };
-                                if (map) {
-                                    try {
-                                        const { worldOriginLng, worldOriginLat } = currentState;
-                                        const lngLat = map.unproject([toiletScreenX, toiletScreenY]);
-                                        vortexWorld = geoToWorld(lngLat.lng, lngLat.lat, worldOriginLng, worldOriginLat);
-                                    } catch (e) {}
-                                }
-                                activeVortexesRef.current.push({ sprite: vortex, worldX: vortexWorld.x, worldY: vortexWorld.y });
-                            } else if (carrier) {
-                                toiletWorldX = carrier.x;
-                                toiletWorldY = carrier.y;
-                                activeVortexesRef.current.push({ sprite: vortex, worldX: toiletWorldX, worldY: toiletWorldY });
-                            } else {
-                                // fallback
-                                activeVortexesRef.current.push({ sprite: vortex, worldX: toiletWorldX, worldY: toiletWorldY });
-                            }
-                        } else {
-                            // Not carried, just use item's world position
-                            activeVortexesRef.current.push({ sprite: vortex, worldX: toiletWorldX, worldY: toiletWorldY });
-                        }
-                        vortex.onComplete = () => { vortex.destroy(); };
-                    } catch (e) {
-                        console.error('[useGameLoop] Error spawning scored vortex:', e);
-                    }
-                }
-                // when item reappears (new round)
-                else if (prevStatus === 'scored' && (item.status === 'available' || item.status === 'dropped')) {
-                    try {
-                        const worldX = item.x;
-                        const worldY = item.y;
-                        const vortex = new GifSprite({ source: vortexSourceRef.current, autoPlay: true, loop: false });
-                        vortex.anchor.set(0.5);
-                        vortex.scale.set(0.5);
-                        vortex.position.set(-1000, -1000); // Will be updated every frame
-                        app.stage.addChild(vortex);
-                        activeVortexesRef.current.push({ sprite: vortex, worldX, worldY });
-                        vortex.onComplete = () => { vortex.destroy(); };
-                    } catch (e) {
-                        console.error('[useGameLoop] Error spawning spawn vortex:', e);
-                    }
-                }
-            }
-            // Update previous carrierId for next frame
-            prevCarrierIdsRef.current.set(item.id, item.carrierId ?? undefined);
-            prevStatusesRef.current.set(item.id, item.status);
-        });
-
         // --- Update active vortexes' screen positions and clean up destroyed ones ---
         if (map) {
             activeVortexesRef.current = activeVortexesRef.current.filter((vortexObj: ActiveVortex) => {
@@ -331,17 +292,17 @@ export function useGameLoop({
 
         // --- Player Sprite Cleanup ---
         const processedPlayerIds = new Set<string>();
-        if (localPlayerState && refs.carSprite) {
-            // Update local player sprite
+        if (localPlayerState && localCar && refs.carSprite) {
+            // Update local player sprite (predicted position)
             let sprite = refs.carSprite;
-            if (isFinite(localPlayerState.x) && isFinite(localPlayerState.y) && isFinite(localPlayerState.heading)) {
+            if (isFinite(localCar.x) && isFinite(localCar.y) && isFinite(localCar.heading)) {
                 try {
                     const { worldOriginLng, worldOriginLat } = currentState;
-                    const [targetLng, targetLat] = worldToGeo(localPlayerState.x, localPlayerState.y, worldOriginLng, worldOriginLat);
+                    const [targetLng, targetLat] = worldToGeo(localCar.x, localCar.y, worldOriginLng, worldOriginLat);
                     const targetScreenPos = map.project([targetLng, targetLat]);
                     if (!targetScreenPos || !isFinite(targetScreenPos.x) || !isFinite(targetScreenPos.y)) throw new Error("Invalid projection");
 
-                    const targetRotation = -localPlayerState.heading + Math.PI / 2;
+                    const targetRotation = -localCar.heading + Math.PI / 2;
 
                     // Tint for team color
                     sprite.tint = localPlayerState.team === 'Red' ? 0xff4444 : 0x4488ff;
@@ -546,8 +507,8 @@ export function useGameLoop({
 
         // --- Update Base Sprites --- (Copied/adapted from GameCanvas)
         const baseSpritesData: { sprite: PIXI.Graphics | null, worldPos: { x: number, y: number }, color: string }[] = [
-            { sprite: refs.redBaseSprite, worldPos: RED_BASE_POS, color: 'Red' },
-            { sprite: refs.blueBaseSprite, worldPos: BLUE_BASE_POS, color: 'Blue' }
+            { sprite: refs.redBaseSprite, worldPos: { x: currentState.redBaseX, y: currentState.redBaseY }, color: 'Red' },
+            { sprite: refs.blueBaseSprite, worldPos: { x: currentState.blueBaseX, y: currentState.blueBaseY }, color: 'Blue' }
         ];
         baseSpritesData.forEach(({ sprite, worldPos, color }) => {
             if (sprite) {
@@ -591,7 +552,7 @@ export function useGameLoop({
 
             if (playerCarryingItem) {
                 // Player is carrying: Target own base
-                const basePos = localPlayerState.team === 'Red' ? RED_BASE_POS : BLUE_BASE_POS;
+                const basePos = getTeamBase(currentState, localPlayerState.team) ?? { x: 0, y: 0 };
                 targetWorldX = basePos.x;
                 targetWorldY = basePos.y;
                 arrowColor = localPlayerState.team === 'Red' ? 0xff0000 : 0x0000ff; // Keep team colors
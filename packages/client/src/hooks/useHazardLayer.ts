@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { Map as MapLibreMap, GeoJSONSource } from 'maplibre-gl';
+import { ArenaState } from '@smugglers-town/shared-schemas';
+import { worldToGeo } from '@smugglers-town/shared-utils';
+
+const HAZARD_SOURCE_ID = 'hazards-source';
+const HAZARD_LAYER_ID = 'hazards-layer';
+
+// Fill colors per hazard kind (see HazardKind)
+const WATER_COLOR = '#0000FF';
+const PARK_COLOR = '#22C55E';
+const BUILDING_COLOR = '#6B7280';
+
+interface UseHazardLayerProps {
+    mapInstance: React.RefObject<MapLibreMap | null>;
+    arenaStateRef: React.RefObject<ArenaState | null>;
+    // DerivedGameState.terrainVersion: redraw when it changes
+    terrainVersion: number;
+}
+
+// Converts the replicated hazard polygons (world meters) to a GeoJSON FeatureCollection
+function buildHazardGeoJson(state: ArenaState | null): GeoJSON.FeatureCollection {
+    const features: GeoJSON.Feature[] = [];
+    state?.hazards.forEach(hazard => {
+        const ring: [number, number][] = [];
+        for (let i = 0; i + 1 < hazard.points.length; i += 2) {
+            ring.push(worldToGeo(hazard.points[i] ?? 0, hazard.points[i + 1] ?? 0, state.worldOriginLng, state.worldOriginLat));
+        }
+        if (ring.length < 3) return;
+        ring.push(ring[0]); // Close the ring
+        features.push({
+            type: 'Feature',
+            geometry: { type: 'Polygon', coordinates: [ring] },
+            properties: { kind: hazard.kind },
+        });
+    });
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Draws the terrain hazards (water, parks, buildings) from ArenaState as a MapLibre fill layer.
+ * The layer is rebuilt when the server replaces the hazards and re-added after map style changes.
+ */
+export function useHazardLayer({ mapInstance, arenaStateRef, terrainVersion }: UseHazardLayerProps) {
+    useEffect(() => {
+        const map = mapInstance.current;
+        if (!map) return;
+        const data = buildHazardGeoJson(arenaStateRef.current);
+
+        const applyLayer = () => {
+            if (!map.getStyle()) return;
+            try {
+                const source = map.getSource(HAZARD_SOURCE_ID) as GeoJSONSource | undefined;
+                if (source) {
+                    source.setData(data);
+                } else {
+                    map.addSource(HAZARD_SOURCE_ID, { type: 'geojson', data });
+                }
+                if (!map.getLayer(HAZARD_LAYER_ID)) {
+                    map.addLayer({
+                        id: HAZARD_LAYER_ID,
+                        type: 'fill',
+                        source: HAZARD_SOURCE_ID,
+                        paint: {
+                            'fill-color': ['match', ['get', 'kind'], 'water', WATER_COLOR, 'park', PARK_COLOR, 'building', BUILDING_COLOR, '#000000'],
+                            'fill-opacity': 0.3,
+                        },
+                    });
+                }
+            } catch (error) {
+                console.error("[useHazardLayer] Error updating hazard layer:", error);
+            }
+        };
+
+        if (map.isStyleLoaded()) applyLayer();
+        // Style changes drop custom sources and layers
+        map.on('styledata', applyLayer);
+        return () => {
+            map.off('styledata', applyLayer);
+        };
+    }, [mapInstance, arenaStateRef, terrainVersion]);
+}
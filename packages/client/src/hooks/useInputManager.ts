@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useKeyboardInput } from './useKeyboardInput';
 import { useGamepadInput } from './useGamepadInput';
+import { isTextEntryTarget } from './keyTargets';
 
 // Unified Input Vector type
 export interface InputVector {
@@ -8,11 +9,17 @@ export interface InputVector {
     dy: number;
 }
 
+// Key that throws the carried item
+const THROW_KEY = 'Space';
+// A throw press only counts for the next input sent within this time
+const THROW_REQUEST_WINDOW_MS = 500;
+
 export function useInputManager() {
     const { getKeyboardInput } = useKeyboardInput();
     const { pollGamepad, isGamepadConnected } = useGamepadInput();
     const animationFrameRef = useRef<number | null>(null);
     const [currentInputVector, setCurrentInputVector] = useState<InputVector>({ dx: 0, dy: 0 });
+    const throwRequestedAtRef = useRef<number | null>(null);
 
     const updateInput = useCallback(() => {
         let newInputVector: InputVector = { dx: 0, dy: 0 };
@@ -46,6 +53,24 @@ export function useInputManager() {
         };
     }, [updateInput]); // Re-run effect if updateInput changes
 
-    // Return the continuously updated input vector
-    return { inputVector: currentInputVector };
+    // Throws are one-shot: a key press is remembered until the next input message takes it
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== THROW_KEY || event.repeat) return;
+            if (isTextEntryTarget(event.target)) return; // Typing a space, e.g. in the location search
+            event.preventDefault(); // Keep Space from scrolling or pressing a focused button
+            throwRequestedAtRef.current = performance.now();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const takeThrowRequest = useCallback((): boolean => {
+        const requestedAt = throwRequestedAtRef.current;
+        throwRequestedAtRef.current = null;
+        return requestedAt !== null && performance.now() - requestedAt <= THROW_REQUEST_WINDOW_MS;
+    }, []);
+
+    // Return the continuously updated input vector and the pending throw
+    return { inputVector: currentInputVector, takeThrowRequest };
 }
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { isFocusableTarget } from './keyTargets';
+
+/**
+ * Tracks whether a keyboard key (KeyboardEvent.code, e.g. 'Tab') is currently held down.
+ * The key's default browser action is suppressed while this hook is mounted, except on
+ * focusable controls (text fields, buttons, selects), where e.g. Tab still moves focus.
+ */
+export function useKeyHeld(code: string): boolean {
+    const [isHeld, setIsHeld] = useState(false);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.code !== code || isFocusableTarget(event.target)) return;
+            event.preventDefault(); // e.g. keep Tab from moving focus
+            setIsHeld(true);
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.code === code) setIsHeld(false);
+        };
+        // Releasing the key outside the window never fires keyup
+        const handleBlur = () => setIsHeld(false);
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, [code]);
+
+    return isHeld;
+}
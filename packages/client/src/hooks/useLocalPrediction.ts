@@ -0,0 +1,103 @@
+import { useRef, useCallback } from 'react';
+import { Player } from '@smugglers-town/shared-schemas';
+import {
+    CarMovementState,
+    HazardList,
+    HazardShape,
+    InputMessage,
+    MovementInput,
+    MovementParams,
+    inputToWorldDirection,
+    stepCarWithTerrain,
+    SERVER_TICK_RATE,
+} from '@smugglers-town/shared-utils';
+
+// Prediction advances in the same fixed steps as the server simulation
+const FIXED_DT = 1 / SERVER_TICK_RATE;
+// Cap catch-up work after long frames (e.g. returning to a background tab)
+const MAX_STEPS_PER_FRAME = 5;
+// Unacknowledged inputs kept for replay (~2 seconds)
+const MAX_PENDING_INPUTS = SERVER_TICK_RATE * 2;
+
+/**
+ * Client-side prediction with server reconciliation for the local car.
+ *
+ * Every fixed step the current input is sent with an increasing sequence number
+ * and remembered. The predicted car is the latest authoritative Player state
+ * with all inputs the server has not processed yet (seq > lastProcessedInput)
+ * replayed on top, using the shared movement physics and terrain collisions, so the
+ * predicted car stops at walls and goes back to its base in water like on the server.
+ */
+export function useLocalPrediction() {
+    const pendingInputsRef = useRef<InputMessage[]>([]);
+    const nextSeqRef = useRef(1);
+    const accumulatorRef = useRef(0);
+    // Collision lookup over the replicated hazards, rebuilt when terrainVersion changes
+    const hazardListRef = useRef<{ version: number, list: HazardList } | null>(null);
+
+    /**
+     * Sends inputs for the elapsed frame time and returns the predicted local car.
+     * @param canMove False while the match freezes cars; inputs are still sent but not predicted.
+     * @param params The match's movement settings (state.matchConfig), so prediction matches the server.
+     * @param hazards Terrain hazards (state.hazards) and their state.terrainVersion.
+     * @param waterResetPoint Where water sends the car (its team base).
+     */
+    const predict = useCallback((
+        serverPlayer: Player,
+        input: MovementInput,
+        frameDt: number,
+        canMove: boolean,
+        sendInput: (input: InputMessage) => void,
+        params: MovementParams,
+        hazards: Iterable<HazardShape>,
+        terrainVersion: number,
+        waterResetPoint: { x: number, y: number }
+    ): CarMovementState => {
+        accumulatorRef.current = Math.min(accumulatorRef.current + frameDt, FIXED_DT * MAX_STEPS_PER_FRAME);
+        while (accumulatorRef.current >= FIXED_DT) {
+            accumulatorRef.current -= FIXED_DT;
+            const message: InputMessage = { dx: input.dx, dy: input.dy, seq: nextSeqRef.current++ };
+            sendInput(message);
+            if (canMove) pendingInputsRef.current.push(message);
+        }
+
+        // Drop inputs the server has already applied
+        const ackedSeq = serverPlayer.lastProcessedInput;
+        let pending = pendingInputsRef.current.filter(pendingInput => pendingInput.seq > ackedSeq);
+        if (pending.length > MAX_PENDING_INPUTS) {
+            pending = pending.slice(pending.length - MAX_PENDING_INPUTS);
+        }
+        pendingInputsRef.current = pending;
+
+        if (hazardListRef.current?.version !== terrainVersion) {
+            hazardListRef.current = { version: terrainVersion, list: new HazardList(hazards) };
+        }
+        const hazardList = hazardListRef.current.list;
+
+        // Rebuild the prediction from authoritative state
+        const car: CarMovementState = {
+            x: serverPlayer.x,
+            y: serverPlayer.y,
+            heading: serverPlayer.heading,
+            vx: serverPlayer.vx,
+            vy: serverPlayer.vy,
+        };
+        for (const pendingInput of pending) {
+            const { dirX, dirY } = inputToWorldDirection(pendingInput);
+            const terrain = stepCarWithTerrain(car, dirX, dirY, serverPlayer.isOnRoad, FIXED_DT, params, hazardList);
+            if (terrain.inWater) {
+                Object.assign(car, { x: waterResetPoint.x, y: waterResetPoint.y, vx: 0, vy: 0 });
+            }
+        }
+        return car;
+    }, []);
+
+    // Forget unacknowledged inputs (e.g. after leaving a room)
+    const reset = useCallback(() => {
+        pendingInputsRef.current = [];
+        accumulatorRef.current = 0;
+        hazardListRef.current = null;
+    }, []);
+
+    return { predict, reset };
+}
@@ -61,49 +61,6 @@ export function useMapLibre({
             console.log('[useMapLibre] Map loaded.');
             initialStyleLoaded.current = true; // Mark initial style as loaded
 
-            // Add Water Zone Layer via GeoJSON
-            try {
-                 const waterZoneGeoJsonCoords = [
-                  [-73.99219, 40.75620], // Bottom Left (Lng, Lat)
-                  [-73.99100, 40.75620], // Bottom Right
-                  [-73.99100, 40.75979], // Top Right
-                  [-73.99219, 40.75979], // Top Left
-                  [-73.99219, 40.75620]  // Close loop
-                ];
-
-                // Check if source already exists before adding
-                if (!map.getSource('water-zone-source')) {
-                    map.addSource('water-zone-source', {
-                        'type': 'geojson',
-                        'data': {
-                            'type': 'Feature',
-                            'geometry': {
-                                'type': 'Polygon',
-                                'coordinates': [waterZoneGeoJsonCoords]
-                            },
-                            'properties': {}
-                        }
-                    });
-                }
-
-                // Check if layer already exists before adding
-                if (!map.getLayer('water-zone-layer')) {
-                    map.addLayer({
-                        'id': 'water-zone-layer',
-                        'type': 'fill',
-                        'source': 'water-zone-source',
-                        'layout': {},
-                        'paint': {
-                            'fill-color': '#0000FF',
-                            'fill-opacity': 0.3,
-                        }
-                    });
-                    console.log('[useMapLibre] Water zone GeoJSON layer added to map.');
-                }
-            } catch (mapLayerError) {
-                console.error("[useMapLibre] Error adding water zone layer to map:", mapLayerError);
-            }
-
             // Call the onMapLoad callback if provided
             if (onMapLoad) {
                 onMapLoad(map);
@@ -146,7 +103,7 @@ export function useMapLibre({
         // Set the new style
         map.setStyle(newStyleUrl);
 
-        // Re-apply view state and water layer after style loads
+        // Re-apply view state after style loads (overlay layers re-add themselves, see useHazardLayer)
         map.once('styledata', () => {
              if (!isMounted.current) return; // Check mount status again
              console.log(`[useMapLibre] Style ${currentMapStyleId} loaded.`);
@@ -156,47 +113,6 @@ export function useMapLibre({
              map.setZoom(zoom);
              map.setBearing(bearing);
              map.setPitch(pitch);
-
-            // Re-add the water zone layer (logic similar to initial load)
-            try {
-                 const waterZoneGeoJsonCoords = [
-                  [-73.99219, 40.75620],
-                  [-73.99100, 40.75620],
-                  [-73.99100, 40.75979],
-                  [-73.99219, 40.75979],
-                  [-73.99219, 40.75620]
-                ];
-
-                if (!map.getSource('water-zone-source')) {
-                     map.addSource('water-zone-source', {
-                        'type': 'geojson',
-                        'data': {
-                            'type': 'Feature',
-                            'geometry': {
-                                'type': 'Polygon',
-                                'coordinates': [waterZoneGeoJsonCoords]
-                            },
-                            'properties': {}
-                        }
-                    });
-                 }
-
-                if (!map.getLayer('water-zone-layer')) {
-                    map.addLayer({
-                        'id': 'water-zone-layer',
-                        'type': 'fill',
-                        'source': 'water-zone-source',
-                        'layout': {},
-                        'paint': {
-                            'fill-color': '#0000FF',
-                            'fill-opacity': 0.3,
-                        }
-                    });
-                     console.log('[useMapLibre] Water zone re-added after style change.');
-                 }
-             } catch (mapLayerError) {
-                 console.error("[useMapLibre] Error re-adding water zone layer after style change:", mapLayerError);
-            }
         });
 
     }, [currentMapStyleId]); // Run only when currentMapStyleId changes
@@ -0,0 +1,173 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Map as MapLibreMap } from 'maplibre-gl';
+import { ArenaState, FlagState, Hazard, Player } from '@smugglers-town/shared-schemas';
+import { GameEventDispatcher, GameEventListener, GameEventType } from '@smugglers-town/shared-utils';
+import { Replay, ReplaySnapshot, decodeSnapshot, findFrameIndex, getReplayMarkers } from '../replay/replayFormat';
+import { DerivedGameState, deriveGameState } from './useColyseus';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Writes a decoded snapshot into the ArenaState the game loop renders from
+function applySnapshot(state: ArenaState, snapshot: ReplaySnapshot): void {
+    Object.entries(snapshot.players).forEach(([sessionId, data]) => {
+        let player = state.players.get(sessionId);
+        if (!player) {
+            player = new Player();
+            state.players.set(sessionId, player);
+        }
+        player.name = data.name;
+        player.team = data.team;
+        player.isAI = data.isAI;
+        player.x = data.x;
+        player.y = data.y;
+        player.heading = data.heading;
+    });
+    Array.from(state.players.keys()).forEach(sessionId => {
+        if (!snapshot.players[sessionId]) state.players.delete(sessionId);
+    });
+
+    const itemIds = Object.keys(snapshot.items);
+    if (state.items.length !== itemIds.length || itemIds.some((id, i) => state.items[i]?.id !== id)) {
+        state.items.clear();
+        itemIds.forEach(id => {
+            const item = new FlagState();
+            item.id = id;
+            state.items.push(item);
+        });
+    }
+    state.items.forEach(item => {
+        const data = snapshot.items[item.id];
+        item.status = data.status;
+        item.carrierId = data.carrierId;
+        item.x = data.x;
+        item.y = data.y;
+    });
+
+    Object.assign(state, snapshot.match);
+}
+
+/**
+ * Plays a recorded match back into a local ArenaState, with pause, seeking and speed control.
+ * Gameplay events are re-emitted as playback passes them, so event-driven effects still show.
+ * The camera is free during playback: the map can be dragged and zoomed.
+ */
+export function useReplayPlayback(replay: Replay | null, mapInstance: React.RefObject<MapLibreMap | null>) {
+    const arenaStateRef = useRef<ArenaState | null>(null);
+    const gameEventsRef = useRef(new GameEventDispatcher());
+    const timeRef = useRef(0);
+    const frameIndexRef = useRef(-1);
+    const [gameState, setGameState] = useState<DerivedGameState | null>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+
+    const markers = useMemo(() => (replay ? getReplayMarkers(replay) : []), [replay]);
+    const duration = replay?.durationMs ?? 0;
+
+    /**
+     * Moves playback to `t` (ms). When playing forward, events between the old and new time are emitted.
+     */
+    const applyTime = useCallback((t: number, emitEvents: boolean) => {
+        const state = arenaStateRef.current;
+        if (!replay || !state) return;
+        const previousTime = timeRef.current;
+        const nextTime = Math.max(0, Math.min(t, replay.durationMs));
+        timeRef.current = nextTime;
+
+        if (emitEvents) {
+            replay.events.forEach(({ t: eventTime, event }) => {
+                if (eventTime > previousTime && eventTime <= nextTime) gameEventsRef.current.emit(event);
+            });
+        }
+
+        const frameIndex = findFrameIndex(replay, nextTime);
+        if (frameIndex !== frameIndexRef.current) {
+            frameIndexRef.current = frameIndex;
+            const snapshot = decodeSnapshot(replay, frameIndex);
+            if (snapshot) {
+                applySnapshot(state, snapshot);
+                setGameState(deriveGameState(state));
+            }
+        }
+        setCurrentTime(nextTime);
+    }, [replay]);
+
+    // (Re)start from the beginning whenever a different replay is loaded
+    useEffect(() => {
+        if (!replay) {
+            arenaStateRef.current = null;
+            setGameState(null);
+            setIsPlaying(false);
+            return;
+        }
+        arenaStateRef.current = new ArenaState();
+        Object.assign(arenaStateRef.current.matchConfig, replay.matchConfig);
+        replay.hazards.forEach(({ kind, points }) => {
+            const hazard = new Hazard();
+            hazard.kind = kind;
+            hazard.points.push(...points);
+            arenaStateRef.current!.hazards.push(hazard);
+        });
+        timeRef.current = 0;
+        frameIndexRef.current = -1;
+        applyTime(0, false);
+        setIsPlaying(true);
+    }, [replay, applyTime]);
+
+    // Advance while playing
+    useEffect(() => {
+        if (!replay || !isPlaying) return;
+        let animationFrame = 0;
+        let lastFrameTime = performance.now();
+        const tick = (now: number) => {
+            applyTime(timeRef.current + (now - lastFrameTime) * speed, true);
+            lastFrameTime = now;
+            if (timeRef.current >= replay.durationMs) {
+                setIsPlaying(false);
+                return;
+            }
+            animationFrame = requestAnimationFrame(tick);
+        };
+        animationFrame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(animationFrame);
+    }, [replay, isPlaying, speed, applyTime]);
+
+    // Free camera while a replay is loaded
+    const isActive = gameState !== null;
+    useEffect(() => {
+        const map = mapInstance.current;
+        if (!map || !isActive) return;
+        map.dragPan.enable();
+        map.scrollZoom.enable();
+        return () => {
+            map.dragPan.disable();
+            map.scrollZoom.disable();
+        };
+    }, [isActive, mapInstance]);
+
+    const seek = useCallback((t: number) => applyTime(t, false), [applyTime]);
+
+    const togglePlaying = useCallback(() => {
+        // Restart from the beginning when play is pressed at the end
+        if (!isPlaying && timeRef.current >= duration) applyTime(0, false);
+        setIsPlaying(prev => !prev);
+    }, [isPlaying, duration, applyTime]);
+
+    const onGameEvent = useCallback(<T extends GameEventType>(type: T, listener: GameEventListener<T>) => {
+        return gameEventsRef.current.on(type, listener);
+    }, []);
+
+    return {
+        arenaStateRef,
+        gameState,
+        currentTime,
+        duration,
+        isPlaying,
+        togglePlaying,
+        speed,
+        setSpeed,
+        seek,
+        markers,
+        onGameEvent,
+    };
+}
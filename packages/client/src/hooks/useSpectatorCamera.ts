@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { Map as MapLibreMap } from 'maplibre-gl';
+import { ArenaState, FlagState, Player } from '@smugglers-town/shared-schemas';
+import { VISUAL_BASE_RADIUS, worldToGeo } from '@smugglers-town/shared-utils';
+
+export type SpectatorCameraMode = 'player' | 'carrier' | 'overview';
+
+// Extra space around the bases in the overview (meters)
+const OVERVIEW_MARGIN = 60;
+
+interface UseSpectatorCameraProps {
+    enabled: boolean;
+    players: Map<string, Player>;
+    items: FlagState[];
+    mapInstance: React.RefObject<MapLibreMap | null>;
+    arenaStateRef: React.RefObject<ArenaState | null>;
+}
+
+/**
+ * Camera for spectators: follow a chosen player, follow whoever carries an item,
+ * or frame both bases. When there is nobody to follow, the overview is shown.
+ * @returns The session ID to follow (null = overview).
+ */
+export function useSpectatorCamera({ enabled, players, items, mapInstance, arenaStateRef }: UseSpectatorCameraProps) {
+    const [mode, setMode] = useState<SpectatorCameraMode>('overview');
+    const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
+
+    const playerIds = Array.from(players.keys());
+    const followedPlayerId = selectedPlayerId && players.has(selectedPlayerId) ? selectedPlayerId : playerIds[0] ?? null;
+    const carrierId = items.find(item => item.status === 'carried' && item.carrierId && players.has(item.carrierId))?.carrierId ?? null;
+
+    let targetSessionId: string | null = null;
+    if (mode === 'player') targetSessionId = followedPlayerId;
+    else if (mode === 'carrier') targetSessionId = carrierId;
+    const showOverview = enabled && targetSessionId === null;
+    const hasState = players.size > 0 || items.length > 0;
+
+    // Switches to following players; step 1 = next, -1 = previous
+    const cyclePlayer = (step: number) => {
+        if (mode !== 'player') {
+            setMode('player');
+            return;
+        }
+        if (playerIds.length === 0) return;
+        const currentIndex = followedPlayerId ? playerIds.indexOf(followedPlayerId) : -1;
+        const nextIndex = (currentIndex + step + playerIds.length) % playerIds.length;
+        setSelectedPlayerId(playerIds[nextIndex]);
+    };
+
+    // Frame both bases when switching to the overview
+    useEffect(() => {
+        const map = mapInstance.current;
+        const state = arenaStateRef.current;
+        if (!showOverview || !map || !state) return;
+        const minX = Math.min(state.redBaseX, state.blueBaseX) - VISUAL_BASE_RADIUS - OVERVIEW_MARGIN;
+        const maxX = Math.max(state.redBaseX, state.blueBaseX) + VISUAL_BASE_RADIUS + OVERVIEW_MARGIN;
+        const minY = Math.min(state.redBaseY, state.blueBaseY) - VISUAL_BASE_RADIUS - OVERVIEW_MARGIN;
+        const maxY = Math.max(state.redBaseY, state.blueBaseY) + VISUAL_BASE_RADIUS + OVERVIEW_MARGIN;
+        try {
+            const southWest = worldToGeo(minX, minY, state.worldOriginLng, state.worldOriginLat);
+            const northEast = worldToGeo(maxX, maxY, state.worldOriginLng, state.worldOriginLat);
+            map.fitBounds([southWest, northEast], { padding: 80, duration: 1000 });
+        } catch (e) {
+            console.warn('[useSpectatorCamera] Error framing overview:', e);
+        }
+    }, [showOverview, hasState, mapInstance, arenaStateRef]);
+
+    return {
+        mode,
+        setMode,
+        cyclePlayer,
+        targetSessionId: enabled ? targetSessionId : null,
+        targetName: targetSessionId ? players.get(targetSessionId)?.name ?? null : null,
+    };
+}
@@ -0,0 +1,26 @@
+import { Replay, isReplay } from './replayFormat';
+
+/**
+ * Saves a replay as a JSON file through the browser's download.
+ */
+export function downloadReplay(replay: Replay): void {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `smugglers-town-match-${replay.matchNumber}-${replay.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a replay saved with downloadReplay.
+ * @throws If the file isn't a replay of the current format.
+ */
+export async function readReplayFile(file: File): Promise<Replay> {
+    const parsed: unknown = JSON.parse(await file.text());
+    if (!isReplay(parsed)) {
+        throw new Error('Not a replay file (or recorded by an incompatible version)');
+    }
+    return parsed;
+}
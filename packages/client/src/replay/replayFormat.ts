@@ -0,0 +1,255 @@
+import { ArenaState, FlagState, Hazard, MatchConfigValues, MatchPhase, Player } from '@smugglers-town/shared-schemas';
+import { GameEvent, InputMessage } from '@smugglers-town/shared-utils';
+
+/**
+ * Replay file format.
+ *
+ * Every received state patch becomes a frame holding only what changed since the
+ * previous frame (positions rounded to centimeters). Every KEYFRAME_INTERVAL frames
+ * a full snapshot is stored instead, so seeking never replays more than that many deltas.
+ * Bump REPLAY_FORMAT_VERSION whenever a field changes: files of another version are rejected.
+ */
+
+export const REPLAY_FORMAT_VERSION = 4;
+const KEYFRAME_INTERVAL = 100;
+
+export interface PlayerSnapshot {
+    name: string;
+    team: Player['team'];
+    isAI: boolean;
+    x: number;
+    y: number;
+    heading: number;
+}
+
+export interface ItemSnapshot {
+    status: FlagState['status'];
+    carrierId: string | null;
+    x: number;
+    y: number;
+}
+
+export interface MatchSnapshot {
+    redScore: number;
+    blueScore: number;
+    gameTimeRemaining: number;
+    matchPhase: MatchPhase;
+    phaseTimeRemaining: number;
+    worldOriginLat: number;
+    worldOriginLng: number;
+    redBaseX: number;
+    redBaseY: number;
+    blueBaseX: number;
+    blueBaseY: number;
+}
+
+export interface HazardSnapshot {
+    kind: Hazard['kind'];
+    points: number[]; // Outer ring [x0, y0, x1, y1, ...] in meters from the origin
+}
+
+export interface ReplaySnapshot {
+    players: Record<string, PlayerSnapshot>;
+    items: Record<string, ItemSnapshot>;
+    match: MatchSnapshot;
+}
+
+// A removed player/item is recorded as null
+export interface ReplayFrame {
+    t: number; // ms since recording started
+    key?: ReplaySnapshot;
+    players?: Record<string, Partial<PlayerSnapshot> | null>;
+    items?: Record<string, Partial<ItemSnapshot> | null>;
+    match?: Partial<MatchSnapshot>;
+}
+
+export interface Replay {
+    version: number;
+    recordedAt: string; // ISO date
+    matchNumber: number;
+    localSessionId: string | null;
+    // Settings of the recorded match
+    matchConfig: MatchConfigValues;
+    // Terrain around the recorded origin (the last set received; a new origin starts a new match)
+    hazards: HazardSnapshot[];
+    durationMs: number;
+    frames: ReplayFrame[];
+    events: { t: number; event: GameEvent }[];
+    // Only recorded when the direction changes
+    inputs: ({ t: number } & InputMessage)[];
+}
+
+export interface ReplayMarker {
+    t: number;
+    type: 'item_stolen' | 'item_scored';
+    label: string;
+    team: Player['team'] | undefined;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function captureSnapshot(state: ArenaState): ReplaySnapshot {
+    const players: Record<string, PlayerSnapshot> = {};
+    state.players.forEach((player, sessionId) => {
+        players[sessionId] = {
+            name: player.name,
+            team: player.team,
+            isAI: player.isAI,
+            x: round(player.x),
+            y: round(player.y),
+            heading: round(player.heading),
+        };
+    });
+    const items: Record<string, ItemSnapshot> = {};
+    state.items.forEach(item => {
+        items[item.id] = { status: item.status, carrierId: item.carrierId ?? null, x: round(item.x), y: round(item.y) };
+    });
+    return {
+        players,
+        items,
+        match: {
+            redScore: state.redScore,
+            blueScore: state.blueScore,
+            gameTimeRemaining: round(state.gameTimeRemaining),
+            matchPhase: state.matchPhase,
+            phaseTimeRemaining: round(state.phaseTimeRemaining),
+            worldOriginLat: state.worldOriginLat,
+            worldOriginLng: state.worldOriginLng,
+            redBaseX: round(state.redBaseX),
+            redBaseY: round(state.redBaseY),
+            blueBaseX: round(state.blueBaseX),
+            blueBaseY: round(state.blueBaseY),
+        },
+    };
+}
+
+export function captureHazards(state: ArenaState): HazardSnapshot[] {
+    return state.hazards.map(hazard => ({ kind: hazard.kind, points: hazard.points.map(value => value ?? 0) }));
+}
+
+// Fields of `next` that differ from `prev`, or undefined if nothing changed
+function diffRecord<T extends object>(prev: T, next: T): Partial<T> | undefined {
+    let changes: Partial<T> | undefined;
+    (Object.keys(next) as (keyof T)[]).forEach(key => {
+        if (prev[key] !== next[key]) {
+            changes = changes ?? {};
+            changes[key] = next[key];
+        }
+    });
+    return changes;
+}
+
+function diffCollection<T extends object>(prev: Record<string, T>, next: Record<string, T>): Record<string, Partial<T> | null> | undefined {
+    let changes: Record<string, Partial<T> | null> | undefined;
+    Object.keys(next).forEach(id => {
+        const change = prev[id] ? diffRecord(prev[id], next[id]) : next[id];
+        if (change) {
+            changes = changes ?? {};
+            changes[id] = change;
+        }
+    });
+    Object.keys(prev).forEach(id => {
+        if (!next[id]) {
+            changes = changes ?? {};
+            changes[id] = null;
+        }
+    });
+    return changes;
+}
+
+/**
+ * Encodes `next` as a frame relative to `prev`.
+ * @returns null if nothing changed (non-keyframes only).
+ */
+export function encodeFrame(t: number, frameIndex: number, prev: ReplaySnapshot | null, next: ReplaySnapshot): ReplayFrame | null {
+    if (!prev || frameIndex % KEYFRAME_INTERVAL === 0) {
+        return { t, key: next };
+    }
+    const frame: ReplayFrame = {
+        t,
+        players: diffCollection(prev.players, next.players),
+        items: diffCollection(prev.items, next.items),
+        match: diffRecord(prev.match, next.match),
+    };
+    if (!frame.players && !frame.items && !frame.match) return null;
+    return frame;
+}
+
+function applyCollection<T extends object>(target: Record<string, T>, changes: Record<string, Partial<T> | null> | undefined): void {
+    if (!changes) return;
+    Object.entries(changes).forEach(([id, change]) => {
+        if (change === null) {
+            delete target[id];
+        } else {
+            target[id] = { ...target[id], ...change } as T;
+        }
+    });
+}
+
+function cloneSnapshot(snapshot: ReplaySnapshot): ReplaySnapshot {
+    return {
+        players: { ...snapshot.players },
+        items: { ...snapshot.items },
+        match: { ...snapshot.match },
+    };
+}
+
+/**
+ * Index of the last frame at or before `t` (binary search).
+ */
+export function findFrameIndex(replay: Replay, t: number): number {
+    let low = 0;
+    let high = replay.frames.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (replay.frames[mid].t <= t) low = mid;
+        else high = mid - 1;
+    }
+    return low;
+}
+
+/**
+ * Decodes the full state at a frame: nearest keyframe plus the deltas after it.
+ */
+export function decodeSnapshot(replay: Replay, frameIndex: number): ReplaySnapshot | null {
+    let keyIndex = frameIndex;
+    while (keyIndex >= 0 && !replay.frames[keyIndex]?.key) keyIndex--;
+    if (keyIndex < 0) return null;
+
+    const snapshot = cloneSnapshot(replay.frames[keyIndex].key!);
+    for (let i = keyIndex + 1; i <= frameIndex; i++) {
+        const frame = replay.frames[i];
+        applyCollection(snapshot.players, frame.players);
+        applyCollection(snapshot.items, frame.items);
+        if (frame.match) Object.assign(snapshot.match, frame.match);
+    }
+    return snapshot;
+}
+
+/**
+ * Steals and captures, for the timeline.
+ */
+export function getReplayMarkers(replay: Replay): ReplayMarker[] {
+    const markers: ReplayMarker[] = [];
+    replay.events.forEach(({ t, event }) => {
+        if (event.type !== 'item_stolen' && event.type !== 'item_scored') return;
+        const players = decodeSnapshot(replay, findFrameIndex(replay, t))?.players ?? {};
+        const nameOf = (sessionId: string) => players[sessionId]?.name ?? sessionId;
+        if (event.type === 'item_stolen') {
+            markers.push({
+                t,
+                type: event.type,
+                label: `${nameOf(event.toPlayerId)} stole from ${nameOf(event.fromPlayerId)}`,
+                team: players[event.toPlayerId]?.team,
+            });
+        } else {
+            markers.push({ t, type: event.type, label: `${nameOf(event.playerId)} scored for ${event.team}`, team: event.team });
+        }
+    });
+    return markers;
+}
+
+export function isReplay(value: unknown): value is Replay {
+    const replay = value as Replay;
+    return !!replay && replay.version === REPLAY_FORMAT_VERSION && Array.isArray(replay.frames) && Array.isArray(replay.events);
+}
@@ -0,0 +1,101 @@
+import { ArenaState, isLivePhase } from '@smugglers-town/shared-schemas';
+import { GameEvent, InputMessage } from '@smugglers-town/shared-utils';
+import { Replay, ReplaySnapshot, REPLAY_FORMAT_VERSION, captureHazards, captureSnapshot, encodeFrame } from './replayFormat';
+
+// Stop recording very long sessions instead of growing without bound
+const MAX_RECORDING_MS = 30 * 60 * 1000;
+
+/**
+ * Records the room's state patches, gameplay events and local inputs.
+ * A new recording starts with every match; the previous one is kept as the last completed replay.
+ */
+export class ReplayRecorder {
+    private current: Replay | null = null;
+    private lastCompleted: Replay | null = null;
+    private lastSnapshot: ReplaySnapshot | null = null;
+    private startTime = 0;
+    private lastInput: InputMessage | null = null;
+    // ArenaState.terrainVersion of the hazards in the current recording
+    private recordedTerrainVersion = -1;
+    // Recordings that never reached live play (e.g. only warmup) aren't kept as a completed match
+    private currentHasPlay = false;
+
+    recordState(state: ArenaState, localSessionId: string | null): void {
+        if (this.current && this.current.matchNumber !== state.matchNumber) {
+            this.finishMatch();
+        }
+        if (!this.current) {
+            this.start(state, localSessionId);
+        }
+        const replay = this.current!;
+        const t = this.elapsed();
+        if (t > MAX_RECORDING_MS) return;
+
+        if (isLivePhase(state.matchPhase)) this.currentHasPlay = true;
+        // The map loads after the match starts, so the hazards can arrive after the first frame
+        if (state.terrainVersion !== this.recordedTerrainVersion) {
+            replay.hazards = captureHazards(state);
+            this.recordedTerrainVersion = state.terrainVersion;
+        }
+        const snapshot = captureSnapshot(state);
+        const frame = encodeFrame(t, replay.frames.length, this.lastSnapshot, snapshot);
+        if (frame) {
+            replay.frames.push(frame);
+            replay.durationMs = t;
+        }
+        this.lastSnapshot = snapshot;
+    }
+
+    recordEvent(event: GameEvent): void {
+        if (!this.current) return;
+        this.current.events.push({ t: this.elapsed(), event });
+    }
+
+    recordInput(input: InputMessage): void {
+        if (!this.current) return;
+        if (this.lastInput && this.lastInput.dx === input.dx && this.lastInput.dy === input.dy) return;
+        this.lastInput = input;
+        this.current.inputs.push({ t: this.elapsed(), ...input });
+    }
+
+    /**
+     * The last completed match, or the match in progress if none has finished yet.
+     */
+    getReplay(): Replay | null {
+        const replay = this.lastCompleted ?? this.current;
+        if (!replay || replay.frames.length === 0) return null;
+        // Copy so later recording doesn't change a replay that is being watched
+        return { ...replay, frames: [...replay.frames], events: [...replay.events], inputs: [...replay.inputs] };
+    }
+
+    private start(state: ArenaState, localSessionId: string | null): void {
+        this.current = {
+            version: REPLAY_FORMAT_VERSION,
+            recordedAt: new Date().toISOString(),
+            matchNumber: state.matchNumber,
+            localSessionId,
+            matchConfig: state.matchConfig.toJSON(),
+            hazards: [],
+            durationMs: 0,
+            frames: [],
+            events: [],
+            inputs: [],
+        };
+        this.startTime = performance.now();
+        this.lastSnapshot = null;
+        this.lastInput = null;
+        this.recordedTerrainVersion = -1;
+        this.currentHasPlay = false;
+    }
+
+    private finishMatch(): void {
+        if (this.current && this.currentHasPlay) {
+            this.lastCompleted = this.current;
+        }
+        this.current = null;
+    }
+
+    private elapsed(): number {
+        return Math.round(performance.now() - this.startTime);
+    }
+}
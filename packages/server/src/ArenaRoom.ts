@@ -1,75 +1,72 @@
 import { Room, Client } from "@colyseus/core";
-import { ArenaState, Player, FlagState } from "@smugglers-town/shared-schemas";
-import { v4 as uuidv4 } from 'uuid';
-
-// Import constants, helpers, and controllers
-import * as Constants from "./config/constants";
-import * as ServerConstants from "./config/constants"; // Alias server-specific constants
-import * as SharedConstants from "@smugglers-town/shared-utils"; // Correct import for Shared Constants
-import { NUM_ITEMS, lerp, angleLerp, distSq, PLAYER_EFFECTIVE_RADIUS } from "@smugglers-town/shared-utils"; // Import shared utils, including PLAYER_EFFECTIVE_RADIUS
-import { updateAIState } from "./game/aiController";
-import { updateHumanPlayerState } from "./game/playerController";
+import { ArenaState } from "@smugglers-town/shared-schemas";
 import {
-    checkItemPickup,
-    checkScoring,
-    checkPlayerCollisionsAndStealing,
-    updateCarriedItemPosition
-} from "./game/rules";
-import { worldToGeo } from "@smugglers-town/shared-utils"; // <-- Import shared coordinate utils
-import { getMapFeaturesAtPoint, responseHasRoad } from "./utils/mapApiUtils"; // <-- Import map API utils
-
-// Define types for internal room state maps
-type PlayerInput = { dx: number, dy: number };
-type PlayerVelocity = { vx: number, vy: number };
-// Define type for road status cache entries - ADDED predictedIsOnRoad
-type RoadStatus = { isOnRoad: boolean, predictedIsOnRoad: boolean | null, lastQueryTime: number };
-
-// Constants for road query
-const ROAD_QUERY_INTERVAL_MS = 500;
-
-// Define GAME_DURATION_SECONDS here
-const GAME_DURATION_SECONDS = 5 * 60; // 5 minutes
+    AI_DIFFICULTIES, AIDifficulty, ARENA_PRESETS_MESSAGE, DEFAULT_AI_DIFFICULTY, GAME_EVENT_MESSAGE, INPUT_WARNING_MESSAGE, InputWarning, KICKED_CLOSE_CODE,
+    LOCATION_REJECTED_MESSAGE, LOCATION_VOTE_CANCEL_MESSAGE, LOCATION_VOTE_MESSAGE, LocationProposal, SERVER_TICK_RATE
+} from "@smugglers-town/shared-utils";
+import { ArenaSimulation } from "./game/arenaSimulation";
+import { DEFAULT_BOT_NAME, isRegisteredBot } from "./bots";
+import { parseArenaRoomOptions } from "./config/roomOptions";
+import { LocationRules, checkLocation, loadLocationRules } from "./config/locationRules";
+import { LocationTarget, cancelLocationVote, castLocationVote, proposeLocation, updateLocationVote } from "./game/locationVote";
+import { findArenaPreset, getArenaPresetSummaries, resolveArenaPreset } from "./config/arenaPresets";
+import { createRoadProvider } from "./roads";
+import { createHazardProvider } from "./hazards";
+import { RECONNECTION_TIMEOUT_SECONDS } from "./config/constants";
+import { AuditLog } from "./security/auditLog";
+import { InputGuard, MAX_STRIKES } from "./security/inputGuard";
+import { checkLobbyHandoff } from "./security/lobbyHandoff";
 
 export class ArenaRoom extends Room<ArenaState> {
 
   // --- Room State ---
-  // Store latest input from clients
-  private playerInputs = new Map<string, PlayerInput>();
-  // Store server-calculated velocity
-  private playerVelocities = new Map<string, PlayerVelocity>();
-  // Store AI player session IDs
-  private aiPlayers = new Set<string>();
+  // Game simulation (players, items, rules); the room feeds it input and broadcasts its events
+  private simulation!: ArenaSimulation;
   // Maps for persistent identity and team tracking
   private persistentIdToSessionId = new Map<string, string>();
   private persistentIdToTeam = new Map<string, "Red" | "Blue">();
-  // Counter for AI IDs (keep state within the room instance)
-  private aiCounter = 1;
-  private playerRoadStatusCache = new Map<string, RoadStatus>();
-  // ADDED: Store predicted positions from the previous tick
-  private playerPredictedPositions = new Map<string, { x: number, y: number }>();
+  // Clients that joined with { spectator: true }: they receive state but have no car
+  private spectators = new Set<string>();
+  // Anti-cheat for "input" messages; kicked clients are removed without a reconnection window
+  private inputGuard!: InputGuard;
+  private kickedClients = new Set<string>();
+  // Where set_world_origin may move the arena (latitude bounds, allowed/denied regions)
+  private locationRules!: LocationRules;
   private periodicLogTimer = 0;
 
   // --- Lifecycle Methods ---
 
   onCreate (options: any) {
     console.log("[ArenaRoom] Room created with options:", options);
+    // A lobby room must carry the lobby API's signature over its settings (when LOBBY_HANDOFF_SECRET is set)
+    const lobbyRejection = checkLobbyHandoff(options);
+    if (lobbyRejection) throw new Error(lobbyRejection);
     this.setState(new ArenaState());
+    this.inputGuard = new InputGuard(new AuditLog(this.roomId));
+    // Match settings from a lobby handoff (see firebase/functions); anything missing uses the defaults
+    this.locationRules = loadLocationRules();
+    const roomOptions = parseArenaRoomOptions(options, this.locationRules);
+    if (roomOptions.lobbyId) this.setMetadata({ lobbyId: roomOptions.lobbyId });
+
+    // Roads and terrain hazards: local GeoJSON by default, see roads/index.ts and hazards/index.ts
+    this.simulation = new ArenaSimulation({
+        state: this.state,
+        roadProvider: createRoadProvider(),
+        hazardProvider: createHazardProvider(),
+        config: roomOptions.config,
+        origin: roomOptions.location,
+        preset: roomOptions.preset,
+    });
+    this.simulation.events.onAny(event => this.broadcast(GAME_EVENT_MESSAGE, event));
+    this.simulation.start(); // Load roads, initialize items, enter warmup
 
-    // Initialize state from constants
-    this.state.redScore = 0;
-    this.state.blueScore = 0;
-    this.state.gameTimeRemaining = GAME_DURATION_SECONDS;
-    this.state.baseRadius = Math.sqrt(ServerConstants.BASE_RADIUS_SQ); // Initialize baseRadius from constant
-
-    // Set initial world origin (Times Square)
-    this.state.worldOriginLat = SharedConstants.ORIGIN_LAT;
-    this.state.worldOriginLng = SharedConstants.ORIGIN_LNG;
-
-    this.playerRoadStatusCache = new Map<string, RoadStatus>();
-    this.playerPredictedPositions = new Map<string, { x: number, y: number }>(); // Initialize new map
-
-    this.resetRound(); // Initialize items
+    // Bot fill: AI on both teams from the start, so small lobbies still get a full match
+    for (let i = 0; i < roomOptions.botFill; i++) {
+        this.simulation.addAIPlayer("Red");
+        this.simulation.addAIPlayer("Blue");
+    }
 
+    console.log("[ArenaRoom] Match config:", roomOptions.config);
     console.log(`Game timer initialized to ${this.state.gameTimeRemaining} seconds.`);
     console.log(`Base radius initialized to ${this.state.baseRadius.toFixed(1)} meters.`); // Log base radius
     console.log(`Initial world origin set to Lat: ${this.state.worldOriginLat}, Lng: ${this.state.worldOriginLng}`); // Log initial origin
@@ -78,11 +75,17 @@ export class ArenaRoom extends Room<ArenaState> {
     this.registerMessageHandlers();
 
     // Set up the main game loop
-    this.setSimulationInterval((deltaTime) => this.update(deltaTime / 1000), 1000 / 60);
+    this.setSimulationInterval((deltaTime) => this.update(deltaTime / 1000), 1000 / SERVER_TICK_RATE);
   }
 
   onJoin (client: Client, options: any) {
     console.log(`[${client.sessionId}] Client joining... Options:`, options);
+    if (options?.spectator === true) {
+        // No Player is created, so spectators never count towards teams, balance or the AI cleanup
+        this.spectators.add(client.sessionId);
+        console.log(`=> Spectator ${client.sessionId} joined. Spectators: ${this.spectators.size}`);
+        return;
+    }
     const tabId = options?.persistentPlayerId;
 
     console.log(`[${client.sessionId}] Calling determinePlayerTeam with tabId: ${tabId}`);
@@ -90,16 +93,25 @@ export class ArenaRoom extends Room<ArenaState> {
     console.log(`[${client.sessionId}] determinePlayerTeam returned: ${assignedTeam}. Proceeding to create player.`);
 
     // Create and setup human player
-    const humanPlayer = this.createHumanPlayer(client.sessionId, assignedTeam);
-    this.state.players.set(client.sessionId, humanPlayer);
-    this.playerInputs.set(client.sessionId, { dx: 0, dy: 0 });
-    this.playerVelocities.set(client.sessionId, { vx: 0, vy: 0 });
+    const humanPlayer = this.simulation.addHumanPlayer(client.sessionId, assignedTeam);
+    if (!this.state.hostId) {
+        this.state.hostId = client.sessionId;
+        console.log(`=> ${humanPlayer.name} is the room host.`);
+    }
+    // For the arena preset picker (players propose presets like any other location)
+    client.send(ARENA_PRESETS_MESSAGE, getArenaPresetSummaries());
 
     console.log(`=> Player ${humanPlayer.name} (${humanPlayer.team}) added at (${humanPlayer.x.toFixed(1)}, ${humanPlayer.y.toFixed(1)}) meters.`);
   }
 
   async onLeave (client: Client, consented: boolean) {
     console.log(`[${client.sessionId}] Client leaving... Consented: ${consented} (Type: ${typeof consented})`);
+    const kicked = this.kickedClients.delete(client.sessionId);
+    if (this.spectators.delete(client.sessionId)) {
+        console.log(`=> Spectator ${client.sessionId} left. Spectators: ${this.spectators.size}`);
+        this.inputGuard.forget(client.sessionId);
+        return;
+    }
 
     const leavingPlayer = this.state.players.get(client.sessionId);
     let leavingTabId: string | undefined = undefined;
@@ -115,72 +127,37 @@ export class ArenaRoom extends Room<ArenaState> {
     console.log(`---> [onLeave Pre-Reconnection Check] Players in state: ${JSON.stringify(Array.from(this.state.players.keys()))}`);
     // --->
 
-    // Handle item drop IF player state still exists
-    if(leavingPlayer) {
-        this.state.items.forEach(item => {
-            if (item.carrierId === client.sessionId) {
-                console.log(`[${client.sessionId}] Player carrying item ${item.id} left.`);
-                item.status = 'dropped';
-                item.x = leavingPlayer.x;
-                item.y = leavingPlayer.y;
-                item.carrierId = null;
-                console.log(`   Item ${item.id} dropped at (${item.x.toFixed(1)}, ${item.y.toFixed(1)})`);
-            }
-        });
+    // Dropped connection: hold the car (and any item it carries) so the client can resume it
+    if (!consented && !kicked && leavingPlayer) {
+        this.simulation.releaseInput(client.sessionId);
+        this.inputGuard.resetSequence(client.sessionId);
+        console.log(`[${client.sessionId}] Non-consented leave. Holding player ${leavingPlayer.name} for ${RECONNECTION_TIMEOUT_SECONDS}s.`);
+        try {
+            await this.allowReconnection(client, RECONNECTION_TIMEOUT_SECONDS);
+            console.log(`=> Player ${leavingPlayer.name} (${client.sessionId}) reconnected.`);
+            return;
+        } catch (e) {
+            console.log(`[${client.sessionId}] Reconnection window expired. Removing player.`);
+        }
     }
 
-    // Check if AI needs removal (This should still happen)
-    this.checkAndRemoveAI();
-
-    updateCarriedItemPosition(this.state); // Update positions potentially after item drop
-
-    // --- Manual Cleanup Logic ---
-    const performCleanup = () => {
-        console.log(`---> Performing cleanup for ${client.sessionId}`);
-        this.cleanupPersistentId(client.sessionId);
-        this.removePlayerState(client.sessionId);
-        this.playerRoadStatusCache.delete(client.sessionId);
-        // Potentially trigger AI check again after cleanup?
-        // this.checkAndRemoveAI();
-    };
-
-    if (consented) {
-        console.log(`[${client.sessionId}] Consented leave. Performing immediate cleanup.`);
-        performCleanup();
-    } else {
-        console.log(`[${client.sessionId}] Non-consented leave. Scheduling cleanup in 5 seconds.`);
-        this.clock.setTimeout(() => {
-            // Check if player still exists (might have reconnected or been cleaned up otherwise)
-            if (this.state.players.has(client.sessionId)) {
-                 console.log(`---> 5-second timer expired for ${client.sessionId}. Player still exists. Performing cleanup.`);
-                 performCleanup();
-            } else {
-                 console.log(`---> 5-second timer expired for ${client.sessionId}. Player already gone. Skipping cleanup.`);
-            }
-        }, 5000); // 5 seconds
-    }
-    // -------------------------
+    console.log(`---> Performing cleanup for ${client.sessionId}`);
+    this.simulation.dropCarriedItems(client.sessionId);
+    this.cleanupPersistentId(client.sessionId);
+    this.simulation.removePlayer(client.sessionId);
+    this.simulation.removeAIIfNoHumans();
+    this.inputGuard.forget(client.sessionId);
+    if (this.state.hostId === client.sessionId) this.handOverHost();
   }
 
   onDispose() {
     console.log("[ArenaRoom] Room disposing...");
-    // Potential future cleanup
+    this.simulation.events.clear();
   }
 
   // --- Game Loop ---
 
   update(dt: number) {
-    // --- Game Timer Update ---
-    if (this.state.gameTimeRemaining > 0) {
-      this.state.gameTimeRemaining -= dt;
-      if (this.state.gameTimeRemaining <= 0) {
-        this.state.gameTimeRemaining = 0;
-        console.log("[ArenaRoom] Game timer reached zero!");
-        // TODO: Implement end-of-game logic here (e.g., lock clock, show scores)
-      }
-    }
-    // ------------------------
-
     // --- Periodic Logging ---
     this.periodicLogTimer += dt;
     if (this.periodicLogTimer >= 10) { // Log approx every 10 seconds
@@ -189,183 +166,114 @@ export class ArenaRoom extends Room<ArenaState> {
     }
     // -----------------------
 
-    if (dt > 0.1) {
-        console.warn(`Large delta time detected: ${dt.toFixed(3)}s. Skipping frame.`);
-        return;
-    }
-
-    const playerIds = Array.from(this.state.players.keys());
-    const now = Date.now();
-    const currentPredictedPositions = new Map<string, { x: number, y: number }>(); // Temp map for this tick's predictions
-
-    // 1. Update Player States (AI and Human) - Uses PREVIOUS tick's prediction for speed
-    playerIds.forEach(sessionId => {
-        const player = this.state.players.get(sessionId);
-        if (!player) return;
-
-        let velocity = this.playerVelocities.get(sessionId);
-        if (!velocity) {
-            velocity = { vx: 0, vy: 0 };
-            this.playerVelocities.set(sessionId, velocity);
-        }
-
-        // Get predicted road status from LAST tick's check (from cache)
-        const cachedStatus = this.playerRoadStatusCache.get(sessionId);
-        const predictedIsOnRoadFromLastTick = cachedStatus?.predictedIsOnRoad ?? false; // Default to false
-
-        // Update player's current isOnRoad state for client visuals/info
-        player.isOnRoad = predictedIsOnRoadFromLastTick;
-
-        let predictedPos: { nextX: number, nextY: number }; // Explicitly type here
-
-        if (this.aiPlayers.has(sessionId)) {
-            // --- Update AI --- (Pass prediction from cache)
-            predictedPos = updateAIState(player, sessionId, velocity, this.state, predictedIsOnRoadFromLastTick, dt);
-        } else {
-            // --- Update Human --- (Pass prediction from cache)
-            const input = this.playerInputs.get(sessionId);
-            if (!input) {
-                // Skip if input is missing, maybe set a default prediction?
-                predictedPos = { nextX: player.x, nextY: player.y }; // Default to current if no input
-            } else {
-                 predictedPos = updateHumanPlayerState(player, input, velocity, predictedIsOnRoadFromLastTick, dt);
-            }
-        }
-
-        // Store the PREDICTED position for THIS tick (to be used for the NEXT tick's road check)
-        // Map nextX/nextY to x/y
-        currentPredictedPositions.set(sessionId, { x: predictedPos.nextX, y: predictedPos.nextY });
-
-        // Update schema velocity (after movement calculation)
-        player.vx = velocity.vx;
-        player.vy = velocity.vy;
-    });
-    // Update the room's prediction map for the next tick
-    this.playerPredictedPositions = currentPredictedPositions;
-
-    // 2. Perform Road Status Checks (Throttled) - Uses PREDICTED positions for the check
-    playerIds.forEach(sessionId => {
-        const player = this.state.players.get(sessionId);
-        // Get the predicted position calculated in step 1
-        const predictedPos = this.playerPredictedPositions.get(sessionId);
-        if (!player || !predictedPos) return; // Skip if player left or prediction missing
-
-        const cachedStatus = this.playerRoadStatusCache.get(sessionId) || { isOnRoad: false, predictedIsOnRoad: null, lastQueryTime: 0 };
-        const timeSinceLastQuery = now - cachedStatus.lastQueryTime;
-
-        if (timeSinceLastQuery > ROAD_QUERY_INTERVAL_MS) {
-            // Mark cache immediately to prevent concurrent queries
-            this.playerRoadStatusCache.set(sessionId, { ...cachedStatus, lastQueryTime: now });
-
-            try {
-                // Use PREDICTED position for the check
-                const [lon, lat] = worldToGeo(predictedPos.x, predictedPos.y, this.state.worldOriginLng, this.state.worldOriginLat);
-
-                // --- COMMENTED OUT MAPBOX CALL ---
-                /*
-                getMapFeaturesAtPoint(lon, lat)
-                    .then(apiResponse => {
-                        if (apiResponse) {
-                            const foundRoad = responseHasRoad(apiResponse);
-                            // Update the PREDICTED status in cache for the NEXT tick
-                            this.playerRoadStatusCache.set(sessionId, {
-                                ...cachedStatus, // Keep existing isOnRoad status (based on actual pos from last query)
-                                predictedIsOnRoad: foundRoad,
-                                lastQueryTime: now
-                            });
-                        } // No else needed, retain old predicted status on API error
-                    })
-                    .catch(err => {
-                        console.error(`[${player.name}] Error during predicted road query:`, err);
-                        // Optionally reset predicted status on error?
-                        // this.playerRoadStatusCache.set(sessionId, { ...cachedStatus, predictedIsOnRoad: null, lastQueryTime: now });
-                    });
-                */
-                // --- END COMMENTED OUT ---
-
-                // Since we commented out the API call, let's default predictedIsOnRoad to false
-                // or perhaps maintain the last known value? For now, let's default to false.
-                 this.playerRoadStatusCache.set(sessionId, {
-                    ...cachedStatus,
-                    predictedIsOnRoad: false, // Default to false since we aren't checking
-                    lastQueryTime: now
-                });
-
-            } catch (convErr) {
-                console.error(`[${player.name}] Error converting predicted worldToGeo for road query:`, convErr);
-                // Reset query time in cache so it retries sooner after conversion error
-                this.playerRoadStatusCache.set(sessionId, { ...cachedStatus, lastQueryTime: 0 });
-            }
-        }
-    });
-
-    // 3. Apply Game Rules (Pickup, Scoring, Collisions) - Uses updated positions
-    checkItemPickup(this.state, playerIds);
-    checkScoring(this.state, playerIds);
-    checkPlayerCollisionsAndStealing(
-        this.state,
-        playerIds,
-        this.playerVelocities,
-        now
-    );
-
-    // 4. Round Reset Check
-    const allScored = this.state.items.every(item => item.status === 'scored');
-    if (allScored && this.state.items.length > 0) {
-        console.log("[Update] All items scored! Resetting round.");
-        this.resetRound();
+    const destination = updateLocationVote(this.state, dt, this.getHumanPlayerIds());
+    if (destination) {
+        console.log(`[ArenaRoom] Location vote passed. Moving to Lat=${destination.lat}, Lng=${destination.lng}`);
+        this.simulation.resetGame(destination, findArenaPreset(destination.presetId ?? ""));
     }
-
-    // 5. Update carried item positions
-    updateCarriedItemPosition(this.state);
+    this.simulation.step(dt);
   }
 
   // --- Message Handlers ---
 
   private registerMessageHandlers() {
-    this.onMessage("input", (client, message: PlayerInput) => {
-      this.playerInputs.set(client.sessionId, { dx: message.dx, dy: message.dy });
+    this.onMessage("input", (client, message: unknown) => {
+      // Validated, clamped and rate limited; violations are audited (see security/inputGuard.ts)
+      const { input, action, strikes, violation } = this.inputGuard.check(client.sessionId, message, Date.now());
+      if (action === 'kick') {
+        console.warn(`[${client.sessionId}] Kicked after ${strikes} input strikes (last: ${violation}).`);
+        this.kickedClients.add(client.sessionId);
+        client.leave(KICKED_CLOSE_CODE);
+        return;
+      }
+      if (action === 'warn') {
+        const warning: InputWarning = { reason: violation ?? 'invalid input', strikes, maxStrikes: MAX_STRIKES };
+        client.send(INPUT_WARNING_MESSAGE, warning);
+      }
+      if (!input || this.spectators.has(client.sessionId)) return; // Spectators have no car to drive
+      this.simulation.pushInput(client.sessionId, input);
     });
 
-    this.onMessage("add_ai", (client, message: { team: "Red" | "Blue" }) => {
-      this.handleAddAIRequest(client, message.team);
+    this.onMessage("add_ai", (client, message: { team: "Red" | "Blue", difficulty?: AIDifficulty, bot?: string }) => {
+      this.handleAddAIRequest(client, message.team, message.difficulty, message.bot);
     });
 
-    // Handler for changing the game world origin
-    this.onMessage("set_world_origin", (client, message: { lat: number; lng: number }) => {
-        // Basic validation
-        if (typeof message?.lat !== 'number' || typeof message?.lng !== 'number') {
-            console.warn(`[${client.sessionId}] Received invalid data for set_world_origin:`, message);
-            return;
-        }
-        // Add rate limiting? Maybe later.
+    // Moving the arena is put to a vote of the human players (see game/locationVote.ts)
+    this.onMessage("set_world_origin", (client, message: LocationProposal) => {
+        this.handleLocationProposal(client, message);
+    });
+
+    this.onMessage(LOCATION_VOTE_MESSAGE, (client, message: { approve: boolean }) => {
+        if (typeof message?.approve !== 'boolean' || !this.isHumanPlayer(client.sessionId)) return;
+        castLocationVote(this.state, client.sessionId, message.approve);
+    });
 
-        // TODO: Add permission check? Only allow certain players/conditions to reset?
-        console.log(`[${client.sessionId}] Received set_world_origin request: Lat=${message.lat}, Lng=${message.lng}`);
-        this.resetGame(message);
+    this.onMessage(LOCATION_VOTE_CANCEL_MESSAGE, (client) => {
+        if (cancelLocationVote(this.state, client.sessionId)) {
+            console.log(`[${client.sessionId}] Host cancelled the location vote.`);
+        }
     });
   }
 
-  private handleAddAIRequest(client: Client, team: "Red" | "Blue") {
+  private handleLocationProposal(client: Client, message: LocationProposal) {
+    // Presets are resolved to their origin here; a random pick is drawn now, so everyone votes on the same arena
+    const presetId = (message as { presetId?: unknown } | null)?.presetId;
+    const preset = typeof presetId === 'string' ? resolveArenaPreset(presetId, Math.random, this.state.arenaPresetId) : undefined;
+    const target = (preset ? { ...preset.origin, label: preset.name, presetId: preset.id } : message) as LocationTarget;
+    const rejection = !this.isHumanPlayer(client.sessionId)
+        ? "Only players can propose a location"
+        : typeof presetId === 'string' && !preset
+        ? `Unknown arena preset '${presetId}'`
+        : checkLocation(target?.lat, target?.lng, this.locationRules) ?? proposeLocation(this.state, client.sessionId, target);
+    if (rejection) {
+        console.warn(`[${client.sessionId}] Rejected set_world_origin (${rejection}):`, message);
+        client.send(LOCATION_REJECTED_MESSAGE, { reason: rejection });
+        return;
+    }
+    console.log(`[${client.sessionId}] Opened a location vote: Lat=${target.lat}, Lng=${target.lng} (${this.state.locationVote?.label || 'no label'})`);
+  }
+
+  private handleAddAIRequest(client: Client, team: "Red" | "Blue", difficulty: AIDifficulty = DEFAULT_AI_DIFFICULTY, botName: string = DEFAULT_BOT_NAME) {
+    if (this.spectators.has(client.sessionId)) {
+      console.warn(`[${client.sessionId}] Spectators cannot add AI players.`);
+      return;
+    }
     if (!team || (team !== "Red" && team !== "Blue")) {
       console.warn(`[${client.sessionId}] Received invalid team for add_ai:`, team);
       return;
     }
-    console.log(`[${client.sessionId}] Requesting to add AI to team: ${team}`);
-
-    const aiSessionId = `ai_${this.aiCounter++}`;
-    const aiPlayer = this.createAIPlayer(aiSessionId, team);
+    if (!AI_DIFFICULTIES.includes(difficulty)) {
+      console.warn(`[${client.sessionId}] Received invalid difficulty for add_ai:`, difficulty);
+      return;
+    }
+    if (typeof botName !== "string" || !isRegisteredBot(botName)) {
+      console.warn(`[${client.sessionId}] Received unknown bot for add_ai:`, botName);
+      return;
+    }
+    console.log(`[${client.sessionId}] Requesting to add ${difficulty} ${botName} AI to team: ${team}`);
 
-    this.state.players.set(aiSessionId, aiPlayer);
-    this.playerInputs.set(aiSessionId, { dx: 0, dy: 0 }); // Init input state
-    this.playerVelocities.set(aiSessionId, { vx: 0, vy: 0 }); // Init velocity state
-    this.aiPlayers.add(aiSessionId); // Track AI
+    const { sessionId: aiSessionId, player: aiPlayer } = this.simulation.addAIPlayer(team, difficulty, botName);
 
-    console.log(`=> AI Player ${aiPlayer.name} (${aiPlayer.team}) added by ${client.sessionId}. SessionId: ${aiSessionId}.`);
+    console.log(`=> AI Player ${aiPlayer.name} (${aiPlayer.team}, ${aiPlayer.aiDifficulty}) added by ${client.sessionId}. SessionId: ${aiSessionId}.`);
   }
 
   // --- Helper Methods ---
 
+  private isHumanPlayer(sessionId: string): boolean {
+    const player = this.state.players.get(sessionId);
+    return !!player && !player.isAI;
+  }
+
+  private getHumanPlayerIds(): string[] {
+    return Array.from(this.state.players.keys()).filter(sessionId => this.isHumanPlayer(sessionId));
+  }
+
+  // The longest-present remaining human becomes host (none if only bots are left)
+  private handOverHost(): void {
+    this.state.hostId = this.getHumanPlayerIds()[0] ?? "";
+    console.log(`[ArenaRoom] Host is now: ${this.state.hostId || 'nobody'}`);
+  }
+
   private determinePlayerTeam(sessionId: string, tabId: string | undefined): "Red" | "Blue" {
     console.log(`---> [determinePlayerTeam Input] sessionId: ${sessionId}, tabId: ${tabId}`);
     if (!tabId) {
@@ -430,7 +338,7 @@ export class ArenaRoom extends Room<ArenaState> {
     let redCount = 0, blueCount = 0;
     this.state.players.forEach(p => {
       // Count all players currently in the state for balancing
-      // No need to check for AI here for simple balancing
+      // No need to check for AI here for simple balancing (spectators have no Player)
       if (p.team === 'Red') redCount++;
       else if (p.team === 'Blue') blueCount++;
     });
@@ -440,30 +348,6 @@ export class ArenaRoom extends Room<ArenaState> {
     return team;
   }
 
-  private createHumanPlayer(sessionId: string, team: "Red" | "Blue"): Player {
-    const player = new Player();
-    player.name = `Player ${sessionId.substring(0, 3)}`;
-    const angle = Math.random() * Math.PI * 2;
-    const radius = Math.random() * Constants.PLAYER_SPAWN_RADIUS;
-    player.x = Math.cos(angle) * radius;
-    player.y = Math.sin(angle) * radius;
-    player.heading = 0;
-    player.team = team;
-    return player;
-  }
-
-  private createAIPlayer(sessionId: string, team: "Red" | "Blue"): Player {
-    const player = new Player();
-    player.name = `Bot ${this.aiCounter-1} (${team.substring(0,1)})`;
-    const angle = Math.random() * Math.PI * 2;
-    const radius = Math.random() * Constants.PLAYER_SPAWN_RADIUS;
-    player.x = Math.cos(angle) * radius;
-    player.y = Math.sin(angle) * radius;
-    player.heading = 0;
-    player.team = team;
-    return player;
-  }
-
   private cleanupPersistentId(sessionId: string): void {
     console.log(`---> [cleanupPersistentId Input] sessionId: ${sessionId}`);
     let tabId: string | undefined = undefined;
@@ -484,134 +368,4 @@ export class ArenaRoom extends Room<ArenaState> {
         console.log(`---> [cleanupPersistentId Action] No tabId found for sessionId ${sessionId}. No action taken.`);
     }
   }
-
-  private removePlayerState(sessionId: string): void {
-    console.log(`---> [removePlayerState Entered] Attempting to remove state for sessionId: ${sessionId}`);
-    const player = this.state.players.get(sessionId);
-    const deleted = this.state.players.delete(sessionId); // Store result of delete
-    if (deleted) {
-        console.log(`=> Removing player state: ${player?.name} (${sessionId})`); // Use optional chaining as player might be gone
-        this.playerInputs.delete(sessionId);
-        this.playerVelocities.delete(sessionId);
-    } else {
-        console.warn(`---> [removePlayerState] Player state for ${sessionId} not found or already removed? Delete operation returned ${deleted}.`);
-    }
-  }
-
-  private checkAndRemoveAI(): void {
-    // Count remaining human players
-    let humanPlayerCount = 0;
-    this.state.players.forEach((player, sessionId) => {
-        if (!this.aiPlayers.has(sessionId)) {
-            humanPlayerCount++;
-        }
-    });
-
-    if (humanPlayerCount === 0 && this.aiPlayers.size > 0) {
-        console.log("Last human player left. Removing AI players...");
-        const aiToRemove = Array.from(this.aiPlayers);
-        aiToRemove.forEach(aiSessionId => {
-             const aiPlayer = this.state.players.get(aiSessionId);
-             console.log(`=> Removing AI ${aiPlayer?.name || aiSessionId}`);
-             // Check if AI was carrying item
-             this.state.items.forEach(item => {
-                 if (item.carrierId === aiSessionId) {
-                     console.log(`   AI ${aiSessionId} was carrying item ${item.id}. Dropping item.`);
-                     item.status = 'dropped';
-                     item.x = aiPlayer?.x ?? 0;
-                     item.y = aiPlayer?.y ?? 0;
-                     item.carrierId = null;
-                 }
-             });
-             // Remove AI state
-             this.removePlayerState(aiSessionId); // Reuse player removal logic
-             this.aiPlayers.delete(aiSessionId); // Remove from AI tracking set
-        });
-        // Reset AI counter? Maybe not needed if IDs are unique enough
-    }
-  }
-
-  // --- Round Management Helpers ---
-
-  private spawnNewItem(itemId: string): FlagState {
-      const newItem = new FlagState();
-      newItem.id = itemId;
-      newItem.status = 'available';
-      // Random position within spawn radius - USE SERVER CONSTANT
-      const angle = Math.random() * Math.PI * 2;
-      const radius = Math.random() * ServerConstants.ITEM_SPAWN_RADIUS;
-      newItem.x = Math.cos(angle) * radius;
-      newItem.y = Math.sin(angle) * radius;
-      newItem.carrierId = null;
-      newItem.lastStealTimestamp = 0;
-      console.log(`   Spawning item ${itemId} at (${newItem.x.toFixed(1)}, ${newItem.y.toFixed(1)})`);
-      return newItem;
-  }
-
-  private resetRound(): void {
-    console.log("Executing resetRound...");
-
-    // Clear existing items from state
-    this.state.items.clear();
-    console.log(` -> Cleared existing items. Count: ${this.state.items.length}`);
-
-    // Spawn new items using the shared constant
-    for (let i = 0; i < NUM_ITEMS; i++) {
-        const newItemId = `item-${i}`;
-        const newItem = this.spawnNewItem(newItemId);
-        this.state.items.push(newItem);
-    }
-  }
-
-  private resetGame(newOrigin: { lat: number; lng: number }): void {
-    console.log(`[ArenaRoom] Executing resetGame to origin: Lat=${newOrigin.lat}, Lng=${newOrigin.lng}`);
-
-    // 1. Update World Origin in State
-    this.state.worldOriginLat = newOrigin.lat;
-    this.state.worldOriginLng = newOrigin.lng;
-    console.log(" -> Updated state world origin.");
-
-    // 2. Reset Scores and Timer
-    this.state.redScore = 0;
-    this.state.blueScore = 0;
-    this.state.gameTimeRemaining = GAME_DURATION_SECONDS;
-    console.log(" -> Reset scores and game timer.");
-
-    // 3. Reset Player Positions and States
-    this.state.players.forEach((player, sessionId) => {
-        // Use Shared Utils Constants for base positions
-        const basePos = player.team === 'Red' ? SharedConstants.RED_BASE_POS : SharedConstants.BLUE_BASE_POS;
-        // Spawn near base, not exactly on it
-        const angle = Math.random() * Math.PI * 2;
-        // Use Server Constants for player spawn radius relative to base
-        const radius = Math.random() * ServerConstants.PLAYER_SPAWN_RADIUS;
-        player.x = basePos.x + Math.cos(angle) * radius;
-        player.y = basePos.y + Math.sin(angle) * radius;
-        player.vx = 0;
-        player.vy = 0;
-        player.heading = 0;
-        player.isOnRoad = false; // Reset road status
-        // Clear carried item status (important if reset happens mid-carry)
-        this.state.items.forEach(item => {
-            if (item.carrierId === sessionId) {
-                item.carrierId = null;
-                item.status = 'available'; // Or maybe 'dropped'? Let's stick to available for a full reset.
-                // Item position will be reset in the next step
-            }
-        });
-        // Reset velocity in internal map too
-        this.playerVelocities.set(sessionId, { vx: 0, vy: 0 });
-        this.playerRoadStatusCache.delete(sessionId); // Clear cached road status
-
-        console.log(`  -> Reset player ${player.name} (${sessionId}) to pos (${player.x.toFixed(1)}, ${player.y.toFixed(1)}) near ${player.team} base.`);
-    });
-
-    // 4. Clear and Respawn Items (using existing resetRound logic)
-    this.resetRound();
-
-    console.log("[ArenaRoom] resetGame completed.");
-  }
 }
-
-
-
@@ -1,26 +1,36 @@
-import { ArenaState, Player, FlagState } from "@smugglers-town/shared-schemas";
-import { AIState } from "./types";
+import { BotItemView, BotPlayerView, BotSnapshot, findSnapshotPlayer, getSnapshotBase } from "@smugglers-town/shared-bots";
+import { AIState, LineOfSightCheck } from "./types";
 // Import directly from the package root
-import { distSq, RED_BASE_POS, BLUE_BASE_POS } from "@smugglers-town/shared-utils";
+import { distSq } from "@smugglers-town/shared-utils";
 
 // Helper type for target coordinates
 type TargetCoordinates = { x: number; y: number };
 
+// Targets hidden behind buildings count as this many times further away (squared distance)
+const OUT_OF_SIGHT_DIST_SQ_FACTOR = 4;
+
+// Squared distance to a target, penalized when it is out of sight
+function getTargetScore(player: BotPlayerView, x: number, y: number, canSee?: LineOfSightCheck): number {
+  const distanceSq = distSq(player.x, player.y, x, y);
+  return !canSee || canSee(player.x, player.y, x, y) ? distanceSq : distanceSq * OUT_OF_SIGHT_DIST_SQ_FACTOR;
+}
+
 /**
- * Finds the closest available item to the player.
- * @param player The AI player state.
- * @param state The overall game state.
+ * Finds the closest available item to the player, preferring items in sight.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @param canSee Line of sight check (buildings); without it every item counts as visible.
  * @returns TargetCoordinates of the closest item, or null if none available.
  */
-export function getSeekItemTarget(player: Player, state: ArenaState): TargetCoordinates | null {
-  let closestItem: FlagState | null = null;
-  let minDistanceSq = Infinity;
+export function getSeekItemTarget(player: BotPlayerView, state: BotSnapshot, canSee?: LineOfSightCheck): TargetCoordinates | null {
+  let closestItem: BotItemView | null = null;
+  let minScore = Infinity;
 
   for (const item of state.items) {
     if (!item.carrierId && item.status !== 'scored') {
-      const distanceSq = distSq(player.x, player.y, item.x, item.y);
-      if (distanceSq < minDistanceSq) {
-        minDistanceSq = distanceSq;
+      const score = getTargetScore(player, item.x, item.y, canSee);
+      if (score < minScore) {
+        minScore = score;
         closestItem = item;
       }
     }
@@ -30,71 +40,52 @@ export function getSeekItemTarget(player: Player, state: ArenaState): TargetCoor
 }
 
 /**
- * Finds the position of the opponent carrying an item.
- * @param player The AI player state.
- * @param state The overall game state.
+ * Gets the position of a specific item (team assignment), if it can still be picked up.
+ * @param state Snapshot of the game.
+ * @param itemId The item's id.
+ * @returns TargetCoordinates of the item, or null if it is carried or scored.
+ */
+export function getItemTarget(state: BotSnapshot, itemId: string): TargetCoordinates | null {
+  const item = state.items.find(i => i.id === itemId);
+  return item && !item.carrierId && item.status !== 'scored' ? { x: item.x, y: item.y } : null;
+}
+
+/**
+ * Finds the position of the nearest opponent carrying an item, preferring carriers in sight.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @param canSee Line of sight check (buildings); without it every carrier counts as visible.
  * @returns TargetCoordinates of the opponent carrier, or null if none.
  */
-export function getPursueCarrierTarget(player: Player, state: ArenaState): TargetCoordinates | null {
+export function getPursueCarrierTarget(player: BotPlayerView, state: BotSnapshot, canSee?: LineOfSightCheck): TargetCoordinates | null {
+  let target: TargetCoordinates | null = null;
+  let minScore = Infinity;
   for (const item of state.items) {
     if (item.carrierId) {
-      const carrier = state.players.get(item.carrierId);
+      const carrier = findSnapshotPlayer(state, item.carrierId);
       if (carrier && carrier.team !== player.team) {
-        return { x: carrier.x, y: carrier.y };
+        const score = getTargetScore(player, carrier.x, carrier.y, canSee);
+        if (score < minScore) {
+          minScore = score;
+          target = { x: carrier.x, y: carrier.y };
+        }
       }
     }
   }
-  return null;
+  return target;
 }
 
 /**
  * Gets the coordinates of the player's own base.
- * @param player The AI player state.
- * @param state The overall game state.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
  * @returns TargetCoordinates of the base.
  */
-export function getReturnToBaseTarget(player: Player, state: ArenaState): TargetCoordinates | null {
-  // Use the imported base positions constants
-  if (player.team === 'Red') {
-      return RED_BASE_POS;
-  } else if (player.team === 'Blue') {
-      return BLUE_BASE_POS;
-  }
+export function getReturnToBaseTarget(player: BotPlayerView, state: BotSnapshot): TargetCoordinates | null {
+  // Base positions are chosen per location and replicated in the state
+  const base = getSnapshotBase(state, player.team);
+  if (base) return base;
   // Should not happen for AI with a team, but return null as fallback
   console.error(`AI ${player.name} in RETURN_TO_BASE state has no team?`);
   return null;
 }
-
-/**
- * Calculates an intercept point ahead of the opponent carrier.
- * @param player The AI player state.
- * @param state The overall game state.
- * @returns TargetCoordinates for interception, or null.
- */
-export function getInterceptTarget(player: Player, state: ArenaState): TargetCoordinates | null {
-  // TODO: Implement intercept logic (e.g., predict carrier path)
-  // Fallback to simple pursuit for now
-  console.warn("Intercept target requested, falling back to pursue target.");
-  return getPursueCarrierTarget(player, state);
-}
-
-/**
- * Gets the position of the teammate carrying an item (for escorting).
- * @param player The AI player state.
- * @param state The overall game state.
- * @returns TargetCoordinates of the teammate carrier, or null.
- */
-export function getDefendTarget(player: Player, state: ArenaState): TargetCoordinates | null {
-  for (const item of state.items) {
-    if (item.carrierId) {
-      const carrier = state.players.get(item.carrierId);
-      // Find the teammate carrier
-      if (carrier && carrier.team === player.team) {
-        // TODO: Add logic to position defensively (e.g., slightly behind/beside)
-        // For now, just target their exact position.
-        return { x: carrier.x, y: carrier.y };
-      }
-    }
-  }
-  return null; // No teammate carrier found
-}
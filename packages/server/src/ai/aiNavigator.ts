@@ -0,0 +1,122 @@
+import { RoadGraph } from "../roads";
+import { LineOfSightCheck } from "./types";
+
+type TargetCoordinates = { x: number; y: number };
+
+// Re-plan when the target has moved this far since the last plan...
+const REPLAN_TARGET_MOVED_METERS = 10;
+// ...or the bot is this far from its next waypoint (e.g. after a water reset)
+const REPLAN_OFF_ROUTE_METERS = 80;
+// But not more often than this (ticks), since targets like carriers move every tick
+const MIN_TICKS_BETWEEN_PLANS = 30;
+// A target this far from the planned one is a new target: re-plan right away
+const NEW_TARGET_METERS = 50;
+// A waypoint closer than this counts as passed
+const WAYPOINT_REACHED_METERS = 6;
+// Steer towards the furthest waypoint within this distance (and in sight) to smooth corners
+const LOOKAHEAD_METERS = 25;
+
+interface BotRoute {
+  graph: RoadGraph;
+  // Target the route was planned for
+  plannedX: number;
+  plannedY: number;
+  waypoints: TargetCoordinates[];
+  index: number;
+  ticksSincePlan: number;
+}
+
+/**
+ * Per-bot road routes. Bots drive towards a point on their route a little ahead of them
+ * (lookahead steering) instead of straight at the target, so they use roads when the
+ * speed bonus makes that faster. Routes are re-planned when the target moves.
+ */
+export class AINavigator {
+  private routes = new Map<string, BotRoute>();
+  // Predicted routes home of opponent carriers, by carrier session ID
+  private carrierRoutes = new Map<string, BotRoute>();
+
+  /**
+   * @param getGraph The road graph for the current origin (replaced when the map loads).
+   */
+  constructor(private readonly getGraph: () => RoadGraph) {}
+
+  /**
+   * The point the bot should steer towards this tick to reach `target`.
+   * @param canSee Line of sight check; waypoints hidden behind buildings are not skipped to.
+   */
+  getSteeringTarget(
+    sessionId: string,
+    player: TargetCoordinates,
+    target: TargetCoordinates,
+    roadSpeedMultiplier: number,
+    canSee?: LineOfSightCheck
+  ): TargetCoordinates {
+    const route = this.getRoute(this.routes, sessionId, player, target, roadSpeedMultiplier);
+    const { waypoints } = route;
+    // The last waypoint is the target itself, which may have moved since planning
+    waypoints[waypoints.length - 1] = { x: target.x, y: target.y };
+
+    const distanceTo = (point: TargetCoordinates) => Math.hypot(point.x - player.x, point.y - player.y);
+    while (route.index < waypoints.length - 1 && distanceTo(waypoints[route.index]) < WAYPOINT_REACHED_METERS) {
+      route.index++;
+    }
+
+    let steerIndex = route.index;
+    while (steerIndex < waypoints.length - 1) {
+      const next = waypoints[steerIndex + 1];
+      if (distanceTo(next) > LOOKAHEAD_METERS) break;
+      if (canSee && !canSee(player.x, player.y, next.x, next.y)) break;
+      steerIndex++;
+    }
+    return waypoints[steerIndex];
+  }
+
+  /**
+   * The route a carrier will probably take to its base (the fastest one), from its current position.
+   * Used by intercepting bots; shared between them and re-planned like bot routes.
+   */
+  predictCarrierRoute(carrierId: string, carrier: TargetCoordinates, base: TargetCoordinates, roadSpeedMultiplier: number): TargetCoordinates[] {
+    const route = this.getRoute(this.carrierRoutes, carrierId, carrier, base, roadSpeedMultiplier);
+    const { waypoints } = route;
+    while (route.index < waypoints.length - 1 && Math.hypot(waypoints[route.index].x - carrier.x, waypoints[route.index].y - carrier.y) < WAYPOINT_REACHED_METERS) {
+      route.index++;
+    }
+    return waypoints.slice(route.index);
+  }
+
+  /**
+   * Drops a player's routes (e.g. when it leaves).
+   */
+  forget(sessionId: string): void {
+    this.routes.delete(sessionId);
+    this.carrierRoutes.delete(sessionId);
+  }
+
+  private getRoute(routes: Map<string, BotRoute>, sessionId: string, player: TargetCoordinates, target: TargetCoordinates, roadSpeedMultiplier: number): BotRoute {
+    const graph = this.getGraph();
+    const route = routes.get(sessionId);
+    if (route) {
+      route.ticksSincePlan++;
+      const targetMovedMeters = Math.hypot(target.x - route.plannedX, target.y - route.plannedY);
+      const next = route.waypoints[route.index];
+      const offRoute = Math.hypot(next.x - player.x, next.y - player.y) > REPLAN_OFF_ROUTE_METERS;
+      const canReplan = route.ticksSincePlan >= MIN_TICKS_BETWEEN_PLANS;
+      const stale = route.graph !== graph
+        || targetMovedMeters > NEW_TARGET_METERS
+        || (canReplan && (targetMovedMeters > REPLAN_TARGET_MOVED_METERS || offRoute));
+      if (!stale) return route;
+    }
+
+    const planned: BotRoute = {
+      graph,
+      plannedX: target.x,
+      plannedY: target.y,
+      waypoints: graph.findRoute(player.x, player.y, target.x, target.y, roadSpeedMultiplier),
+      index: 0,
+      ticksSincePlan: 0,
+    };
+    routes.set(sessionId, planned);
+    return planned;
+  }
+}
@@ -1,21 +1,25 @@
-import { ArenaState, Player, FlagState } from "@smugglers-town/shared-schemas";
+import { BotPlayerView, BotSnapshot } from "@smugglers-town/shared-bots";
 import { AIState } from "./types";
 import { distSq } from "@smugglers-town/shared-utils"; // Ensure distSq is imported correctly
+import { PURSUE_RANGE_METERS, findChaser, findOpponentCarrier, findTeammateCarrier } from "./carrierTactics";
 
 /**
  * Determines the appropriate AI state based on the current game situation.
  * Simple Priority Order:
  * 1. Have item -> Return to Base
- * 2. Opponent has item -> Pursue/Intercept
- * 3. Item available -> Seek closest Item
- * 4. Otherwise -> Return to Base (Wait/Defend implicitly)
+ * 2. Opponent has item -> Pursue when close, otherwise Intercept (lead pursuit)
+ * 3. Teammate carrier is being chased -> Defend (escort and block)
+ * 4. Item available -> Seek closest Item
+ * 5. Teammate has the last item -> Defend
+ * 6. Otherwise -> Return to Base
  *
  * @param playerId The sessionId of the AI player.
- * @param player The AI player's current state.
- * @param state The overall game state.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @param pursueRangeMeters Chase an opponent carrier directly within this range (difficulty aggression).
  * @returns The calculated AIState for the player.
  */
-export function determineAIState(playerId: string, player: Player, state: ArenaState): AIState {
+export function determineAIState(playerId: string, player: BotPlayerView, state: BotSnapshot, pursueRangeMeters = PURSUE_RANGE_METERS): AIState {
 
   // 1. Check if AI is carrying an item
   let carriedBySelf = false;
@@ -30,23 +34,20 @@ export function determineAIState(playerId: string, player: Player, state: ArenaS
   }
 
   // 2. Check if an opponent is carrying an item
-  let opponentCarrierFound = false;
-  for (const item of state.items) {
-    if (item.carrierId) { // Item is carried
-      const carrier = state.players.get(item.carrierId);
-      // Check if carrier exists and is on the opposing team
-      if (carrier && carrier.team !== player.team) {
-        opponentCarrierFound = true;
-        break;
-      }
-    }
+  const opponentCarrier = findOpponentCarrier(player, state);
+  if (opponentCarrier) {
+    const { carrier } = opponentCarrier;
+    const closeEnough = distSq(player.x, player.y, carrier.x, carrier.y) < pursueRangeMeters * pursueRangeMeters;
+    return closeEnough ? AIState.PURSUING_CARRIER : AIState.INTERCEPTING;
   }
-  if (opponentCarrierFound) {
-    // TODO: Could add INTERCEPTING logic here later
-    return AIState.PURSUING_CARRIER;
+
+  // 3. Protect a teammate carrier that is being chased
+  const teammateCarrier = findTeammateCarrier(player, state);
+  if (teammateCarrier && findChaser(teammateCarrier.carrier, state)) {
+    return AIState.DEFENDING;
   }
 
-  // 3. Check if any item is available
+  // 4. Check if any item is available
   let availableItemExists = false;
   for (const item of state.items) {
     // Item is available if not carried and not already scored
@@ -59,8 +60,6 @@ export function determineAIState(playerId: string, player: Player, state: ArenaS
     return AIState.SEEKING_ITEM;
   }
 
-  // 4. Fallback: No opponent has item, no items available.
-  //    This includes the case where a teammate has the only item.
-  //    Go towards own base to wait / defend implicitly.
-  return AIState.RETURNING_TO_BASE;
+  // 5./6. Nothing to pick up: escort a teammate carrier, or go home and wait
+  return teammateCarrier ? AIState.DEFENDING : AIState.RETURNING_TO_BASE;
 }
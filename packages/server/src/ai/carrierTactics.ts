@@ -0,0 +1,179 @@
+import { BotPlayerView, BotSnapshot, findSnapshotPlayer, getSnapshotBase } from "@smugglers-town/shared-bots";
+import { distSq } from "@smugglers-town/shared-utils";
+import { AIState, CarrierRoutePredictor } from "./types";
+
+type TargetCoordinates = { x: number; y: number };
+
+// Closer than this to the carrier, chase it directly (steal range is a few meters)
+export const PURSUE_RANGE_METERS = 25;
+// Opponents closer than this to a teammate carrier are chasers worth blocking
+export const ESCORT_THREAT_RADIUS_METERS = 80;
+// Intercepts lead the carrier by at most this long
+const MAX_LEAD_SECONDS = 3;
+const LEAD_ITERATIONS = 3;
+// Escorts block this far from the carrier, towards the chaser...
+const ESCORT_BLOCK_DISTANCE_METERS = 8;
+// ...or trail this far behind it when nobody is chasing
+const ESCORT_TRAIL_DISTANCE_METERS = 12;
+// Sideways spacing between escorts in the formation
+const ESCORT_SPACING_METERS = 6;
+// Goalies wait this far in front of the opponent base
+const GOALIE_DISTANCE_METERS = 30;
+
+export type CarrierInfo = { carrierId: string; carrier: BotPlayerView };
+
+// Nearest player carrying an item whose team matches (or doesn't match) the player's
+function findNearestCarrier(player: BotPlayerView, state: BotSnapshot, sameTeam: boolean): CarrierInfo | null {
+  let found: CarrierInfo | null = null;
+  let minDistanceSq = Infinity;
+  for (const item of state.items) {
+    if (!item.carrierId) continue;
+    const carrier = findSnapshotPlayer(state, item.carrierId);
+    if (!carrier || carrier.id === player.id || (carrier.team === player.team) !== sameTeam) continue;
+    const distanceSq = distSq(player.x, player.y, carrier.x, carrier.y);
+    if (distanceSq < minDistanceSq) {
+      minDistanceSq = distanceSq;
+      found = { carrierId: item.carrierId, carrier };
+    }
+  }
+  return found;
+}
+
+export function findOpponentCarrier(player: BotPlayerView, state: BotSnapshot): CarrierInfo | null {
+  return findNearestCarrier(player, state, false);
+}
+
+export function findTeammateCarrier(player: BotPlayerView, state: BotSnapshot): CarrierInfo | null {
+  return findNearestCarrier(player, state, true);
+}
+
+// A specific carrier (from a team assignment) if it still carries an item, otherwise the nearest one
+function getCarrier(player: BotPlayerView, state: BotSnapshot, sameTeam: boolean, carrierId?: string): CarrierInfo | null {
+  const carrier = carrierId ? findSnapshotPlayer(state, carrierId) : undefined;
+  if (carrier && state.items.some(item => item.carrierId === carrierId)) return { carrierId: carrierId!, carrier };
+  return findNearestCarrier(player, state, sameTeam);
+}
+
+/**
+ * The opponent nearest a carrier, if it is within ESCORT_THREAT_RADIUS_METERS.
+ */
+export function findChaser(carrier: BotPlayerView, state: BotSnapshot): BotPlayerView | null {
+  let chaser: BotPlayerView | null = null;
+  let minDistanceSq = ESCORT_THREAT_RADIUS_METERS * ESCORT_THREAT_RADIUS_METERS;
+  state.players.forEach(other => {
+    if (other.team === carrier.team || other.team === 'none') return;
+    const distanceSq = distSq(carrier.x, carrier.y, other.x, other.y);
+    if (distanceSq < minDistanceSq) {
+      minDistanceSq = distanceSq;
+      chaser = other;
+    }
+  });
+  return chaser;
+}
+
+/**
+ * Where a carrier will be after `seconds`, driving along its route home at its current speed.
+ * A carrier driving away from its route (dodging) is extrapolated along its velocity instead.
+ */
+export function predictCarrierPosition(carrier: BotPlayerView, route: TargetCoordinates[], seconds: number): TargetCoordinates {
+  const first = route[0];
+  if (!first || (first.x - carrier.x) * carrier.vx + (first.y - carrier.y) * carrier.vy < 0) {
+    return { x: carrier.x + carrier.vx * seconds, y: carrier.y + carrier.vy * seconds };
+  }
+  let remaining = Math.hypot(carrier.vx, carrier.vy) * seconds;
+  let from: TargetCoordinates = { x: carrier.x, y: carrier.y };
+  for (const point of route) {
+    const leg = Math.hypot(point.x - from.x, point.y - from.y);
+    if (leg >= remaining) {
+      const t = leg > 0 ? remaining / leg : 0;
+      return { x: from.x + (point.x - from.x) * t, y: from.y + (point.y - from.y) * t };
+    }
+    remaining -= leg;
+    from = point;
+  }
+  return from; // Home before then
+}
+
+/**
+ * Lead pursuit: the point where the AI can meet the nearest opponent carrier,
+ * predicted from the carrier's speed and its route to its base.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @param predictRoute The carrier's route home (e.g. over roads); defaults to a straight line.
+ * @param targetId The carrier to intercept (team assignment); defaults to the nearest one.
+ * @returns TargetCoordinates for interception, or null if no opponent carries an item.
+ */
+export function getInterceptTarget(player: BotPlayerView, state: BotSnapshot, predictRoute?: CarrierRoutePredictor, targetId?: string): TargetCoordinates | null {
+  const found = getCarrier(player, state, false, targetId);
+  if (!found) return null;
+  const { carrierId, carrier } = found;
+  const base = getSnapshotBase(state, carrier.team);
+  const route = predictRoute ? predictRoute(carrierId, carrier) : base ? [base] : [];
+
+  // Refine the meeting point: time to reach it -> where the carrier will be by then
+  const ourSpeed = state.matchConfig.maxSpeed;
+  let meetingPoint: TargetCoordinates = { x: carrier.x, y: carrier.y };
+  for (let i = 0; i < LEAD_ITERATIONS; i++) {
+    const seconds = Math.min(Math.hypot(meetingPoint.x - player.x, meetingPoint.y - player.y) / ourSpeed, MAX_LEAD_SECONDS);
+    meetingPoint = predictCarrierPosition(carrier, route, seconds);
+  }
+  return meetingPoint;
+}
+
+/**
+ * Escort position next to the teammate carrying an item: between the carrier and the
+ * nearest chaser to body-block it, otherwise trailing behind. Several escorts line up
+ * side by side.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @param escortedId The carrier to escort (team assignment); defaults to the nearest teammate carrier.
+ * @returns TargetCoordinates of the escort slot, or null if no teammate carries an item.
+ */
+export function getDefendTarget(player: BotPlayerView, state: BotSnapshot, escortedId?: string): TargetCoordinates | null {
+  const found = getCarrier(player, state, true, escortedId);
+  if (!found) return null;
+  const { carrierId, carrier } = found;
+
+  // Direction from the carrier to the formation: towards the chaser, or backwards
+  let dirX: number, dirY: number, distance: number;
+  const chaser = findChaser(carrier, state);
+  if (chaser) {
+    const chaserDistance = Math.hypot(chaser.x - carrier.x, chaser.y - carrier.y) || 1;
+    dirX = (chaser.x - carrier.x) / chaserDistance;
+    dirY = (chaser.y - carrier.y) / chaserDistance;
+    distance = Math.min(ESCORT_BLOCK_DISTANCE_METERS, chaserDistance / 2);
+  } else {
+    const speed = Math.hypot(carrier.vx, carrier.vy);
+    dirX = speed > 1 ? -carrier.vx / speed : -Math.cos(carrier.heading);
+    dirY = speed > 1 ? -carrier.vy / speed : -Math.sin(carrier.heading);
+    distance = ESCORT_TRAIL_DISTANCE_METERS;
+  }
+
+  // Slot among the escorts of this carrier (as of the snapshot): 0 in the middle, then alternating sides
+  const escorts = state.players.filter(p => p.id !== carrierId && p.team === player.team && p.state === AIState.DEFENDING);
+  const slot = Math.max(0, escorts.findIndex(p => p.id === player.id));
+  const side = slot === 0 ? 0 : (slot % 2 === 1 ? 1 : -1) * Math.ceil(slot / 2);
+
+  return {
+    x: carrier.x + dirX * distance - dirY * side * ESCORT_SPACING_METERS,
+    y: carrier.y + dirY * distance + dirX * side * ESCORT_SPACING_METERS,
+  };
+}
+
+/**
+ * Goalie position: in front of the opponent base, facing the middle of the map (where items
+ * spawn), so opponent carriers have to get past it to score.
+ * @param player The AI player.
+ * @param state Snapshot of the game.
+ * @returns TargetCoordinates of the goalie spot, or null without an opponent base.
+ */
+export function getGuardTarget(player: BotPlayerView, state: BotSnapshot): TargetCoordinates | null {
+  const opponentBase = getSnapshotBase(state, player.team === 'Red' ? 'Blue' : 'Red');
+  if (!opponentBase) return null;
+  const distanceToCenter = Math.hypot(opponentBase.x, opponentBase.y) || 1;
+  const distance = Math.min(GOALIE_DISTANCE_METERS, distanceToCenter);
+  return {
+    x: opponentBase.x - (opponentBase.x / distanceToCenter) * distance,
+    y: opponentBase.y - (opponentBase.y / distanceToCenter) * distance,
+  };
+}
@@ -0,0 +1,96 @@
+import { AIDifficulty, MovementParams } from "@smugglers-town/shared-utils";
+import { RandomSource } from "../utils/random";
+
+type TargetCoordinates = { x: number; y: number };
+
+export interface AIDifficultyProfile {
+  // Targets are seen this late (seconds), so the bot reacts to where things were
+  reactionSeconds: number;
+  // Largest heading error (radians); the error wanders smoothly instead of jittering
+  steeringNoiseRadians: number;
+  // The state (or team role) is re-evaluated this often (seconds); 0 = every tick
+  decisionIntervalSeconds: number;
+  // Multipliers on the match's max speed and acceleration
+  speedMultiplier: number;
+  accelMultiplier: number;
+  // Multiplier on PURSUE_RANGE_METERS: how far out the bot rams a carrier instead of cutting it off
+  aggression: number;
+}
+
+export const AI_DIFFICULTY_PROFILES: Record<AIDifficulty, AIDifficultyProfile> = {
+  Easy: { reactionSeconds: 0.6, steeringNoiseRadians: 0.35, decisionIntervalSeconds: 0.75, speedMultiplier: 0.75, accelMultiplier: 0.7, aggression: 0.5 },
+  Normal: { reactionSeconds: 0.3, steeringNoiseRadians: 0.15, decisionIntervalSeconds: 0.4, speedMultiplier: 0.9, accelMultiplier: 0.85, aggression: 1 },
+  Hard: { reactionSeconds: 0.15, steeringNoiseRadians: 0.05, decisionIntervalSeconds: 0.2, speedMultiplier: 1, accelMultiplier: 1, aggression: 1.5 },
+  Nightmare: { reactionSeconds: 0, steeringNoiseRadians: 0, decisionIntervalSeconds: 0, speedMultiplier: 1.1, accelMultiplier: 1.15, aggression: 2 },
+};
+
+/**
+ * Car physics for a bot: the match's movement settings with the profile's speed and acceleration.
+ * @param params The match's movement settings (state.matchConfig).
+ * @param profile The bot's difficulty profile.
+ * @returns MovementParams for updateHumanPlayerState.
+ */
+export function getDifficultyMovementParams(params: MovementParams, profile: AIDifficultyProfile): MovementParams {
+  return {
+    maxSpeed: params.maxSpeed * profile.speedMultiplier,
+    acceleration: params.acceleration * profile.accelMultiplier,
+    frictionFactor: params.frictionFactor,
+    turnSpeed: params.turnSpeed,
+    roadSpeedMultiplier: params.roadSpeedMultiplier,
+  };
+}
+
+// How fast the steering error wanders, as a fraction of its range per sqrt(second)
+const STEERING_NOISE_WANDER_RATE = 2;
+
+/**
+ * Per-bot runtime state of a difficulty profile: the delayed view of the target,
+ * the wandering steering error and the decision timer.
+ */
+export class AIReflexes {
+  private elapsed = 0;
+  private lastDecision = -Infinity;
+  private steeringError = 0;
+  // Targets seen over the last reactionSeconds, oldest first
+  private seenTargets: { time: number; target: TargetCoordinates }[] = [];
+
+  constructor(readonly profile: AIDifficultyProfile, private readonly random: RandomSource) {}
+
+  /**
+   * Advances the clock; call once per tick before the other methods.
+   * @returns True if the bot should re-evaluate its state this tick.
+   */
+  tick(dt: number): boolean {
+    this.elapsed += dt;
+    if (this.elapsed - this.lastDecision < this.profile.decisionIntervalSeconds) return false;
+    this.lastDecision = this.elapsed;
+    return true;
+  }
+
+  /**
+   * Where the bot thinks the target is: the target as it was reactionSeconds ago.
+   * @param target The current target.
+   * @returns The delayed target.
+   */
+  perceive(target: TargetCoordinates): TargetCoordinates {
+    this.seenTargets.push({ time: this.elapsed, target: { x: target.x, y: target.y } });
+    const seenAt = this.elapsed - this.profile.reactionSeconds;
+    while (this.seenTargets.length > 1 && this.seenTargets[1].time <= seenAt) this.seenTargets.shift();
+    return this.seenTargets[0].target;
+  }
+
+  /**
+   * Applies the steering error to a unit direction.
+   * @returns The rotated direction.
+   */
+  steer(dirX: number, dirY: number, dt: number): { dirX: number; dirY: number } {
+    const maxError = this.profile.steeringNoiseRadians;
+    if (maxError <= 0) return { dirX, dirY };
+    // Random walk: steps scale with sqrt(dt) so the wander doesn't depend on the tick rate
+    const wander = (this.random() * 2 - 1) * maxError * STEERING_NOISE_WANDER_RATE * Math.sqrt(dt);
+    this.steeringError = Math.max(-maxError, Math.min(maxError, this.steeringError + wander));
+    const cos = Math.cos(this.steeringError);
+    const sin = Math.sin(this.steeringError);
+    return { dirX: dirX * cos - dirY * sin, dirY: dirX * sin + dirY * cos };
+  }
+}
@@ -0,0 +1,163 @@
+import { BotPlayerView, BotSnapshot, findSnapshotPlayer } from "@smugglers-town/shared-bots";
+import { distSq } from "@smugglers-town/shared-utils";
+import { AIState } from "./types";
+import { PURSUE_RANGE_METERS, findChaser } from "./carrierTactics";
+
+type Team = "Red" | "Blue";
+type Point = { x: number; y: number };
+type CarrierEntry = { carrierId: string; x: number; y: number };
+
+export enum AIRole {
+  ATTACKER, // Picks up a specific item
+  INTERCEPTOR, // Stops a specific opponent carrier
+  ESCORT, // Protects a specific teammate carrier
+  GOALIE, // Guards the opponent base, the last chance to stop their carriers
+}
+
+export interface AIAssignment {
+  role: AIRole;
+  itemId?: string;
+  carrierId?: string;
+}
+
+// Closest target to a point, or null if there are none
+function nearestTo<T extends Point>(point: Point, targets: readonly T[]): T | null {
+  let nearest: T | null = null;
+  let nearestDistSq = Infinity;
+  for (const target of targets) {
+    const d = distSq(point.x, point.y, target.x, target.y);
+    if (d < nearestDistSq) {
+      nearestDistSq = d;
+      nearest = target;
+    }
+  }
+  return nearest;
+}
+
+// Squared distance from a point to the closest player, Infinity if there are none
+function minDistSqTo(players: Iterable<BotPlayerView>, point: Point): number {
+  let min = Infinity;
+  for (const p of players) min = Math.min(min, distSq(p.x, p.y, point.x, point.y));
+  return min;
+}
+
+/**
+ * Assigns roles to the bots of each team once per tick, so a team spreads out instead of
+ * swarming: one interceptor per opponent carrier, one escort per chased teammate carrier,
+ * attackers spread over the free items (leaving items to human teammates who are closer),
+ * a goalie, and any remaining bots doubling up where they are needed most.
+ * Bots carrying an item get no role; they drive home (see determineAIState).
+ * Roles come from the tick's bot snapshot, taken before anyone moves.
+ */
+export class TeamCoordinator {
+  private assignments = new Map<string, AIAssignment>();
+
+  /**
+   * @param takesRoles Whether a player is a bot that follows team roles (others count as humans).
+   */
+  update(state: BotSnapshot, takesRoles: (sessionId: string) => boolean): void {
+    this.assignments.clear();
+    (["Red", "Blue"] as Team[]).forEach(team => this.assignTeam(state, team, takesRoles));
+  }
+
+  getAssignment(sessionId: string): AIAssignment | undefined {
+    return this.assignments.get(sessionId);
+  }
+
+  private assignTeam(state: BotSnapshot, team: Team, takesRoles: (sessionId: string) => boolean): void {
+    const carrierIds = new Set(state.items.filter(item => item.carrierId).map(item => item.carrierId!));
+    const free = new Map<string, BotPlayerView>();
+    const humans: BotPlayerView[] = [];
+    state.players.forEach(player => {
+      const id = player.id;
+      if (player.team !== team || carrierIds.has(id)) return;
+      if (takesRoles(id)) free.set(id, player);
+      else humans.push(player);
+    });
+    if (free.size === 0) return;
+
+    // Nearest unassigned bot to a point, which gets the assignment
+    const assignNearest = (x: number, y: number, assignment: AIAssignment): void => {
+      let nearestId: string | null = null;
+      let nearestDistSq = Infinity;
+      free.forEach((bot, id) => {
+        const d = distSq(bot.x, bot.y, x, y);
+        if (d < nearestDistSq) {
+          nearestDistSq = d;
+          nearestId = id;
+        }
+      });
+      if (nearestId === null) return;
+      this.assignments.set(nearestId, assignment);
+      free.delete(nearestId);
+    };
+
+    const opponentCarriers: CarrierEntry[] = [];
+    const chasedTeammates: CarrierEntry[] = [];
+    state.items.forEach(item => {
+      const carrier = item.carrierId ? findSnapshotPlayer(state, item.carrierId) : undefined;
+      if (!carrier || !item.carrierId) return;
+      const entry = { carrierId: item.carrierId, x: carrier.x, y: carrier.y };
+      if (carrier.team !== team) opponentCarriers.push(entry);
+      else if (findChaser(carrier, state)) chasedTeammates.push(entry);
+    });
+
+    // 1./2. Carriers first: stopping theirs and protecting ours decide the score
+    opponentCarriers.forEach(({ carrierId, x, y }) => assignNearest(x, y, { role: AIRole.INTERCEPTOR, carrierId }));
+    chasedTeammates.forEach(({ carrierId, x, y }) => assignNearest(x, y, { role: AIRole.ESCORT, carrierId }));
+
+    // 3. Attackers: closest bot-item pairs first, one bot per item
+    const freeItems = state.items.filter(item => !item.carrierId && item.status !== 'scored');
+    // Items a human teammate is closer to are theirs
+    const openItems = freeItems.filter(item => minDistSqTo(humans, item) >= minDistSqTo(free.values(), item));
+    while (free.size > 0 && openItems.length > 0) {
+      let bestIndex = 0;
+      let bestDistSq = Infinity;
+      for (const [index, item] of openItems.entries()) {
+        const d = minDistSqTo(free.values(), item);
+        if (d < bestDistSq) {
+          bestDistSq = d;
+          bestIndex = index;
+        }
+      }
+      const [item] = openItems.splice(bestIndex, 1);
+      assignNearest(item.x, item.y, { role: AIRole.ATTACKER, itemId: item.id });
+    }
+
+    // 4. One goalie, then double up: opponent carriers, our carriers, items
+    if (free.size > 0) {
+      const [goalieId] = free.keys();
+      this.assignments.set(goalieId, { role: AIRole.GOALIE });
+      free.delete(goalieId);
+    }
+    free.forEach((bot, id) => {
+      const opponentCarrier = nearestTo(bot, opponentCarriers);
+      const teammateCarrier = nearestTo(bot, chasedTeammates);
+      const item = nearestTo(bot, freeItems);
+      if (opponentCarrier) this.assignments.set(id, { role: AIRole.INTERCEPTOR, carrierId: opponentCarrier.carrierId });
+      else if (teammateCarrier) this.assignments.set(id, { role: AIRole.ESCORT, carrierId: teammateCarrier.carrierId });
+      else if (item) this.assignments.set(id, { role: AIRole.ATTACKER, itemId: item.id });
+      else this.assignments.set(id, { role: AIRole.GOALIE });
+    });
+  }
+}
+
+/**
+ * The AI state that carries out an assignment.
+ * @param pursueRangeMeters Interceptors chase their carrier directly within this range.
+ */
+export function getAssignedState(assignment: AIAssignment, player: BotPlayerView, state: BotSnapshot, pursueRangeMeters = PURSUE_RANGE_METERS): AIState {
+  switch (assignment.role) {
+    case AIRole.ATTACKER:
+      return AIState.SEEKING_ITEM;
+    case AIRole.INTERCEPTOR: {
+      const carrier = assignment.carrierId ? findSnapshotPlayer(state, assignment.carrierId) : undefined;
+      const close = carrier && distSq(player.x, player.y, carrier.x, carrier.y) < pursueRangeMeters * pursueRangeMeters;
+      return close ? AIState.PURSUING_CARRIER : AIState.INTERCEPTING;
+    }
+    case AIRole.ESCORT:
+      return AIState.DEFENDING;
+    case AIRole.GOALIE:
+      return AIState.GUARDING;
+  }
+}
@@ -1,10 +1,19 @@
+import { BotPlayerView } from "@smugglers-town/shared-bots";
+
 export enum AIState {
   SEEKING_ITEM,
   PURSUING_CARRIER, // Simple chase
   RETURNING_TO_BASE,
   INTERCEPTING, // Smarter chase
   DEFENDING, // Escorting teammate
+  GUARDING, // Waiting in front of the opponent base (goalie)
   // IDLE // Potential future state
 }
 
+// True if nothing (e.g. a building) blocks the view between two world points
+export type LineOfSightCheck = (fromX: number, fromY: number, toX: number, toY: number) => boolean;
+
+// Where an opponent carrier is expected to drive: remaining waypoints to its base
+export type CarrierRoutePredictor = (carrierId: string, carrier: BotPlayerView) => { x: number; y: number }[];
+
 // Add other AI-specific types or interfaces here if needed later
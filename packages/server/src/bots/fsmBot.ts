@@ -0,0 +1,121 @@
+/**
+ * fsmBot.ts
+ *
+ * The built-in bot (default): the AI state machine with team roles, road routing
+ * and difficulty reflexes. Like every bot it decides from the tick's snapshot; BotServices
+ * add the map (hazards, roads), the team roles and its random source.
+ */
+
+import { Bot, BotInput, BotPlayerView, BotSnapshot, findSnapshotPlayer, getSnapshotBase } from "@smugglers-town/shared-bots";
+import { AIDifficulty, hasLineOfSight } from "@smugglers-town/shared-utils";
+import { AINavigator } from "../ai/aiNavigator";
+import { AIState, LineOfSightCheck } from "../ai/types";
+import { determineAIState } from "../ai/aiStateMachine";
+import {
+    getSeekItemTarget,
+    getItemTarget,
+    getPursueCarrierTarget,
+    getReturnToBaseTarget
+} from "../ai/aiActions";
+import { PURSUE_RANGE_METERS, getInterceptTarget, getDefendTarget, getGuardTarget } from "../ai/carrierTactics";
+import { AIAssignment, getAssignedState } from "../ai/teamCoordinator";
+import { AIReflexes, AI_DIFFICULTY_PROFILES } from "../ai/difficulty";
+import { BotServices } from "./types";
+
+// Closer than this to the steering target, the bot stops accelerating
+const STOPPING_DISTANCE_METERS = 0.1;
+
+type TargetCoordinates = { x: number; y: number }; // Keep local type if needed
+
+/**
+ * The target of the AI's current state, or null if there is nothing to do in it.
+ */
+function getStateTarget(
+    aiState: AIState,
+    aiPlayer: BotPlayerView,
+    state: BotSnapshot,
+    assignment: AIAssignment | undefined,
+    navigator: AINavigator,
+    canSee: LineOfSightCheck
+): TargetCoordinates | null {
+    switch (aiState) {
+        case AIState.SEEKING_ITEM:
+            return (assignment?.itemId ? getItemTarget(state, assignment.itemId) : null)
+                ?? getSeekItemTarget(aiPlayer, state, canSee);
+        case AIState.PURSUING_CARRIER:
+            return getPursueCarrierTarget(aiPlayer, state, canSee);
+        case AIState.RETURNING_TO_BASE:
+            return getReturnToBaseTarget(aiPlayer, state);
+        case AIState.INTERCEPTING:
+            return getInterceptTarget(aiPlayer, state, (carrierId, carrier) => {
+                const base = getSnapshotBase(state, carrier.team);
+                return base ? navigator.predictCarrierRoute(carrierId, carrier, base, state.matchConfig.roadSpeedMultiplier) : [];
+            }, assignment?.carrierId);
+        case AIState.DEFENDING:
+            return getDefendTarget(aiPlayer, state, assignment?.carrierId);
+        case AIState.GUARDING:
+            return getGuardTarget(aiPlayer, state);
+        default:
+            console.warn(`[AI ${aiPlayer.name}] Unknown state: ${aiState}. Falling back to SEEKING_ITEM.`);
+            return getSeekItemTarget(aiPlayer, state, canSee); // Fallback
+    }
+}
+
+export class FsmBot implements Bot {
+    private readonly reflexes: AIReflexes;
+    // Kept between ticks: the state is only re-evaluated at the profile's decision rate
+    private aiState = AIState.SEEKING_ITEM;
+
+    constructor(private readonly services: BotServices, difficulty: AIDifficulty) {
+        this.reflexes = new AIReflexes(AI_DIFFICULTY_PROFILES[difficulty], services.random);
+    }
+
+    /**
+     * Determines the target from the team assignment (see TeamCoordinator), or the state machine
+     * for bots without one (carriers), and steers along a road route to it (see AINavigator).
+     * The difficulty profile (see AIReflexes) sets the reaction delay, steering error and decision rate;
+     * its speed is applied by the simulation. The AI state is returned for Player.currentState.
+     */
+    decide(snapshot: BotSnapshot, sessionId: string): BotInput {
+        const { hazards, navigator, coordinator } = this.services;
+        const aiPlayer = findSnapshotPlayer(snapshot, sessionId);
+        if (!aiPlayer) return { dx: 0, dy: 0 };
+        const dt = this.services.getDeltaTime();
+        const assignment = coordinator.getAssignment(sessionId);
+        const { reflexes } = this;
+        const { roadSpeedMultiplier } = snapshot.matchConfig;
+
+        // Re-evaluated at the profile's decision rate, or right away when the current state has no target left
+        const pursueRangeMeters = PURSUE_RANGE_METERS * reflexes.profile.aggression;
+        const decideState = () => {
+            this.aiState = assignment
+                ? getAssignedState(assignment, aiPlayer, snapshot, pursueRangeMeters)
+                : determineAIState(sessionId, aiPlayer, snapshot, pursueRangeMeters);
+        };
+        const decided = reflexes.tick(dt);
+        if (decided) decideState();
+
+        // Buildings block the AI's view of items and carriers
+        const canSee = (fromX: number, fromY: number, toX: number, toY: number) => hasLineOfSight(fromX, fromY, toX, toY, hazards);
+        let target = getStateTarget(this.aiState, aiPlayer, snapshot, assignment, navigator, canSee);
+        if (!target && !decided) {
+            decideState();
+            target = getStateTarget(this.aiState, aiPlayer, snapshot, assignment, navigator, canSee);
+        }
+        const idle: BotInput = { dx: 0, dy: 0, state: this.aiState };
+        if (!target) return idle;
+        // The bot reacts to where its target was reactionSeconds ago
+        target = reflexes.perceive(target);
+
+        // Steer along the road route instead of straight at the target
+        const steerTarget = navigator.getSteeringTarget(sessionId, aiPlayer, target, roadSpeedMultiplier, canSee);
+        const dx = steerTarget.x - aiPlayer.x;
+        const dy = steerTarget.y - aiPlayer.y;
+        const distance = Math.hypot(dx, dy);
+        if (distance < STOPPING_DISTANCE_METERS) return idle;
+
+        // Steering error of the difficulty profile; input is in screen convention (+dy = south)
+        const { dirX, dirY } = reflexes.steer(dx / distance, dy / distance, dt);
+        return { dx: dirX, dy: -dirY, state: this.aiState };
+    }
+}
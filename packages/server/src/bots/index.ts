@@ -0,0 +1,19 @@
+/**
+ * index.ts
+ *
+ * Bot registry with the built-in bots registered:
+ * - "fsm" (default): the AI state machine with team roles (see fsmBot.ts)
+ * - "greedy": a snapshot-only example (GreedyBot in shared-bots, also a bot-client strategy)
+ * Register custom bots with `registerBot(name, factory)` before rooms are created.
+ */
+
+import { GreedyBot } from "@smugglers-town/shared-bots";
+import { registerBot, DEFAULT_BOT_NAME } from "./registry";
+import { FsmBot } from "./fsmBot";
+
+export type { BotServices, BotFactory } from "./types";
+export { registerBot, isRegisteredBot, getRegisteredBotNames, resolveBot, DEFAULT_BOT_NAME } from "./registry";
+export { FsmBot } from "./fsmBot";
+
+registerBot(DEFAULT_BOT_NAME, (services, difficulty) => new FsmBot(services, difficulty));
+registerBot("greedy", () => new GreedyBot());
@@ -0,0 +1,35 @@
+/**
+ * registry.ts
+ *
+ * Bot implementations by name. `add_ai` picks one with its `bot` field;
+ * DEFAULT_BOT_NAME is the built-in state machine bot.
+ */
+
+import { BotFactory } from "./types";
+
+export const DEFAULT_BOT_NAME = "fsm";
+
+const factories = new Map<string, BotFactory>();
+
+export function registerBot(name: string, factory: BotFactory): void {
+    if (factories.has(name)) console.warn(`[Bots] Bot "${name}" is already registered. Replacing it.`);
+    factories.set(name, factory);
+}
+
+export function isRegisteredBot(name: string): boolean {
+    return factories.has(name);
+}
+
+export function getRegisteredBotNames(): string[] {
+    return Array.from(factories.keys());
+}
+
+/**
+ * The bot registered under `name`, or the default bot if there is none.
+ */
+export function resolveBot(name: string): { name: string, factory: BotFactory } {
+    const factory = factories.get(name);
+    if (factory) return { name, factory };
+    console.warn(`[Bots] Unknown bot "${name}". Falling back to ${DEFAULT_BOT_NAME}.`);
+    return { name: DEFAULT_BOT_NAME, factory: factories.get(DEFAULT_BOT_NAME)! };
+}
@@ -0,0 +1,26 @@
+/**
+ * types.ts
+ *
+ * Types shared by the bot registry and the bot implementations.
+ * The Bot interface itself is in shared-bots (bots.ts), so bot clients can use it too.
+ */
+
+import { Bot } from "@smugglers-town/shared-bots";
+import { AIDifficulty } from "@smugglers-town/shared-utils";
+import { HazardProvider } from "../hazards";
+import { AINavigator } from "../ai/aiNavigator";
+import { TeamCoordinator } from "../ai/teamCoordinator";
+import { RandomSource } from "../utils/random";
+
+// Simulation internals available to in-process bots: map data and helpers, never the live state
+// (game state comes from the snapshot). Scripted bots should only need the snapshot.
+export interface BotServices {
+    readonly hazards: HazardProvider;
+    readonly navigator: AINavigator;
+    readonly coordinator: TeamCoordinator;
+    readonly random: RandomSource;
+    // Length of the current tick in seconds
+    getDeltaTime(): number;
+}
+
+export type BotFactory = (services: BotServices, difficulty: AIDifficulty) => Bot;
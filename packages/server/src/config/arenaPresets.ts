@@ -0,0 +1,109 @@
+/**
+ * arenaPresets.ts
+ *
+ * Catalog of vetted arenas: well-known places with a street layout that plays well.
+ * Each preset fixes the base positions and the zones items spawn in (meters from the
+ * origin, +Y = north) instead of the automatic placement, and recommends a map style
+ * (a MapStyleSelector id). Presets need no geocoding, so they also work offline.
+ */
+
+import { ArenaPresetSummary, RANDOM_ARENA_PRESET } from "@smugglers-town/shared-utils";
+import { RandomSource } from "../utils/random";
+
+type Point = { x: number, y: number };
+
+// Circle items spawn in (meters from the origin)
+export interface SpawnZone extends Point {
+    radius: number;
+}
+
+export interface ArenaPreset {
+    id: string;
+    name: string;
+    origin: { lat: number, lng: number };
+    bases: { red: Point, blue: Point };
+    itemSpawnZones: SpawnZone[];
+    mapStyle: string;
+}
+
+export const ARENA_PRESETS: readonly ArenaPreset[] = [
+    {
+        // Bases on 8th and 6th Avenue, items along Broadway / 7th Avenue
+        id: 'times-square',
+        name: 'Times Square, New York',
+        origin: { lat: 40.7580, lng: -73.9855 },
+        bases: { red: { x: -200, y: 0 }, blue: { x: 200, y: 0 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 120 }, { x: 40, y: 160, radius: 60 }, { x: -40, y: -160, radius: 60 }],
+        mapStyle: 'streets-v2',
+    },
+    {
+        id: 'shibuya-crossing',
+        name: 'Shibuya Crossing, Tokyo',
+        origin: { lat: 35.6595, lng: 139.7005 },
+        bases: { red: { x: -180, y: 0 }, blue: { x: 180, y: 0 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 100 }, { x: 0, y: 150, radius: 60 }],
+        mapStyle: 'basic-v2',
+    },
+    {
+        id: 'piccadilly-circus',
+        name: 'Piccadilly Circus, London',
+        origin: { lat: 51.5101, lng: -0.1340 },
+        bases: { red: { x: -200, y: 0 }, blue: { x: 200, y: 0 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 110 }, { x: 0, y: -140, radius: 60 }],
+        mapStyle: 'bright-v2',
+    },
+    {
+        // Bases at either end of the avenue (it runs west-northwest)
+        id: 'champs-elysees',
+        name: 'Champs-Élysées, Paris',
+        origin: { lat: 48.8698, lng: 2.3075 },
+        bases: { red: { x: -210, y: 70 }, blue: { x: 210, y: -70 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 100 }, { x: -100, y: 35, radius: 50 }, { x: 100, y: -35, radius: 50 }],
+        mapStyle: 'bright-v2',
+    },
+    {
+        // The Eixample grid is turned 45 degrees, so the bases sit on the diagonal
+        id: 'eixample',
+        name: 'Eixample, Barcelona',
+        origin: { lat: 41.3917, lng: 2.1649 },
+        bases: { red: { x: -150, y: -150 }, blue: { x: 150, y: 150 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 120 }, { x: 120, y: -120, radius: 60 }, { x: -120, y: 120, radius: 60 }],
+        mapStyle: 'openstreetmap',
+    },
+    {
+        // Bases up and down Las Vegas Boulevard
+        id: 'las-vegas-strip',
+        name: 'Las Vegas Strip',
+        origin: { lat: 36.1126, lng: -115.1725 },
+        bases: { red: { x: 0, y: -250 }, blue: { x: 0, y: 250 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 150 }],
+        mapStyle: 'satellite',
+    },
+    {
+        id: 'union-square',
+        name: 'Union Square, San Francisco',
+        origin: { lat: 37.7880, lng: -122.4075 },
+        bases: { red: { x: -200, y: 0 }, blue: { x: 200, y: 0 } },
+        itemSpawnZones: [{ x: 0, y: 0, radius: 120 }, { x: 0, y: 180, radius: 60 }],
+        mapStyle: 'streets-v2',
+    },
+];
+
+export function findArenaPreset(id: string): ArenaPreset | undefined {
+    return ARENA_PRESETS.find(preset => preset.id === id);
+}
+
+/**
+ * A preset by id, or a random one for RANDOM_ARENA_PRESET (a different one than `currentId` if possible).
+ * @returns The preset, or undefined for an unknown id.
+ */
+export function resolveArenaPreset(id: string, random: RandomSource, currentId = ""): ArenaPreset | undefined {
+    if (id !== RANDOM_ARENA_PRESET) return findArenaPreset(id);
+    const candidates = ARENA_PRESETS.filter(preset => preset.id !== currentId);
+    return candidates[Math.floor(random() * candidates.length)];
+}
+
+// What clients need for the preset picker
+export function getArenaPresetSummaries(): ArenaPresetSummary[] {
+    return ARENA_PRESETS.map(({ id, name, mapStyle }) => ({ id, name, mapStyle }));
+}
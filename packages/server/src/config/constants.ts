@@ -4,38 +4,64 @@
  * Game constants for physics, game logic, world positions, etc.
  */
 
-// Player movement physics constants (ensure these are used)
-export const MAX_SPEED = 50; // meters per second (Set back to 50)
-export const ACCELERATION = 200; // meters per second^2 (Adjusted middle ground)
-export const FRICTION_FACTOR = 0.60; // Multiplier per second (Reduced from 0.70 to decrease drift further)
-export const TURN_SPEED = Math.PI * 3.0; // radians per second (Increased from 1.5 * PI)
+// Player movement physics constants - MOVED TO SHARED-UTILS (client-side prediction runs the same physics)
+export {
+    MAX_SPEED,
+    ACCELERATION,
+    FRICTION_FACTOR,
+    TURN_SPEED,
+    ROAD_SPEED_MULTIPLIER
+} from "@smugglers-town/shared-utils";
 
 // Player dimensions for collision checks - MOVED TO SHARED-UTILS
 // export const PLAYER_EFFECTIVE_RADIUS = 2.5; // Example radius in meters
 
-// Gameplay Constants
-export const ROAD_SPEED_MULTIPLIER = 2.5; // Speed on roads multiplier (Adjusted from 3 to keep road speed ~60)
-
 // Collision / Gameplay Radii (Squared for cheaper checks)
 // export const PLAYER_COLLISION_RADIUS_SQ = PLAYER_EFFECTIVE_RADIUS * PLAYER_EFFECTIVE_RADIUS; // meters^2 (Used for stealing check) - MOVED TO SHARED-UTILS
 export const PICKUP_RADIUS_SQ = 4 * 4; // meters^2 (Keep this larger for easier pickup)
 export const BASE_RADIUS_SQ = 30 * 30; // meters^2 (Should match client VISUAL_BASE_RADIUS^2)
-export const STEAL_COOLDOWN_MS = 500; // 0.5 seconds
+export const STEAL_COOLDOWN_MS = 500; // 0.5 seconds (default for MatchConfig.stealCooldownMs)
+
+// Match Lifecycle (seconds)
+export const GAME_DURATION_SECONDS = 5 * 60; // 5 minutes of regulation play (default for MatchConfig.durationSeconds)
+export const WARMUP_DURATION_SECONDS = 10; // Grace period for players to join before the first countdown
+export const COUNTDOWN_DURATION_SECONDS = 3;
+export const OVERTIME_DURATION_SECONDS = 60; // Sudden death cap; still tied afterwards -> draw
+export const RESULTS_DURATION_SECONDS = 10; // How long the results screen is shown before the next match
+export const MIN_HUMANS_TO_START = 1; // Warmup holds until this many humans are connected
+
+// Location Votes (seconds), see game/locationVote.ts
+export const LOCATION_VOTE_DURATION_SECONDS = 20;
+export const LOCATION_VOTE_COOLDOWN_SECONDS = 60; // After a vote closes, before the next proposal
+
+// Connections
+export const RECONNECTION_TIMEOUT_SECONDS = 20; // A dropped player's car (and carried item) is held this long for allowReconnection
 
 // Spawn Area
-export const ITEM_SPAWN_RADIUS = 250; // meters - Radius around origin for item spawns (Increased from 150)
+export const ITEM_SPAWN_RADIUS = 250; // meters - Default radius around origin for item spawns (MatchConfig.itemSpawnRadius)
 export const PLAYER_SPAWN_RADIUS = 10; // meters - Radius around origin for player spawns
 
+// Item Spawn Rules (defaults for MatchConfig, see game/itemSpawning.ts)
+export const ITEM_MIN_BASE_DISTANCE = 60; // meters - From each base center (bases are 30m in radius)
+export const ITEM_MIN_SPACING = 30; // meters - Between loose items
+export const ITEM_FAIRNESS_TOLERANCE = 40; // meters - Largest difference between an item's distances to the two bases
+export const ITEM_RESPAWN_SECONDS = 0; // Scored items respawn after this long (0 = only when the round resets)
+export const DROPPED_ITEM_RETURN_SECONDS = 20; // Dropped items go back to neutral ground after this long (0 = never)
+
+// Item Physics (thrown items, see game/itemPhysics.ts)
+export const ITEM_THROW_SPEED = 30; // meters per second - Added to the carrier's velocity, along its heading
+export const ITEM_THROW_OFFSET = 4; // meters - Thrown items start this far ahead of the carrier
+export const ITEM_FRICTION_FACTOR = 0.25; // Velocity multiplier per second while sliding
+export const ITEM_BOUNCE_RESTITUTION = 0.6; // Share of the speed kept when bouncing off water or a building
+export const ITEM_STOP_SPEED = 0.5; // meters per second - Slower items stop (and can be caught by the thrower again)
+
 // Base Positions (Meters from Origin) - MOVED TO SHARED-UTILS
 
 // Item Start Position
 export const ITEM_START_POS = { x: 0, y: 0 };
 
-// Example Water Hazard Zone (Meters from Origin)
-export const WATER_ZONE = { minX: -600, minY: -200, maxX: -500, maxY: 200 };
+// Terrain hazards (water, parks, buildings) - LOADED FROM MAP DATA, see hazards/
 
-// AI Configuration (Assuming these were intended from the previous structure)
-export const AI_SPEED_MULTIPLIER = 0.9; // AI max speed is 90% of human
-export const AI_ACCEL_MULTIPLIER = 0.85; // AI acceleration is 85% of human
+// AI Configuration - Speed, acceleration and reflexes per difficulty profile, see ai/difficulty.ts
 
 export const PHYSICS_IMPULSE_MAGNITUDE = 10; // Adjust this value! Impulse strength.
@@ -0,0 +1,87 @@
+/**
+ * locationRules.ts
+ *
+ * Where the arena may be moved. Besides the latitude bounds, the server can be limited to
+ * (or kept out of) regions: lat/lng boxes given as JSON arrays in the LOCATION_ALLOWED_REGIONS
+ * and LOCATION_DENIED_REGIONS environment variables, e.g.
+ * [{ "name": "Manhattan", "minLat": 40.70, "minLng": -74.02, "maxLat": 40.88, "maxLng": -73.91 }]
+ */
+
+import { MAX_ARENA_LATITUDE } from "@smugglers-town/shared-utils";
+
+export interface Region {
+    name: string;
+    minLat: number;
+    minLng: number;
+    maxLat: number;
+    maxLng: number;
+}
+
+export interface LocationRules {
+    allowedRegions: Region[]; // Empty: anywhere (outside the denied regions)
+    deniedRegions: Region[];
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isRegion(value: unknown): value is Region {
+    if (typeof value !== 'object' || value === null) return false;
+    const { name, minLat, minLng, maxLat, maxLng } = value as Partial<Record<keyof Region, unknown>>;
+    return typeof name === 'string' &&
+        isFiniteNumber(minLat) && isFiniteNumber(minLng) && isFiniteNumber(maxLat) && isFiniteNumber(maxLng) &&
+        minLat <= maxLat && minLng <= maxLng;
+}
+
+/**
+ * Parses a JSON array of regions. Invalid JSON or entries are skipped with a warning.
+ */
+export function parseRegions(json: string | undefined, name: string): Region[] {
+    if (!json) return [];
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e) {
+        console.warn(`[LocationRules] ${name} is not valid JSON. Ignoring it.`);
+        return [];
+    }
+    if (!Array.isArray(parsed)) {
+        console.warn(`[LocationRules] ${name} should be a JSON array of regions. Ignoring it.`);
+        return [];
+    }
+    return parsed.filter(region => {
+        if (isRegion(region)) return true;
+        console.warn(`[LocationRules] Ignoring invalid region in ${name}:`, region);
+        return false;
+    });
+}
+
+export function loadLocationRules(env: NodeJS.ProcessEnv = process.env): LocationRules {
+    return {
+        allowedRegions: parseRegions(env.LOCATION_ALLOWED_REGIONS, 'LOCATION_ALLOWED_REGIONS'),
+        deniedRegions: parseRegions(env.LOCATION_DENIED_REGIONS, 'LOCATION_DENIED_REGIONS'),
+    };
+}
+
+function contains(region: Region, lat: number, lng: number): boolean {
+    return lat >= region.minLat && lat <= region.maxLat && lng >= region.minLng && lng <= region.maxLng;
+}
+
+/**
+ * Checks a location against the bounds and region lists.
+ * @returns Why the location is not allowed, or null if it is.
+ */
+export function checkLocation(lat: unknown, lng: unknown, rules: LocationRules): string | null {
+    if (typeof lat !== 'number' || typeof lng !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+        return "Invalid coordinates";
+    }
+    if (Math.abs(lat) > MAX_ARENA_LATITUDE) return `Latitude must be within ±${MAX_ARENA_LATITUDE}°`;
+    if (Math.abs(lng) > 180) return "Longitude must be within ±180°";
+    const denied = rules.deniedRegions.find(region => contains(region, lat, lng));
+    if (denied) return `${denied.name} is not available`;
+    if (rules.allowedRegions.length > 0 && !rules.allowedRegions.some(region => contains(region, lat, lng))) {
+        return `Only these regions are available: ${rules.allowedRegions.map(region => region.name).join(', ')}`;
+    }
+    return null;
+}
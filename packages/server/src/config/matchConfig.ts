@@ -0,0 +1,97 @@
+/**
+ * matchConfig.ts
+ *
+ * Validation of the per-match settings (MatchConfig in ArenaState). Any field
+ * can be set through the room options; missing, malformed or out-of-range
+ * values fall back to the defaults from the constants.
+ */
+
+import { MatchConfig, MatchConfigValues } from "@smugglers-town/shared-schemas";
+import { BASE_DISTANCE, NUM_ITEMS } from "@smugglers-town/shared-utils";
+import {
+    GAME_DURATION_SECONDS,
+    ITEM_SPAWN_RADIUS,
+    ITEM_MIN_BASE_DISTANCE,
+    ITEM_MIN_SPACING,
+    ITEM_FAIRNESS_TOLERANCE,
+    ITEM_RESPAWN_SECONDS,
+    DROPPED_ITEM_RETURN_SECONDS,
+    STEAL_COOLDOWN_MS,
+    MAX_SPEED,
+    ACCELERATION,
+    FRICTION_FACTOR,
+    TURN_SPEED,
+    ROAD_SPEED_MULTIPLIER
+} from "./constants";
+
+export const DEFAULT_MATCH_CONFIG: MatchConfigValues = {
+    durationSeconds: GAME_DURATION_SECONDS,
+    itemCount: NUM_ITEMS,
+    baseDistance: BASE_DISTANCE,
+    itemSpawnRadius: ITEM_SPAWN_RADIUS,
+    itemMinBaseDistance: ITEM_MIN_BASE_DISTANCE,
+    itemMinSpacing: ITEM_MIN_SPACING,
+    itemFairnessTolerance: ITEM_FAIRNESS_TOLERANCE,
+    itemRespawnSeconds: ITEM_RESPAWN_SECONDS,
+    droppedItemReturnSeconds: DROPPED_ITEM_RETURN_SECONDS,
+    stealCooldownMs: STEAL_COOLDOWN_MS,
+    maxSpeed: MAX_SPEED,
+    acceleration: ACCELERATION,
+    frictionFactor: FRICTION_FACTOR,
+    turnSpeed: TURN_SPEED,
+    roadSpeedMultiplier: ROAD_SPEED_MULTIPLIER,
+};
+
+type Range = { min: number, max: number, integer?: boolean };
+
+// Accepted values per field (the uint fields must also fit their schema type)
+const MATCH_CONFIG_RANGES: Record<keyof MatchConfigValues, Range> = {
+    durationSeconds: { min: 60, max: 1800, integer: true },
+    itemCount: { min: 1, max: 12, integer: true },
+    baseDistance: { min: 50, max: 1000 },
+    itemSpawnRadius: { min: 20, max: 1000 },
+    itemMinBaseDistance: { min: 0, max: 500 },
+    itemMinSpacing: { min: 0, max: 300 },
+    itemFairnessTolerance: { min: 0, max: 2000 },
+    itemRespawnSeconds: { min: 0, max: 600, integer: true },
+    droppedItemReturnSeconds: { min: 0, max: 600, integer: true },
+    stealCooldownMs: { min: 0, max: 10000, integer: true },
+    maxSpeed: { min: 5, max: 200 },
+    acceleration: { min: 10, max: 1000 },
+    frictionFactor: { min: 0.01, max: 1 },
+    turnSpeed: { min: 0.5, max: 50 },
+    roadSpeedMultiplier: { min: 1, max: 5 },
+};
+
+function isInRange(value: unknown, range: Range): value is number {
+    return typeof value === 'number' && Number.isFinite(value) &&
+        value >= range.min && value <= range.max &&
+        (!range.integer || Number.isInteger(value));
+}
+
+/**
+ * Reads the match settings from room options (fields with the MatchConfig names,
+ * e.g. `{ durationSeconds: 180, itemCount: 6 }`). Invalid fields are logged and ignored.
+ */
+export function parseMatchConfig(options: unknown): MatchConfigValues {
+    const config = { ...DEFAULT_MATCH_CONFIG };
+    const fields = (options ?? {}) as Partial<Record<keyof MatchConfigValues, unknown>>;
+    (Object.keys(MATCH_CONFIG_RANGES) as (keyof MatchConfigValues)[]).forEach(key => {
+        const value = fields[key];
+        if (value === undefined) return;
+        if (isInRange(value, MATCH_CONFIG_RANGES[key])) {
+            config[key] = value;
+        } else {
+            const { min, max } = MATCH_CONFIG_RANGES[key];
+            console.warn(`[matchConfig] Ignoring invalid ${key}: ${JSON.stringify(value)} (allowed ${min}-${max})`);
+        }
+    });
+    return config;
+}
+
+/**
+ * Copies validated values into the synchronized schema.
+ */
+export function applyMatchConfig(target: MatchConfig, values: MatchConfigValues): void {
+    Object.assign(target, values);
+}
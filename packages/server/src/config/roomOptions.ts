@@ -0,0 +1,79 @@
+/**
+ * roomOptions.ts
+ *
+ * Options an "arena" room can be created with, e.g. the match handoff from
+ * the Firebase lobby API. Room options come straight from the client, so
+ * anything malformed or out of range is ignored and the default is used.
+ */
+
+import { MatchConfigValues } from "@smugglers-town/shared-schemas";
+import { parseMatchConfig } from "./matchConfig";
+import { LocationRules, checkLocation } from "./locationRules";
+import { ArenaPreset, resolveArenaPreset } from "./arenaPresets";
+import { defaultRandom } from "../utils/random";
+
+export interface ArenaRoomOptions {
+    // Lobby the room belongs to; rooms are matched by it (see filterBy in index.ts)
+    lobbyId?: string;
+    location?: { lat: number, lng: number };
+    // Arena preset id or "random" (config/arenaPresets.ts), used instead of location
+    preset?: ArenaPreset;
+    // Match settings (duration, item count, physics...), see matchConfig.ts
+    config: MatchConfigValues;
+    // AI players added to each team when the room is created
+    botFill: number;
+}
+
+const BOT_FILL_RANGE = { min: 0, max: 4 };
+
+function readInteger(value: unknown, range: { min: number, max: number }, name: string): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value === 'number' && Number.isInteger(value) && value >= range.min && value <= range.max) {
+        return value;
+    }
+    console.warn(`[roomOptions] Ignoring invalid ${name}:`, value);
+    return undefined;
+}
+
+function readLocation(value: unknown, rules: LocationRules): { lat: number, lng: number } | undefined {
+    if (value === undefined) return undefined;
+    const { lat, lng } = (value ?? {}) as { lat?: unknown, lng?: unknown };
+    const rejection = checkLocation(lat, lng, rules);
+    if (rejection === null) return { lat: lat as number, lng: lng as number };
+    console.warn(`[roomOptions] Ignoring invalid location (${rejection}):`, value);
+    return undefined;
+}
+
+function readPreset(value: unknown, rules: LocationRules): ArenaPreset | undefined {
+    if (value === undefined) return undefined;
+    const preset = typeof value === 'string' ? resolveArenaPreset(value, defaultRandom) : undefined;
+    const rejection = preset ? checkLocation(preset.origin.lat, preset.origin.lng, rules) : "unknown preset";
+    if (preset && rejection === null) return preset;
+    console.warn(`[roomOptions] Ignoring invalid preset (${rejection}):`, value);
+    return undefined;
+}
+
+/**
+ * Parses the options passed to onCreate.
+ * @param rules Where the room may be located (the lobby location is checked like a location vote).
+ */
+export function parseArenaRoomOptions(options: unknown, rules: LocationRules): ArenaRoomOptions {
+    const { lobbyId, location, preset, botFill, durationSeconds, itemCount } = (options ?? {}) as {
+        lobbyId?: unknown, location?: unknown, preset?: unknown, botFill?: unknown, durationSeconds?: unknown, itemCount?: unknown
+    };
+    if (typeof lobbyId === 'string' && lobbyId) {
+        // A lobby room takes only the settings the lobby API hands off (and signs, see security/lobbyHandoff.ts)
+        return {
+            lobbyId,
+            location: readLocation(location, rules),
+            config: parseMatchConfig({ durationSeconds, itemCount }),
+            botFill: readInteger(botFill, BOT_FILL_RANGE, 'botFill') ?? 0,
+        };
+    }
+    return {
+        location: readLocation(location, rules),
+        preset: readPreset(preset, rules),
+        config: parseMatchConfig(options),
+        botFill: readInteger(botFill, BOT_FILL_RANGE, 'botFill') ?? 0,
+    };
+}
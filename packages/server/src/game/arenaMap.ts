@@ -0,0 +1,91 @@
+/**
+ * arenaMap.ts
+ *
+ * The map data of an arena: roads (and the AI road graph), terrain hazards and
+ * base positions for the current world origin. Providers load in the background;
+ * hazards are replicated into ArenaState once they are ready. Arena presets
+ * (config/arenaPresets.ts) fix the base positions instead.
+ */
+
+import { ArenaState, Hazard } from "@smugglers-town/shared-schemas";
+import { RoadGraph, RoadProvider } from "../roads";
+import { HazardProvider } from "../hazards";
+import { chooseBasePositions } from "./basePlacement";
+import { ArenaPreset } from "../config/arenaPresets";
+
+export class ArenaMap {
+    // AI routing graph over the loaded roads (empty until they load)
+    roadGraph = new RoadGraph();
+    // Preset at the current origin, null for a searched place
+    preset: ArenaPreset | null = null;
+
+    constructor(
+        private readonly state: ArenaState,
+        readonly roads: RoadProvider,
+        readonly hazards: HazardProvider
+    ) {}
+
+    /**
+     * Loads roads and hazards around the current origin and places the bases with whatever
+     * data is available now. `onLoaded` runs once loading finishes, unless the origin changed meanwhile.
+     * Until then, nobody gets the road speed boost and there are no hazards.
+     */
+    load(onLoaded: () => void): void {
+        const { worldOriginLng, worldOriginLat } = this.state;
+        this.roadGraph = new RoadGraph();
+        this.syncHazards();
+        this.placeBases();
+
+        const roadsLoaded = this.roads.setOrigin(worldOriginLng, worldOriginLat)
+            .then(() => console.log(`[ArenaMap] Road provider '${this.roads.name}' ready for origin (${worldOriginLat}, ${worldOriginLng}).`))
+            .catch(err => console.error(`[ArenaMap] Road provider '${this.roads.name}' failed to load roads:`, err));
+        const hazardsLoaded = this.hazards.setOrigin(worldOriginLng, worldOriginLat)
+            .then(() => console.log(`[ArenaMap] Hazard provider '${this.hazards.name}' ready for origin (${worldOriginLat}, ${worldOriginLng}).`))
+            .catch(err => console.error(`[ArenaMap] Hazard provider '${this.hazards.name}' failed to load hazards:`, err));
+
+        Promise.all([roadsLoaded, hazardsLoaded]).then(() => {
+            const sameOrigin = this.state.worldOriginLat === worldOriginLat && this.state.worldOriginLng === worldOriginLng;
+            if (!sameOrigin) return;
+            this.roadGraph = new RoadGraph(this.roads.getRoadLines());
+            console.log(`[ArenaMap] Road graph built with ${this.roadGraph.nodeCount} nodes.`);
+            this.syncHazards();
+            onLoaded();
+        });
+    }
+
+    /**
+     * Chooses base positions for the current origin from the hazard and road data,
+     * or takes them from the preset.
+     */
+    placeBases(): void {
+        const { red, blue } = this.preset?.bases ?? chooseBasePositions({
+            baseDistance: this.state.matchConfig.baseDistance,
+            baseRadius: this.state.baseRadius,
+            roadProvider: this.roads,
+            // Parks are fine for a base; water and buildings are not
+            isBlocked: (x, y) => {
+                const kind = this.hazards.hazardAt(x, y)?.kind;
+                return kind === 'water' || kind === 'building';
+            },
+        });
+        this.state.redBaseX = red.x;
+        this.state.redBaseY = red.y;
+        this.state.blueBaseX = blue.x;
+        this.state.blueBaseY = blue.y;
+        console.log(`[ArenaMap] Bases placed: Red (${red.x.toFixed(1)}, ${red.y.toFixed(1)}), Blue (${blue.x.toFixed(1)}, ${blue.y.toFixed(1)})`);
+    }
+
+    /**
+     * Replicates the hazard provider's current polygons to clients.
+     */
+    private syncHazards(): void {
+        this.state.hazards.clear();
+        this.hazards.getHazards().forEach(polygon => {
+            const hazard = new Hazard();
+            hazard.kind = polygon.kind;
+            hazard.points.push(...polygon.points);
+            this.state.hazards.push(hazard);
+        });
+        this.state.terrainVersion = (this.state.terrainVersion + 1) % 65536;
+    }
+}
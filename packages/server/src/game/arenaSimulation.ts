@@ -0,0 +1,550 @@
+/**
+ * arenaSimulation.ts
+ *
+ * The game simulation behind an ArenaRoom, without any Colyseus transport:
+ * players, items, match phases and the per-tick rules pipeline. The room feeds
+ * it client input and broadcasts its events; the headless harness (see sim/)
+ * steps it directly with a seeded random source.
+ */
+
+import { ArenaState, Player, FlagState, MatchPhase, MatchResults, PlayerStats, MatchConfigValues, isLivePhase, getTeamBase } from "@smugglers-town/shared-schemas";
+import { Bot, createBotSnapshot } from "@smugglers-town/shared-bots";
+import {
+    AIDifficulty,
+    DEFAULT_AI_DIFFICULTY,
+    GameEventDispatcher,
+    InputMessage,
+    ORIGIN_LAT,
+    ORIGIN_LNG,
+} from "@smugglers-town/shared-utils";
+import * as ServerConstants from "../config/constants";
+import { updateHumanPlayerState } from "./playerController";
+import {
+    checkItemPickup,
+    checkScoring,
+    checkPlayerCollisionsAndStealing,
+    updateCarriedItemPosition,
+    updateCarryTimeStats
+} from "./rules";
+import { getPhaseDuration, updateMatchPhase, buildMatchResults } from "./matchController";
+import { InputBuffer } from "./inputBuffer";
+import { ArenaMap } from "./arenaMap";
+import { AINavigator } from "../ai/aiNavigator";
+import { TeamCoordinator } from "../ai/teamCoordinator";
+import { AIDifficultyProfile, AI_DIFFICULTY_PROFILES, getDifficultyMovementParams } from "../ai/difficulty";
+import { BotServices, DEFAULT_BOT_NAME, resolveBot } from "../bots";
+import { RoadProvider } from "../roads";
+import { HazardProvider } from "../hazards";
+import { RandomSource, defaultRandom, randomPointNear } from "../utils/random";
+import { DEFAULT_MATCH_CONFIG, applyMatchConfig } from "../config/matchConfig";
+import { ArenaPreset } from "../config/arenaPresets";
+import { chooseItemSpawn } from "./itemSpawning";
+import { throwItem, updateLooseItems } from "./itemPhysics";
+
+type PlayerVelocity = { vx: number, vy: number };
+type Team = "Red" | "Blue";
+type AIPlayerEntry = { botName: string, bot: Bot, profile: AIDifficultyProfile };
+
+export interface ArenaSimulationOptions {
+    roadProvider: RoadProvider;
+    hazardProvider: HazardProvider;
+    // Defaults to Math.random; pass a seeded source for reproducible runs
+    random?: RandomSource;
+    // Defaults to a fresh ArenaState (the room passes its synchronized state)
+    state?: ArenaState;
+    // Validated match settings (defaults: DEFAULT_MATCH_CONFIG), replicated in state.matchConfig
+    config?: MatchConfigValues;
+    // Initial world origin (defaults to Times Square)
+    origin?: { lat: number, lng: number };
+    // Initial arena preset (config/arenaPresets.ts), overrides origin
+    preset?: ArenaPreset;
+}
+
+export class ArenaSimulation {
+    readonly state: ArenaState;
+    // Gameplay events from rules/controllers
+    readonly events = new GameEventDispatcher();
+
+    private readonly random: RandomSource;
+    // Roads, hazards and base placement for the current origin
+    private readonly map: ArenaMap;
+    // Road routes of the AI players
+    private readonly navigator: AINavigator;
+    // Per-tick roles of the AI players on each team
+    private readonly coordinator = new TeamCoordinator();
+    // Sequenced inputs from clients (one consumed per tick)
+    private playerInputs = new InputBuffer();
+    // Server-calculated velocity per player
+    private playerVelocities = new Map<string, PlayerVelocity>();
+    // Bot implementation and difficulty of each AI player
+    private aiPlayers = new Map<string, AIPlayerEntry>();
+    // What in-process bots get access to (see bots/types.ts)
+    private readonly botServices: BotServices;
+    private tickSeconds = 0;
+    // Counter for AI IDs
+    private aiCounter = 1;
+    // Whether each player's predicted position from the previous tick is on a road
+    private playerPredictedOnRoad = new Map<string, boolean>();
+    // Player pairs whose cars were touching last tick (collision events fire on first contact)
+    private contactPairs = new Set<string>();
+    // Simulated clock in ms, advanced by every step (used for steal cooldowns)
+    private elapsedMs = 0;
+    // Seconds until each scored item respawns (MatchConfig.itemRespawnSeconds > 0)
+    private itemRespawnTimers = new Map<string, number>();
+
+    constructor(options: ArenaSimulationOptions) {
+        this.random = options.random ?? defaultRandom;
+        this.state = options.state ?? new ArenaState();
+        applyMatchConfig(this.state.matchConfig, options.config ?? DEFAULT_MATCH_CONFIG);
+
+        this.state.redScore = 0;
+        this.state.blueScore = 0;
+        this.state.gameTimeRemaining = this.state.matchConfig.durationSeconds;
+        this.state.baseRadius = Math.sqrt(ServerConstants.BASE_RADIUS_SQ);
+        this.map = new ArenaMap(this.state, options.roadProvider, options.hazardProvider);
+        // Initial world origin (Times Square unless a location or preset was given)
+        this.setOrigin(options.preset?.origin ?? options.origin ?? { lat: ORIGIN_LAT, lng: ORIGIN_LNG }, options.preset);
+        this.navigator = new AINavigator(() => this.map.roadGraph);
+        this.botServices = {
+            hazards: this.map.hazards,
+            navigator: this.navigator,
+            coordinator: this.coordinator,
+            random: this.random,
+            getDeltaTime: () => this.tickSeconds,
+        };
+    }
+
+    /**
+     * Loads roads for the initial origin, spawns the first items and enters warmup.
+     * Call after subscribing to events so the initial item_spawned events are seen.
+     */
+    start(): void {
+        this.loadMap();
+        this.resetRound();
+        this.enterPhase('warmup');
+    }
+
+    // --- Players ---
+
+    addHumanPlayer(sessionId: string, team: Team): Player {
+        const player = this.createHumanPlayer(sessionId, team);
+        this.state.players.set(sessionId, player);
+        this.playerVelocities.set(sessionId, { vx: 0, vy: 0 });
+        return player;
+    }
+
+    /**
+     * Adds a bot driven by the registered bot `botName` (see bots/registry.ts).
+     */
+    addAIPlayer(team: Team, difficulty: AIDifficulty = DEFAULT_AI_DIFFICULTY, botName: string = DEFAULT_BOT_NAME): { sessionId: string, player: Player } {
+        const sessionId = `ai_${this.aiCounter++}`;
+        const player = this.createAIPlayer(team, difficulty);
+        this.state.players.set(sessionId, player);
+        this.playerVelocities.set(sessionId, { vx: 0, vy: 0 });
+        const { name, factory } = resolveBot(botName);
+        this.aiPlayers.set(sessionId, { botName: name, bot: factory(this.botServices, difficulty), profile: AI_DIFFICULTY_PROFILES[difficulty] });
+        return { sessionId, player };
+    }
+
+    pushInput(sessionId: string, input: InputMessage): void {
+        this.playerInputs.push(sessionId, input);
+    }
+
+    /**
+     * Releases a player's controls so the car coasts to a stop (e.g. while its client reconnects).
+     */
+    releaseInput(sessionId: string): void {
+        this.playerInputs.release(sessionId);
+    }
+
+    /**
+     * Drops any item the player is carrying at their current position.
+     */
+    dropCarriedItems(sessionId: string): void {
+        const player = this.state.players.get(sessionId);
+        if (!player) return;
+        this.state.items.forEach(item => {
+            if (item.carrierId === sessionId) {
+                console.log(`[${sessionId}] Player carrying item ${item.id} left.`);
+                item.status = 'dropped';
+                item.x = player.x;
+                item.y = player.y;
+                item.carrierId = null;
+                console.log(`   Item ${item.id} dropped at (${item.x.toFixed(1)}, ${item.y.toFixed(1)})`);
+            }
+        });
+        updateCarriedItemPosition(this.state);
+    }
+
+    private throwCarriedItem(sessionId: string, player: Player, velocity: PlayerVelocity): void {
+        const item = this.state.items.find(item => item.status === 'carried' && item.carrierId === sessionId);
+        if (!item) return;
+        throwItem(item, player, sessionId, velocity);
+        console.log(`[${sessionId}] Threw item ${item.id} from (${item.x.toFixed(1)}, ${item.y.toFixed(1)}) at ${Math.hypot(item.vx, item.vy).toFixed(1)} m/s`);
+    }
+
+    removePlayer(sessionId: string): void {
+        console.log(`---> [removePlayer Entered] Attempting to remove state for sessionId: ${sessionId}`);
+        const player = this.state.players.get(sessionId);
+        const deleted = this.state.players.delete(sessionId);
+        if (deleted) {
+            console.log(`=> Removing player state: ${player?.name} (${sessionId})`);
+            this.playerInputs.delete(sessionId);
+            this.playerVelocities.delete(sessionId);
+            this.playerPredictedOnRoad.delete(sessionId);
+            this.aiPlayers.delete(sessionId);
+            this.navigator.forget(sessionId);
+        } else {
+            console.warn(`---> [removePlayer] Player state for ${sessionId} not found or already removed? Delete operation returned ${deleted}.`);
+        }
+    }
+
+    countHumanPlayers(): number {
+        let humanPlayerCount = 0;
+        this.state.players.forEach((player, sessionId) => {
+            if (!this.aiPlayers.has(sessionId)) {
+                humanPlayerCount++;
+            }
+        });
+        return humanPlayerCount;
+    }
+
+    /**
+     * Removes all AI players once no humans are left.
+     * Spectators have no Player, so a room with only spectators loses its bots too.
+     */
+    removeAIIfNoHumans(): void {
+        if (this.countHumanPlayers() > 0 || this.aiPlayers.size === 0) return;
+        console.log("Last human player left. Removing AI players...");
+        Array.from(this.aiPlayers.keys()).forEach(aiSessionId => {
+            this.dropCarriedItems(aiSessionId);
+            this.removePlayer(aiSessionId);
+        });
+    }
+
+    // --- Game Loop ---
+
+    /**
+     * Advances the simulation by one tick of `dt` seconds.
+     */
+    step(dt: number): void {
+        this.elapsedMs += dt * 1000;
+
+        // Match lifecycle (game timer, phase transitions)
+        const nextPhase = updateMatchPhase(this.state, dt, this.countHumanPlayers());
+        if (nextPhase) {
+            this.enterPhase(nextPhase);
+        }
+
+        if (dt > 0.1) {
+            console.warn(`Large delta time detected: ${dt.toFixed(3)}s. Skipping frame.`);
+            return;
+        }
+
+        // Outside of live play (warmup, countdown, results) cars are frozen and no rules apply
+        if (!isLivePhase(this.state.matchPhase)) {
+            this.acknowledgeFrozenInputs();
+            return;
+        }
+
+        const playerIds = Array.from(this.state.players.keys());
+        // Bots decide from a read-only snapshot taken before anyone moves
+        this.tickSeconds = dt;
+        const botSnapshot = this.aiPlayers.size > 0 ? createBotSnapshot(this.state) : null;
+        // Bots get their roles for this tick from the same snapshot
+        // (only the built-in bots take roles; other bots count as independent teammates)
+        if (botSnapshot) {
+            this.coordinator.update(botSnapshot, sessionId => this.aiPlayers.get(sessionId)?.botName === DEFAULT_BOT_NAME);
+        }
+
+        // 1. Update Player States (AI and Human) - Uses PREVIOUS tick's prediction for speed
+        playerIds.forEach(sessionId => {
+            const player = this.state.players.get(sessionId);
+            if (!player) return;
+
+            let velocity = this.playerVelocities.get(sessionId);
+            if (!velocity) {
+                velocity = { vx: 0, vy: 0 };
+                this.playerVelocities.set(sessionId, velocity);
+            }
+
+            // Get predicted road status from LAST tick's check
+            const predictedIsOnRoadFromLastTick = this.playerPredictedOnRoad.get(sessionId) ?? false;
+            // Update player's current isOnRoad state for client visuals/info
+            player.isOnRoad = predictedIsOnRoadFromLastTick;
+
+            let predictedPos: { nextX: number, nextY: number };
+            const ai = this.aiPlayers.get(sessionId);
+            if (ai && botSnapshot) {
+                // Bots drive with the human car physics, at the speed of their difficulty
+                const input = ai.bot.decide(botSnapshot, sessionId);
+                if (input.state !== undefined) player.currentState = input.state;
+                const params = getDifficultyMovementParams(this.state.matchConfig, ai.profile);
+                predictedPos = updateHumanPlayerState(player, sessionId, input, velocity, predictedIsOnRoadFromLastTick, dt, this.state, this.map.hazards, this.events, params);
+            } else {
+                const input = this.playerInputs.next(sessionId);
+                predictedPos = updateHumanPlayerState(player, sessionId, input, velocity, predictedIsOnRoadFromLastTick, dt, this.state, this.map.hazards, this.events);
+                if (input.throw) this.throwCarriedItem(sessionId, player, velocity);
+                // Acknowledge the input so the client can drop it from its replay buffer
+                player.lastProcessedInput = input.seq;
+            }
+
+            // Check the PREDICTED position now; the result is used for the NEXT tick's speed
+            this.playerPredictedOnRoad.set(sessionId, this.map.roads.isOnRoad(predictedPos.nextX, predictedPos.nextY));
+
+            player.vx = velocity.vx;
+            player.vy = velocity.vy;
+        });
+
+        // 2. Apply Game Rules (Pickup, Scoring, Collisions) - Uses updated positions
+        checkItemPickup(this.state, playerIds, this.events);
+        checkScoring(this.state, playerIds, this.events);
+        checkPlayerCollisionsAndStealing(
+            this.state,
+            playerIds,
+            this.playerVelocities,
+            this.elapsedMs,
+            this.events,
+            this.contactPairs
+        );
+
+        // 3. Loose Items (sliding, return of dropped items), Timed Respawns, then the Round Reset Check
+        updateLooseItems(this.state, dt, this.map.hazards).forEach(item => {
+            console.log(`[ArenaSimulation] Dropped item ${item.id} returned after ${item.timeDropped.toFixed(1)}s.`);
+            this.placeItem(item);
+            this.events.emit({ type: 'item_spawned', itemId: item.id, x: item.x, y: item.y });
+        });
+        this.updateItemRespawns(dt);
+        const allScored = this.state.items.every(item => item.status === 'scored');
+        if (allScored && this.state.items.length > 0) {
+            console.log("[Update] All items scored! Resetting round.");
+            this.resetRound();
+        }
+
+        // 4. Update carried item positions and carry time stats
+        updateCarriedItemPosition(this.state);
+        updateCarryTimeStats(this.state, dt);
+    }
+
+    // --- Round & Match Management ---
+
+    enterPhase(phase: MatchPhase): void {
+        console.log(`[ArenaSimulation] Match phase: ${this.state.matchPhase} -> ${phase}`);
+        if (phase === 'results') {
+            // Built before the phase changes so overtime wins are flagged correctly
+            this.state.matchResults = buildMatchResults(this.state);
+            console.log(`[ArenaSimulation] Match ${this.state.matchNumber} over. Winner: ${this.state.matchResults.winner} (Red ${this.state.redScore} - Blue ${this.state.blueScore})`);
+        } else if (phase === 'countdown') {
+            this.resetMatch();
+        }
+        this.state.matchPhase = phase;
+        this.state.phaseTimeRemaining = getPhaseDuration(phase);
+
+        if (!isLivePhase(phase)) {
+            this.stopAllPlayers();
+        }
+    }
+
+    /**
+     * Moves the world to a new origin and restarts the match there
+     * (countdown entry resets scores, players and items).
+     * @param preset Arena preset at the new origin (its bases, item zones and map style), if any.
+     */
+    resetGame(newOrigin: { lat: number; lng: number }, preset?: ArenaPreset): void {
+        console.log(`[ArenaSimulation] Executing resetGame to origin: Lat=${newOrigin.lat}, Lng=${newOrigin.lng} (preset: ${preset?.id ?? 'none'})`);
+        this.setOrigin(newOrigin, preset);
+        this.loadMap();
+        this.enterPhase('countdown');
+        console.log("[ArenaSimulation] resetGame completed.");
+    }
+
+    private setOrigin(origin: { lat: number; lng: number }, preset?: ArenaPreset): void {
+        this.state.worldOriginLat = origin.lat;
+        this.state.worldOriginLng = origin.lng;
+        this.state.arenaPresetId = preset?.id ?? "";
+        this.state.mapStyle = preset?.mapStyle ?? "";
+        this.map.preset = preset ?? null;
+    }
+
+    private createHumanPlayer(sessionId: string, team: Team): Player {
+        const player = new Player();
+        player.name = `Player ${sessionId.substring(0, 3)}`;
+        const spawn = randomPointNear(this.random, 0, 0, ServerConstants.PLAYER_SPAWN_RADIUS);
+        player.x = spawn.x;
+        player.y = spawn.y;
+        player.heading = 0;
+        player.team = team;
+        return player;
+    }
+
+    private createAIPlayer(team: Team, difficulty: AIDifficulty): Player {
+        const player = new Player();
+        player.name = `Bot ${this.aiCounter-1} (${team.substring(0,1)})`;
+        const spawn = randomPointNear(this.random, 0, 0, ServerConstants.PLAYER_SPAWN_RADIUS);
+        player.x = spawn.x;
+        player.y = spawn.y;
+        player.heading = 0;
+        player.team = team;
+        player.isAI = true;
+        player.aiDifficulty = difficulty;
+        return player;
+    }
+
+    private spawnNewItem(itemId: string): FlagState {
+        const newItem = new FlagState();
+        newItem.id = itemId;
+        this.placeItem(newItem);
+        return newItem;
+    }
+
+    /**
+     * Makes an item available at a new spawn point (see itemSpawning.ts): in one of the
+     * preset's zones, otherwise anywhere within the spawn radius of the origin.
+     */
+    private placeItem(item: FlagState): void {
+        const config = this.state.matchConfig;
+        const zones = this.map.preset?.itemSpawnZones ?? [];
+        const otherItems = this.state.items.filter(other => other !== item && (other.status === 'available' || other.status === 'dropped'));
+        const spawn = chooseItemSpawn({
+            random: this.random,
+            zones: zones.length > 0 ? zones : [{ x: 0, y: 0, radius: config.itemSpawnRadius }],
+            bases: {
+                red: { x: this.state.redBaseX, y: this.state.redBaseY },
+                blue: { x: this.state.blueBaseX, y: this.state.blueBaseY },
+            },
+            otherItems,
+            rules: {
+                minBaseDistance: config.itemMinBaseDistance,
+                minItemSpacing: config.itemMinSpacing,
+                fairnessTolerance: config.itemFairnessTolerance,
+            },
+            // Parks only slow cars down; items in water or buildings can't be reached
+            isBlocked: (x, y) => {
+                const kind = this.map.hazards.hazardAt(x, y)?.kind;
+                return kind === 'water' || kind === 'building';
+            },
+        });
+        item.status = 'available';
+        item.x = spawn.x;
+        item.y = spawn.y;
+        item.vx = 0;
+        item.vy = 0;
+        item.thrownBy = "";
+        item.carrierId = null;
+        item.lastStealTimestamp = 0;
+        console.log(`   Spawning item ${item.id} at (${item.x.toFixed(1)}, ${item.y.toFixed(1)})`);
+    }
+
+    /**
+     * Brings scored items back after MatchConfig.itemRespawnSeconds (if set).
+     */
+    private updateItemRespawns(dt: number): void {
+        const delay = this.state.matchConfig.itemRespawnSeconds;
+        if (delay <= 0) return;
+        this.state.items.forEach(item => {
+            if (item.status !== 'scored') {
+                this.itemRespawnTimers.delete(item.id);
+                return;
+            }
+            const remaining = (this.itemRespawnTimers.get(item.id) ?? delay) - dt;
+            if (remaining > 0) {
+                this.itemRespawnTimers.set(item.id, remaining);
+                return;
+            }
+            this.itemRespawnTimers.delete(item.id);
+            this.placeItem(item);
+            this.events.emit({ type: 'item_spawned', itemId: item.id, x: item.x, y: item.y });
+        });
+    }
+
+    private resetRound(): void {
+        console.log("Executing resetRound...");
+        this.state.items.clear();
+        this.itemRespawnTimers.clear();
+        for (let i = 0; i < this.state.matchConfig.itemCount; i++) {
+            const newItem = this.spawnNewItem(`item-${i}`);
+            this.state.items.push(newItem);
+            this.events.emit({ type: 'item_spawned', itemId: newItem.id, x: newItem.x, y: newItem.y });
+        }
+    }
+
+    /**
+     * Starts a fresh match: scores, timer, results, player positions and items.
+     */
+    private resetMatch(): void {
+        this.state.matchNumber++;
+        console.log(`[ArenaSimulation] Resetting for match ${this.state.matchNumber}...`);
+
+        // 1. Reset Scores, Timer and Results
+        this.state.redScore = 0;
+        this.state.blueScore = 0;
+        this.state.gameTimeRemaining = this.state.matchConfig.durationSeconds;
+        this.state.matchResults = new MatchResults();
+
+        // 2. Reset Player Positions and States (spawn near own base, not exactly on it)
+        this.state.players.forEach((player, sessionId) => {
+            this.spawnNearBase(player);
+            player.vx = 0;
+            player.vy = 0;
+            player.heading = 0;
+            player.isOnRoad = false;
+            player.stats = new PlayerStats();
+            // Clear carried item status (important if reset happens mid-carry)
+            this.state.items.forEach(item => {
+                if (item.carrierId === sessionId) {
+                    item.carrierId = null;
+                    item.status = 'available';
+                }
+            });
+            this.playerVelocities.set(sessionId, { vx: 0, vy: 0 });
+            this.playerPredictedOnRoad.delete(sessionId);
+            console.log(`  -> Reset player ${player.name} (${sessionId}) to pos (${player.x.toFixed(1)}, ${player.y.toFixed(1)}) near ${player.team} base.`);
+        });
+
+        // 3. Clear and Respawn Items
+        this.resetRound();
+    }
+
+    // Spawn near the own base, not exactly on it (players without a team: near the origin)
+    private spawnNearBase(player: Player): void {
+        const basePos = getTeamBase(this.state, player.team) ?? { x: 0, y: 0 };
+        const spawn = randomPointNear(this.random, basePos.x, basePos.y, ServerConstants.PLAYER_SPAWN_RADIUS);
+        player.x = spawn.x;
+        player.y = spawn.y;
+    }
+
+    private stopAllPlayers(): void {
+        this.state.players.forEach((player, sessionId) => {
+            player.vx = 0;
+            player.vy = 0;
+            this.playerVelocities.set(sessionId, { vx: 0, vy: 0 });
+        });
+    }
+
+    /**
+     * While cars are frozen, inputs are acknowledged without being applied
+     * so clients don't keep replaying them.
+     */
+    private acknowledgeFrozenInputs(): void {
+        this.state.players.forEach((player, sessionId) => {
+            if (player.isAI) return;
+            player.lastProcessedInput = this.playerInputs.flush(sessionId);
+        });
+    }
+
+    /**
+     * Loads the map around the current origin (see ArenaMap). Once roads and hazards are ready,
+     * the bases and items are placed again unless the match is already live there.
+     */
+    private loadMap(): void {
+        this.playerPredictedOnRoad.clear();
+        this.map.load(() => {
+            if (isLivePhase(this.state.matchPhase) || this.state.matchPhase === 'results') return;
+            this.map.placeBases();
+            this.resetRound(); // Items spawned before the hazards were known, around the old bases
+            if (this.state.matchPhase === 'countdown') {
+                this.state.players.forEach(player => this.spawnNearBase(player));
+            }
+        });
+    }
+}
@@ -0,0 +1,99 @@
+/**
+ * basePlacement.ts
+ *
+ * Chooses where the two bases go for the current world location. Candidates are
+ * mirrored pairs around the origin (where items spawn) at several angles and
+ * distances. A layout is rejected if either base overlaps a hazard; the rest are
+ * scored by how much road surrounds the worse-placed base, so both teams can
+ * reach home quickly, with a penalty for straying from the configured distance.
+ */
+
+import { RoadProvider } from "../roads";
+
+type Point = { x: number, y: number };
+
+export interface BasePair {
+    red: Point;
+    blue: Point;
+}
+
+export interface BasePlacementOptions {
+    // Preferred meters from the origin to each base (MatchConfig.baseDistance)
+    baseDistance: number;
+    baseRadius: number;
+    roadProvider: RoadProvider;
+    // True where a base must not be (hazards, obstacles)
+    isBlocked: (x: number, y: number) => boolean;
+}
+
+// Horizontal (the classic layout) first, so it wins ties
+const CANDIDATE_ANGLES_DEG = [0, 30, 150, 60, 120, 90];
+const CANDIDATE_DISTANCE_FACTORS = [1, 0.8, 1.25];
+// Score lost per 100% deviation from the preferred distance
+const DISTANCE_PENALTY = 0.5;
+// Points checked on each ring around a base (rings at half and full base radius)
+const RING_SAMPLES = 8;
+
+/**
+ * All candidate layouts in preference order.
+ */
+export function getCandidateLayouts(baseDistance: number): BasePair[] {
+    const layouts: BasePair[] = [];
+    CANDIDATE_DISTANCE_FACTORS.forEach(factor => {
+        CANDIDATE_ANGLES_DEG.forEach(angleDeg => {
+            const angle = angleDeg * Math.PI / 180;
+            const dx = Math.cos(angle) * baseDistance * factor;
+            const dy = Math.sin(angle) * baseDistance * factor;
+            layouts.push({ red: { x: -dx, y: -dy }, blue: { x: dx, y: dy } });
+        });
+    });
+    return layouts;
+}
+
+// Center of the base plus two rings of sample points
+function getSamplePoints(center: Point, radius: number): Point[] {
+    const points = [center];
+    [radius / 2, radius].forEach(ringRadius => {
+        for (let i = 0; i < RING_SAMPLES; i++) {
+            const angle = (i / RING_SAMPLES) * Math.PI * 2;
+            points.push({ x: center.x + Math.cos(angle) * ringRadius, y: center.y + Math.sin(angle) * ringRadius });
+        }
+    });
+    return points;
+}
+
+function isClear(center: Point, options: BasePlacementOptions): boolean {
+    return getSamplePoints(center, options.baseRadius).every(p => !options.isBlocked(p.x, p.y));
+}
+
+// Fraction of the base area (sampled) that is road
+function getRoadCoverage(center: Point, options: BasePlacementOptions): number {
+    const points = getSamplePoints(center, options.baseRadius);
+    return points.filter(p => options.roadProvider.isOnRoad(p.x, p.y)).length / points.length;
+}
+
+/**
+ * Picks the best valid layout. Falls back to the first candidate if every layout is blocked.
+ */
+export function chooseBasePositions(options: BasePlacementOptions): BasePair {
+    const layouts = getCandidateLayouts(options.baseDistance);
+    let best: BasePair | null = null;
+    let bestScore = -Infinity;
+
+    for (const [index, layout] of layouts.entries()) {
+        if (!isClear(layout.red, options) || !isClear(layout.blue, options)) continue;
+        const factor = CANDIDATE_DISTANCE_FACTORS[Math.floor(index / CANDIDATE_ANGLES_DEG.length)];
+        const coverage = Math.min(getRoadCoverage(layout.red, options), getRoadCoverage(layout.blue, options));
+        const score = coverage - Math.abs(factor - 1) * DISTANCE_PENALTY;
+        if (score > bestScore) {
+            best = layout;
+            bestScore = score;
+        }
+    }
+
+    if (!best) {
+        console.warn("[BasePlacement] Every candidate layout overlaps a hazard. Using the default layout.");
+        return layouts[0];
+    }
+    return best;
+}
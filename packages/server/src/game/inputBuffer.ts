@@ -0,0 +1,81 @@
+/**
+ * inputBuffer.ts
+ *
+ * Per-player queue of sequenced input messages. The simulation consumes one
+ * input per tick, so every client prediction step maps to one server tick.
+ */
+
+import { InputMessage } from "@smugglers-town/shared-utils";
+
+// Inputs queued beyond this are dropped (oldest first) to bound added latency
+const MAX_QUEUED_INPUTS = 6;
+const NO_INPUT: InputMessage = { dx: 0, dy: 0, seq: 0 };
+
+export class InputBuffer {
+    private queues = new Map<string, InputMessage[]>();
+    // Input applied on the last tick (repeated while the queue is empty)
+    private current = new Map<string, InputMessage>();
+
+    push(sessionId: string, input: InputMessage): void {
+        const lastSeq = this.latestSeq(sessionId);
+        if (input.seq <= lastSeq) return; // Stale or duplicate message
+
+        let queue = this.queues.get(sessionId);
+        if (!queue) {
+            queue = [];
+            this.queues.set(sessionId, queue);
+        }
+        queue.push(input);
+        if (queue.length > MAX_QUEUED_INPUTS) {
+            queue.splice(0, queue.length - MAX_QUEUED_INPUTS);
+        }
+    }
+
+    /**
+     * Input for this tick: the next queued message, or the last one again if none arrived
+     * (a throw is not repeated).
+     */
+    next(sessionId: string): InputMessage {
+        const queued = this.queues.get(sessionId)?.shift();
+        if (queued) {
+            this.current.set(sessionId, { dx: queued.dx, dy: queued.dy, seq: queued.seq });
+            return queued;
+        }
+        return this.current.get(sessionId) ?? NO_INPUT;
+    }
+
+    /**
+     * Skips all queued inputs (e.g. while movement is frozen), keeping only the newest as current
+     * (without its throw, like next()).
+     * @returns The sequence number of the newest input, which counts as processed.
+     */
+    flush(sessionId: string): number {
+        const queue = this.queues.get(sessionId);
+        if (queue && queue.length > 0) {
+            const newest = queue[queue.length - 1];
+            this.current.set(sessionId, { dx: newest.dx, dy: newest.dy, seq: newest.seq });
+            queue.length = 0;
+        }
+        return this.current.get(sessionId)?.seq ?? 0;
+    }
+
+    /**
+     * Drops queued inputs and lets go of the controls (e.g. while the client is disconnected).
+     * The sequence restarts, so a reloaded client (counting from 1 again) is accepted too.
+     */
+    release(sessionId: string): void {
+        this.current.set(sessionId, NO_INPUT);
+        this.queues.delete(sessionId);
+    }
+
+    delete(sessionId: string): void {
+        this.queues.delete(sessionId);
+        this.current.delete(sessionId);
+    }
+
+    private latestSeq(sessionId: string): number {
+        const queue = this.queues.get(sessionId);
+        if (queue && queue.length > 0) return queue[queue.length - 1].seq;
+        return this.current.get(sessionId)?.seq ?? 0;
+    }
+}
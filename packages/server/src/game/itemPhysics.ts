@@ -0,0 +1,90 @@
+/**
+ * itemPhysics.ts
+ *
+ * Items on the ground. A carrier can throw its item forward (e.g. to pass it to a
+ * teammate): it slides with friction and bounces off water and buildings, and the
+ * thrower can't catch it again until it stops. Dropped items go back to neutral
+ * ground once MatchConfig.droppedItemReturnSeconds have passed.
+ */
+
+import { ArenaState, FlagState, Player } from "@smugglers-town/shared-schemas";
+import { HazardProvider } from "../hazards";
+import {
+    ITEM_THROW_SPEED,
+    ITEM_THROW_OFFSET,
+    ITEM_FRICTION_FACTOR,
+    ITEM_BOUNCE_RESTITUTION,
+    ITEM_STOP_SPEED
+} from "../config/constants";
+
+type PlayerVelocity = { vx: number, vy: number };
+
+// Items slide over parks but bounce off water and buildings
+function isSolid(hazards: HazardProvider, x: number, y: number): boolean {
+    const kind = hazards.hazardAt(x, y)?.kind;
+    return kind === 'water' || kind === 'building';
+}
+
+/**
+ * Launches a carried item along the carrier's heading, on top of the car's own velocity.
+ */
+export function throwItem(item: FlagState, carrier: Player, carrierId: string, velocity: PlayerVelocity): void {
+    const dirX = Math.cos(carrier.heading);
+    const dirY = Math.sin(carrier.heading);
+    item.status = 'dropped';
+    item.carrierId = null;
+    item.thrownBy = carrierId;
+    item.x = carrier.x + dirX * ITEM_THROW_OFFSET;
+    item.y = carrier.y + dirY * ITEM_THROW_OFFSET;
+    item.vx = velocity.vx + dirX * ITEM_THROW_SPEED;
+    item.vy = velocity.vy + dirY * ITEM_THROW_SPEED;
+    item.timeDropped = 0;
+}
+
+/**
+ * Moves sliding items and counts how long dropped items have been on the ground.
+ * @returns Dropped items that are due to return (MatchConfig.droppedItemReturnSeconds).
+ */
+export function updateLooseItems(state: ArenaState, dt: number, hazards: HazardProvider): FlagState[] {
+    const returnSeconds = state.matchConfig.droppedItemReturnSeconds;
+    const due: FlagState[] = [];
+    state.items.forEach(item => {
+        if (item.status !== 'dropped') {
+            item.timeDropped = 0;
+            return;
+        }
+        if (item.vx !== 0 || item.vy !== 0) slide(item, dt, hazards);
+        item.timeDropped += dt;
+        if (returnSeconds > 0 && item.timeDropped >= returnSeconds) due.push(item);
+    });
+    return due;
+}
+
+/**
+ * One step of a sliding item: each axis bounces separately off solid hazards
+ * (an item already inside one just slides out).
+ */
+function slide(item: FlagState, dt: number, hazards: HazardProvider): void {
+    const inside = isSolid(hazards, item.x, item.y);
+    const nextX = item.x + item.vx * dt;
+    if (!inside && isSolid(hazards, nextX, item.y)) {
+        item.vx = -item.vx * ITEM_BOUNCE_RESTITUTION;
+    } else {
+        item.x = nextX;
+    }
+    const nextY = item.y + item.vy * dt;
+    if (!inside && isSolid(hazards, item.x, nextY)) {
+        item.vy = -item.vy * ITEM_BOUNCE_RESTITUTION;
+    } else {
+        item.y = nextY;
+    }
+
+    const friction = Math.pow(ITEM_FRICTION_FACTOR, dt);
+    item.vx *= friction;
+    item.vy *= friction;
+    if (Math.hypot(item.vx, item.vy) < ITEM_STOP_SPEED) {
+        item.vx = 0;
+        item.vy = 0;
+        item.thrownBy = "";
+    }
+}
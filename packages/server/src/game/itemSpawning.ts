@@ -0,0 +1,75 @@
+/**
+ * itemSpawning.ts
+ *
+ * Chooses where an item spawns. Candidates are random points in the spawn zones
+ * (the preset's zones, or the spawn radius around the origin). A candidate must be
+ * clear of blocking hazards, away from both bases and from the other loose items, and fair:
+ * about as far from the red base as from the blue one. If no candidate passes within
+ * the attempt budget, the one that misses the rules by the least is used.
+ */
+
+import { RandomSource, randomPointNear } from "../utils/random";
+
+type Point = { x: number, y: number };
+
+export interface SpawnRules {
+    // Meters from each base center (MatchConfig.itemMinBaseDistance)
+    minBaseDistance: number;
+    // Meters from every other loose item (MatchConfig.itemMinSpacing)
+    minItemSpacing: number;
+    // Largest difference between the distances to the two bases (MatchConfig.itemFairnessTolerance)
+    fairnessTolerance: number;
+}
+
+export interface ItemSpawnOptions {
+    random: RandomSource;
+    // Circles to spawn in (meters from the origin), picked at random for each attempt
+    zones: readonly (Point & { radius: number })[];
+    bases: { red: Point, blue: Point };
+    // Loose items already on the map
+    otherItems: readonly Point[];
+    rules: SpawnRules;
+    // True where an item must not be (hazards)
+    isBlocked: (x: number, y: number) => boolean;
+}
+
+const MAX_ATTEMPTS = 100;
+// Shortfall (in meters) counted for a blocked candidate, so any free spot beats it
+const BLOCKED_PENALTY = 10000;
+
+/**
+ * How far a point misses the rules, in meters (0 = all rules met).
+ */
+export function getSpawnShortfall(point: Point, options: Omit<ItemSpawnOptions, 'random' | 'zones'>): number {
+    const { bases, otherItems, rules } = options;
+    const toRed = Math.hypot(point.x - bases.red.x, point.y - bases.red.y);
+    const toBlue = Math.hypot(point.x - bases.blue.x, point.y - bases.blue.y);
+    let shortfall = options.isBlocked(point.x, point.y) ? BLOCKED_PENALTY : 0;
+    shortfall += Math.max(0, rules.minBaseDistance - Math.min(toRed, toBlue));
+    shortfall += Math.max(0, Math.abs(toRed - toBlue) - rules.fairnessTolerance);
+    otherItems.forEach(item => {
+        shortfall += Math.max(0, rules.minItemSpacing - Math.hypot(point.x - item.x, point.y - item.y));
+    });
+    return shortfall;
+}
+
+/**
+ * Picks a spawn point for one item.
+ */
+export function chooseItemSpawn(options: ItemSpawnOptions): Point {
+    const { random, zones } = options;
+    let best: Point = { x: 0, y: 0 };
+    let bestShortfall = Infinity;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && zones.length > 0; attempt++) {
+        const zone = zones[Math.floor(random() * zones.length)];
+        const candidate = randomPointNear(random, zone.x, zone.y, zone.radius);
+        const shortfall = getSpawnShortfall(candidate, options);
+        if (shortfall === 0) return candidate;
+        if (shortfall < bestShortfall) {
+            best = candidate;
+            bestShortfall = shortfall;
+        }
+    }
+    console.warn(`[ItemSpawning] No spawn point met the rules after ${MAX_ATTEMPTS} attempts, using one ${bestShortfall.toFixed(1)}m short.`);
+    return best;
+}
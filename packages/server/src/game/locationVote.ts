@@ -0,0 +1,91 @@
+/**
+ * locationVote.ts
+ *
+ * Vote to move the arena to another location (the "set_world_origin" message).
+ * A human player proposes a location (approving it) and the human players vote during a
+ * countdown: a majority of them approving passes it right away, a majority rejecting fails it,
+ * otherwise the votes cast decide when time runs out (a tie fails). After a vote, proposals
+ * wait for a cooldown, the host's too. The host can cancel a vote (which starts the cooldown).
+ * A player alone in the room passes their own proposal immediately.
+ * Arena presets (config/arenaPresets.ts) are voted on like any other location.
+ */
+
+import { ArenaState, LocationVote } from "@smugglers-town/shared-schemas";
+import { LOCATION_VOTE_COOLDOWN_SECONDS, LOCATION_VOTE_DURATION_SECONDS } from "../config/constants";
+
+const MAX_LABEL_LENGTH = 80;
+
+// A proposed location; preset proposals are resolved to the preset's origin by the room
+export interface LocationTarget {
+    lat: number;
+    lng: number;
+    label?: string;
+    presetId?: string;
+}
+
+/**
+ * Opens a vote on a location that already passed the location rules (config/locationRules.ts).
+ * @returns Why the proposal is refused, or null if the vote was opened.
+ */
+export function proposeLocation(state: ArenaState, proposerId: string, proposal: LocationTarget): string | null {
+    if (state.locationVote) return "A location vote is already in progress";
+    if (state.locationVoteCooldown > 0) {
+        return `Wait ${Math.ceil(state.locationVoteCooldown)}s before proposing another location`;
+    }
+    const vote = new LocationVote();
+    vote.proposerId = proposerId;
+    vote.lat = proposal.lat;
+    vote.lng = proposal.lng;
+    vote.label = typeof proposal.label === 'string' ? proposal.label.slice(0, MAX_LABEL_LENGTH) : "";
+    vote.presetId = typeof proposal.presetId === 'string' ? proposal.presetId : "";
+    vote.timeRemaining = LOCATION_VOTE_DURATION_SECONDS;
+    vote.votes.set(proposerId, true);
+    state.locationVote = vote;
+    return null;
+}
+
+export function castLocationVote(state: ArenaState, sessionId: string, approve: boolean): void {
+    state.locationVote?.votes.set(sessionId, approve);
+}
+
+/**
+ * Cancels the open vote. Only the host may.
+ * @returns True if a vote was cancelled.
+ */
+export function cancelLocationVote(state: ArenaState, sessionId: string): boolean {
+    if (!state.locationVote || sessionId !== state.hostId) return false;
+    closeVote(state);
+    return true;
+}
+
+function closeVote(state: ArenaState): void {
+    state.locationVote = undefined;
+    state.locationVoteCooldown = LOCATION_VOTE_COOLDOWN_SECONDS;
+}
+
+/**
+ * Counts down the cooldown and the open vote, and closes the vote once it is decided.
+ * @param voterIds Players allowed to vote (the humans in the room); other votes don't count.
+ * @returns The location to move to when the vote passes, otherwise null.
+ */
+export function updateLocationVote(state: ArenaState, dt: number, voterIds: string[]): LocationTarget | null {
+    state.locationVoteCooldown = Math.max(0, state.locationVoteCooldown - dt);
+    const vote = state.locationVote;
+    if (!vote) return null;
+    vote.timeRemaining = Math.max(0, vote.timeRemaining - dt);
+
+    let approvals = 0;
+    let rejections = 0;
+    voterIds.forEach(id => {
+        const approve = vote.votes.get(id);
+        if (approve === true) approvals++;
+        else if (approve === false) rejections++;
+    });
+    const majority = Math.floor(voterIds.length / 2) + 1;
+    const passed = approvals >= majority || (vote.timeRemaining <= 0 && approvals > rejections);
+    if (!passed && rejections < majority && vote.timeRemaining > 0) return null;
+
+    const location: LocationTarget = { lat: vote.lat, lng: vote.lng, label: vote.label, presetId: vote.presetId || undefined };
+    closeVote(state);
+    return passed ? location : null;
+}
@@ -0,0 +1,102 @@
+/**
+ * matchController.ts
+ *
+ * Match lifecycle state machine:
+ * warmup -> countdown -> playing -> (overtime) -> results -> countdown (next match).
+ * The simulation owns the side effects of entering a phase (resets, results), this module
+ * only decides when to move on.
+ */
+
+import { ArenaState, MatchPhase, MatchResults, PlayerResult } from "@smugglers-town/shared-schemas";
+import {
+    WARMUP_DURATION_SECONDS,
+    COUNTDOWN_DURATION_SECONDS,
+    OVERTIME_DURATION_SECONDS,
+    RESULTS_DURATION_SECONDS,
+    MIN_HUMANS_TO_START
+} from "../config/constants";
+
+/**
+ * Duration of the phase timer when entering a phase.
+ * "playing" uses gameTimeRemaining instead, so it has no phase timer.
+ */
+export function getPhaseDuration(phase: MatchPhase): number {
+    switch (phase) {
+        case 'warmup': return WARMUP_DURATION_SECONDS;
+        case 'countdown': return COUNTDOWN_DURATION_SECONDS;
+        case 'overtime': return OVERTIME_DURATION_SECONDS;
+        case 'results': return RESULTS_DURATION_SECONDS;
+        default: return 0;
+    }
+}
+
+/**
+ * Decrements the phase timer.
+ * @returns true when the timer has run out.
+ */
+function tickPhaseTimer(state: ArenaState, dt: number): boolean {
+    state.phaseTimeRemaining = Math.max(0, state.phaseTimeRemaining - dt);
+    return state.phaseTimeRemaining <= 0;
+}
+
+/**
+ * Advances the timers of the current phase.
+ * @param humanPlayerCount Connected human players (warmup waits for MIN_HUMANS_TO_START).
+ * @returns The phase to enter next, or null if the match stays in the current phase.
+ */
+export function updateMatchPhase(state: ArenaState, dt: number, humanPlayerCount: number): MatchPhase | null {
+    switch (state.matchPhase) {
+        case 'warmup':
+            if (humanPlayerCount < MIN_HUMANS_TO_START) {
+                // Hold the warmup clock until enough players are present
+                state.phaseTimeRemaining = WARMUP_DURATION_SECONDS;
+                return null;
+            }
+            return tickPhaseTimer(state, dt) ? 'countdown' : null;
+        case 'countdown':
+            return tickPhaseTimer(state, dt) ? 'playing' : null;
+        case 'playing':
+            state.gameTimeRemaining = Math.max(0, state.gameTimeRemaining - dt);
+            if (state.gameTimeRemaining > 0) return null;
+            // Regulation over: a tie goes to sudden death
+            return state.redScore === state.blueScore ? 'overtime' : 'results';
+        case 'overtime':
+            // Sudden death: first capture ends the match
+            if (state.redScore !== state.blueScore) return 'results';
+            return tickPhaseTimer(state, dt) ? 'results' : null;
+        case 'results':
+            if (!tickPhaseTimer(state, dt)) return null;
+            return humanPlayerCount >= MIN_HUMANS_TO_START ? 'countdown' : 'warmup';
+        default:
+            console.warn(`[Match] Unknown match phase: ${state.matchPhase}. Returning to warmup.`);
+            return 'warmup';
+    }
+}
+
+/**
+ * Builds the results payload for the match that just ended,
+ * including a snapshot of every player's stats.
+ */
+export function buildMatchResults(state: ArenaState): MatchResults {
+    const results = new MatchResults();
+    results.redScore = state.redScore;
+    results.blueScore = state.blueScore;
+    results.decidedInOvertime = state.matchPhase === 'overtime';
+    if (state.redScore > state.blueScore) results.winner = 'Red';
+    else if (state.blueScore > state.redScore) results.winner = 'Blue';
+    else results.winner = 'Draw';
+
+    state.players.forEach((player, sessionId) => {
+        const line = new PlayerResult();
+        line.sessionId = sessionId;
+        line.name = player.name;
+        line.team = player.team;
+        line.isAI = player.isAI;
+        line.stats = player.stats.clone();
+        results.players.push(line);
+    });
+    // Best performers first
+    results.players.sort((a, b) => b.stats.captures - a.stats.captures || b.stats.steals - a.stats.steals);
+
+    return results;
+}
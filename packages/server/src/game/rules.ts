@@ -4,16 +4,15 @@
  * Core game rule logic (item pickup, scoring, stealing).
  */
 
-import { ArenaState, Player, FlagState } from "@smugglers-town/shared-schemas";
-import { RED_BASE_POS, BLUE_BASE_POS, PLAYER_EFFECTIVE_RADIUS, PLAYER_COLLISION_RADIUS_SQ } from "@smugglers-town/shared-utils";
+import { ArenaState, Player, FlagState, getTeamBase } from "@smugglers-town/shared-schemas";
+import { PLAYER_EFFECTIVE_RADIUS, PLAYER_COLLISION_RADIUS_SQ } from "@smugglers-town/shared-utils";
 import {
     PICKUP_RADIUS_SQ,
     BASE_RADIUS_SQ,
-    STEAL_COOLDOWN_MS,
     ITEM_START_POS,
     PHYSICS_IMPULSE_MAGNITUDE
 } from "../config/constants";
-import { distSq } from "@smugglers-town/shared-utils";
+import { distSq, GameEventDispatcher } from "@smugglers-town/shared-utils";
 
 // Define the velocity type locally
 type PlayerVelocity = { vx: number, vy: number };
@@ -33,9 +32,10 @@ function isPlayerCarryingItem(state: ArenaState, playerId: string): boolean {
 
 /**
  * Checks for item pickups by any player.
- * Modifies the item state if a pickup occurs.
+ * Modifies the item state and the player's pickup stats if a pickup occurs.
+ * Emits `item_picked_up`.
  */
-export function checkItemPickup(state: ArenaState, playerIds: string[]): void {
+export function checkItemPickup(state: ArenaState, playerIds: string[], events: GameEventDispatcher): void {
     // Iterate through all players first
     for (const sessionId of playerIds) {
         const player = state.players.get(sessionId);
@@ -51,14 +51,22 @@ export function checkItemPickup(state: ArenaState, playerIds: string[]): void {
             if (item.status !== 'available' && item.status !== 'dropped') {
                 continue; // Item not available for pickup
             }
+            if (item.thrownBy === sessionId) {
+                continue; // Own throw still sliding (see itemPhysics.ts)
+            }
 
             const dSq = distSq(player.x, player.y, item.x, item.y);
             if (dSq <= PICKUP_RADIUS_SQ) {
                 console.log(`[${sessionId}] Player ${player.name} picked up item ${item.id}!`);
+                events.emit({ type: 'item_picked_up', itemId: item.id, playerId: sessionId, x: item.x, y: item.y });
                 item.status = "carried";
                 item.carrierId = sessionId;
                 item.x = NaN; // Position is now determined by carrier
                 item.y = NaN;
+                item.vx = 0;
+                item.vy = 0;
+                item.thrownBy = "";
+                player.stats.pickups++;
                 // A player can only pick up one item per check cycle
                 return; // Exit function early after successful pickup
             }
@@ -68,9 +76,10 @@ export function checkItemPickup(state: ArenaState, playerIds: string[]): void {
 
 /**
  * Checks for scoring by any player carrying the item.
- * Modifies score and item state if scoring occurs.
+ * Modifies score, item state and the scorer's capture stats if scoring occurs.
+ * Emits `item_scored`.
  */
-export function checkScoring(state: ArenaState, playerIds: string[]): void {
+export function checkScoring(state: ArenaState, playerIds: string[], events: GameEventDispatcher): void {
     // Iterate through all items
     for (const item of state.items) {
         // Only check carried items
@@ -92,10 +101,10 @@ export function checkScoring(state: ArenaState, playerIds: string[]): void {
         let targetBasePos = null;
         let baseTeam: 'Red' | 'Blue' | null = null;
         if (carrier.team === 'Red') {
-            targetBasePos = RED_BASE_POS;
+            targetBasePos = getTeamBase(state, 'Red');
             baseTeam = 'Red';
         } else if (carrier.team === 'Blue') {
-            targetBasePos = BLUE_BASE_POS;
+            targetBasePos = getTeamBase(state, 'Blue');
             baseTeam = 'Blue';
         }
 
@@ -112,6 +121,8 @@ export function checkScoring(state: ArenaState, playerIds: string[]): void {
 
             if (dSq <= BASE_RADIUS_SQ) {
                 console.log(`[${item.carrierId}] Player ${carrier.name} (${carrier.team}) SCORED with item ${item.id}!`);
+                carrier.stats.captures++;
+                events.emit({ type: 'item_scored', itemId: item.id, playerId: item.carrierId, team: baseTeam, x: carrier.x, y: carrier.y });
 
                 // Update item state to 'scored' and place it at the base
                 item.status = 'scored';
@@ -144,18 +155,24 @@ interface CollisionCheckDebugData {
 
 /**
  * Checks for item stealing AND handles basic collision physics between players.
- * Modifies the item state if a steal occurs.
+ * Modifies the item state (and steal / robbed stats) if a steal occurs.
  * Modifies player velocities on collision.
+ * Emits `player_collision` when two cars first touch and `item_stolen` on a steal.
+ * @param contactPairs Pair keys of players touching since the previous tick; updated in place.
  * @returns CollisionCheckDebugData | null - Returns position data if a distance check was performed, null otherwise.
  */
 export function checkPlayerCollisionsAndStealing(
     state: ArenaState,
     playerIds: string[],
     playerVelocities: Map<string, PlayerVelocity>,
-    currentTime: number
+    currentTime: number,
+    events: GameEventDispatcher,
+    contactPairs: Set<string>
 ): CollisionCheckDebugData | null {
     let latestDebugData: CollisionCheckDebugData | null = null;
     const processedPairs = new Set<string>();
+    const previousContactPairs = new Set(contactPairs);
+    contactPairs.clear();
 
     // Define the forward offset for the collision check point
     const COLLISION_OFFSET = PLAYER_EFFECTIVE_RADIUS / 2; // Offset by HALF the radius
@@ -214,7 +231,16 @@ export function checkPlayerCollisionsAndStealing(
              // --------------------------
 
             if (dSq > 0 && dSq <= collisionThresholdSq) {
-                // Collision detected!
+                // Collision detected! Only report the first tick of a contact
+                contactPairs.add(pairKey);
+                if (!previousContactPairs.has(pairKey)) {
+                    events.emit({
+                        type: 'player_collision',
+                        playerIds: [p1Id, p2Id],
+                        x: (p1.x + p2.x) / 2,
+                        y: (p1.y + p2.y) / 2
+                    });
+                }
 
                 // --- Apply physics impulse --- (Only if not already processed this tick)
                 if (!processedPairs.has(pairKey)) {
@@ -253,7 +279,7 @@ export function checkPlayerCollisionsAndStealing(
                 for (const item of state.items) {
                     if (item.status === 'carried' &&
                         item.carrierId === p1Id &&
-                        currentTime >= item.lastStealTimestamp + STEAL_COOLDOWN_MS)
+                        currentTime >= item.lastStealTimestamp + state.matchConfig.stealCooldownMs)
                     {
                         // Check if p2 is already carrying an item
                         if (isPlayerCarryingItem(state, p2Id)) {
@@ -274,7 +300,7 @@ export function checkPlayerCollisionsAndStealing(
                     for (const item of state.items) {
                         if (item.status === 'carried' &&
                             item.carrierId === p2Id &&
-                            currentTime >= item.lastStealTimestamp + STEAL_COOLDOWN_MS)
+                            currentTime >= item.lastStealTimestamp + state.matchConfig.stealCooldownMs)
                         {
                             // Check if p1 is already carrying an item
                             if (isPlayerCarryingItem(state, p1Id)) {
@@ -298,6 +324,16 @@ export function checkPlayerCollisionsAndStealing(
                     carriedItem.lastStealTimestamp = currentTime;
                     carriedItem.x = NaN;
                     carriedItem.y = NaN;
+                    stealer.stats.steals++;
+                    carrier.stats.timesRobbed++;
+                    events.emit({
+                        type: 'item_stolen',
+                        itemId: carriedItem.id,
+                        fromPlayerId: carrierId,
+                        toPlayerId: stealerId,
+                        x: carrier.x,
+                        y: carrier.y
+                    });
                     // Potentially return specific steal debug data here if needed
                     // Note: steal happens even if physics impulse was already applied this tick
                 }
@@ -310,6 +346,17 @@ export function checkPlayerCollisionsAndStealing(
     return latestDebugData;
 }
 
+/**
+ * Adds the elapsed time to the timeCarrying stat of every item carrier.
+ */
+export function updateCarryTimeStats(state: ArenaState, dt: number): void {
+    state.items.forEach((item: FlagState) => {
+        if (item.status !== 'carried' || !item.carrierId) return;
+        const carrier = state.players.get(item.carrierId);
+        if (carrier) carrier.stats.timeCarrying += dt;
+    });
+}
+
 /**
  * Updates the visual position of the item if it's carried.
  */
@@ -325,15 +372,14 @@ export function updateCarriedItemPosition(state: ArenaState): void {
             item.x = carrier.x;
             item.y = carrier.y;
         } else {
-            // Carrier disconnected or removed - drop the item
+            // Carrier disconnected or removed - drop the item where the carrier was last seen
+            // (the origin if it was picked up this tick and never followed the carrier)
             console.warn(`Carried item position update: Carrier ${item.carrierId} for item ${item.id} not found. Dropping item.`);
             item.status = 'dropped';
-            // Position was likely already NaN, but setting it helps clarify intent?
-            // We need a valid position though! Try to guess based on last known good spot?
-            // For now, dropping at origin as a fallback.
-            // TODO: Store last known good position before carrier disconnect?
-            item.x = 0;
-            item.y = 0;
+            if (!isFinite(item.x) || !isFinite(item.y)) {
+                item.x = 0;
+                item.y = 0;
+            }
             item.carrierId = null;
         }
     });
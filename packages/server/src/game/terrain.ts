@@ -0,0 +1,44 @@
+/**
+ * terrain.ts
+ *
+ * Server side of terrain hazards, for humans and AI alike. The movement itself
+ * (park speed limit, sliding along buildings, the water check) is the shared
+ * `stepCarWithTerrain`; this applies the result: water sends the car back to its base.
+ */
+
+import { ArenaState, Player, getTeamBase } from "@smugglers-town/shared-schemas";
+import { CarMovementState, GameEventDispatcher, TerrainStepResult } from "@smugglers-town/shared-utils";
+
+type PlayerVelocity = { vx: number, vy: number };
+
+/**
+ * Moves the player to the car's position after a terrain step and updates its stats.
+ * Water: the car is reset to its base and `water_reset` is emitted.
+ * @returns True if the car reached the requested position (no wall, no water).
+ */
+export function applyTerrainStep(
+    player: Player,
+    sessionId: string,
+    velocity: PlayerVelocity,
+    car: CarMovementState,
+    result: TerrainStepResult,
+    state: ArenaState,
+    events: GameEventDispatcher
+): boolean {
+    if (result.inWater) {
+        console.log(`[${player.name}] Hit water hazard! Resetting to base.`);
+        const base = getTeamBase(state, player.team) ?? { x: 0, y: 0 };
+        player.x = base.x;
+        player.y = base.y;
+        velocity.vx = 0;
+        velocity.vy = 0;
+        player.justReset = true;
+        player.stats.waterResets++;
+        events.emit({ type: 'water_reset', playerId: sessionId, x: car.x, y: car.y });
+        return false;
+    }
+    player.stats.distanceDriven += Math.hypot(car.x - player.x, car.y - player.y);
+    player.x = car.x;
+    player.y = car.y;
+    return !result.hitWall;
+}
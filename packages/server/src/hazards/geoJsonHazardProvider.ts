@@ -0,0 +1,85 @@
+/**
+ * geoJsonHazardProvider.ts
+ *
+ * Terrain hazards from a local OSM/GeoJSON extract: water, park and building
+ * polygons around the world origin, converted to world meters. The same polygons
+ * are indexed for collisions and replicated to clients, so client prediction
+ * collides with exactly what the server does.
+ */
+
+import { HazardKind } from "@smugglers-town/shared-utils";
+import { HazardPolygon, HazardProvider } from "./types";
+import { HazardIndex, createHazardPolygon } from "./hazardIndex";
+import { loadGeoJsonFeatures, getPolygonRings, toWorldPoints } from "../utils/geoJsonLoader";
+
+// Hazards further than this from the origin are not loaded
+const HAZARD_LOAD_RADIUS_METERS = 1000;
+
+const WATER_NATURAL = new Set(['water', 'wetland', 'bay']);
+const WATER_LANDUSE = new Set(['reservoir', 'basin']);
+const PARK_LEISURE = new Set(['park', 'garden', 'playground', 'pitch', 'common']);
+const PARK_LANDUSE = new Set(['grass', 'recreation_ground', 'village_green', 'meadow', 'forest']);
+
+/**
+ * Hazard kind of an OSM feature from its tags, or null if it is not a hazard.
+ */
+function classifyFeature(tags: Record<string, any>): HazardKind | null {
+    if (tags.building && tags.building !== 'no') return 'building';
+    if (WATER_NATURAL.has(tags.natural) || WATER_LANDUSE.has(tags.landuse) || tags.waterway === 'riverbank' || tags.water) return 'water';
+    if (PARK_LEISURE.has(tags.leisure) || PARK_LANDUSE.has(tags.landuse) || tags.natural === 'wood') return 'park';
+    return null;
+}
+
+// Squared distance from the origin to a polygon's bounding box
+function distSqToOrigin(h: HazardPolygon): number {
+    const dx = Math.max(h.minX, 0, -h.maxX);
+    const dy = Math.max(h.minY, 0, -h.maxY);
+    return dx * dx + dy * dy;
+}
+
+export class GeoJsonHazardProvider implements HazardProvider {
+    readonly name = 'geojson';
+    private index = new HazardIndex();
+    private loadToken = 0;
+
+    constructor(private readonly dataDir?: string) {}
+
+    async setOrigin(originLng: number, originLat: number): Promise<void> {
+        // Ignore results of loads started before the latest origin change
+        const token = ++this.loadToken;
+        this.index.replace([]);
+
+        const features = await loadGeoJsonFeatures(this.dataDir);
+        if (token !== this.loadToken) return;
+
+        const hazards: HazardPolygon[] = [];
+        for (const feature of features) {
+            const kind = classifyFeature(feature.properties ?? {});
+            if (!kind) continue;
+            for (const ring of getPolygonRings(feature.geometry)) {
+                // Rounded to 10 cm to keep the replicated state small
+                const points = toWorldPoints(ring, originLng, originLat)
+                    .map(p => ({ x: Math.round(p.x * 10) / 10, y: Math.round(p.y * 10) / 10 }));
+                if (points.length < 3) continue;
+                // Bounding box test, so large polygons (rivers) around the origin count too
+                const hazard = createHazardPolygon(kind, points);
+                if (distSqToOrigin(hazard) <= HAZARD_LOAD_RADIUS_METERS ** 2) hazards.push(hazard);
+            }
+        }
+
+        this.index.replace(hazards);
+        console.log(`[GeoJsonHazardProvider] Indexed ${this.index.all.length} hazards around (${originLat}, ${originLng}).`);
+    }
+
+    getHazards(): readonly HazardPolygon[] {
+        return this.index.all;
+    }
+
+    hazardAt(x: number, y: number): HazardPolygon | null {
+        return this.index.hazardAt(x, y);
+    }
+
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): HazardPolygon[] {
+        return this.index.queryRect(minX, minY, maxX, maxY);
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * hazardIndex.ts
+ *
+ * Spatial index over hazard polygons, shared by the hazard providers.
+ */
+
+import { HazardKind, findHazardAt } from "@smugglers-town/shared-utils";
+import { SpatialGrid } from "../utils/spatialGrid";
+import { HazardPolygon } from "./types";
+
+const GRID_CELL_SIZE_METERS = 25;
+
+/**
+ * Builds a hazard polygon (with bounding box) from world points.
+ */
+export function createHazardPolygon(kind: HazardKind, points: { x: number, y: number }[]): HazardPolygon {
+    const flat: number[] = [];
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    points.forEach(p => {
+        flat.push(p.x, p.y);
+        minX = Math.min(minX, p.x);
+        minY = Math.min(minY, p.y);
+        maxX = Math.max(maxX, p.x);
+        maxY = Math.max(maxY, p.y);
+    });
+    return { kind, points: flat, minX, minY, maxX, maxY };
+}
+
+export class HazardIndex {
+    private hazards: HazardPolygon[] = [];
+    private grid = new SpatialGrid<HazardPolygon>(GRID_CELL_SIZE_METERS);
+
+    get all(): readonly HazardPolygon[] {
+        return this.hazards;
+    }
+
+    replace(hazards: HazardPolygon[]): void {
+        this.hazards = hazards;
+        this.grid.clear();
+        hazards.forEach(h => this.grid.insert(h, h.minX, h.minY, h.maxX, h.maxY));
+    }
+
+    hazardAt(x: number, y: number): HazardPolygon | null {
+        return findHazardAt(x, y, this.grid.queryPoint(x, y));
+    }
+
+    /**
+     * Hazards whose bounding box touches the rectangle.
+     */
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): HazardPolygon[] {
+        return this.grid.queryRect(minX, minY, maxX, maxY);
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * index.ts
+ *
+ * Hazard provider selection. Set HAZARD_PROVIDER to:
+ * - "geojson" (default): water/park/building polygons from the GeoJSON extracts in MAP_DATA_DIR
+ *   (without any extract there, FALLBACK_HAZARDS are used instead)
+ * - "none": no terrain hazards
+ */
+
+import { HazardProvider } from "./types";
+import { GeoJsonHazardProvider } from "./geoJsonHazardProvider";
+import { StaticHazard, StaticHazardProvider } from "./staticHazardProvider";
+import { hasGeoJsonFiles, MAP_DATA_DIR } from "../utils/geoJsonLoader";
+
+export type { HazardProvider, HazardPolygon } from "./types";
+export { GeoJsonHazardProvider } from "./geoJsonHazardProvider";
+export { StaticHazardProvider } from "./staticHazardProvider";
+export type { StaticHazard } from "./staticHazardProvider";
+
+// The classic lake west of the origin, for servers without map data
+export const FALLBACK_HAZARDS: StaticHazard[] = [
+    { kind: 'water', points: [{ x: -600, y: -200 }, { x: -500, y: -200 }, { x: -500, y: 200 }, { x: -600, y: 200 }] },
+];
+
+function createGeoJsonHazardProvider(): HazardProvider {
+    if (hasGeoJsonFiles()) return new GeoJsonHazardProvider();
+    console.warn(`[Hazards] No GeoJSON map data in ${MAP_DATA_DIR}. Using the built-in fallback hazards.`);
+    return new StaticHazardProvider(FALLBACK_HAZARDS);
+}
+
+export function createHazardProvider(kind: string = process.env.HAZARD_PROVIDER || 'geojson'): HazardProvider {
+    switch (kind) {
+        case 'geojson':
+            return createGeoJsonHazardProvider();
+        case 'none':
+            return new StaticHazardProvider();
+        default:
+            console.warn(`[Hazards] Unknown HAZARD_PROVIDER "${kind}". Falling back to geojson.`);
+            return createGeoJsonHazardProvider();
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * staticHazardProvider.ts
+ *
+ * Fixed, in-memory hazard layout in world meters. Used by simulations,
+ * and with no hazards when terrain hazards are disabled.
+ */
+
+import { HazardKind } from "@smugglers-town/shared-utils";
+import { HazardPolygon, HazardProvider } from "./types";
+import { HazardIndex, createHazardPolygon } from "./hazardIndex";
+
+export type StaticHazard = { kind: HazardKind; points: { x: number, y: number }[] };
+
+export class StaticHazardProvider implements HazardProvider {
+    readonly name = 'static';
+    private index = new HazardIndex();
+
+    constructor(hazards: StaticHazard[] = []) {
+        this.index.replace(hazards.map(h => createHazardPolygon(h.kind, h.points)));
+    }
+
+    async setOrigin(): Promise<void> {
+        // Layout is relative to whatever origin is active
+    }
+
+    getHazards(): readonly HazardPolygon[] {
+        return this.index.all;
+    }
+
+    hazardAt(x: number, y: number): HazardPolygon | null {
+        return this.index.hazardAt(x, y);
+    }
+
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): HazardPolygon[] {
+        return this.index.queryRect(minX, minY, maxX, maxY);
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * types.ts
+ *
+ * Terrain hazard provider interface. Like road providers, hazards are loaded
+ * in the background when the origin changes and queried synchronously per tick.
+ */
+
+import { HazardKind } from "@smugglers-town/shared-utils";
+
+// A hazard polygon in world meters with its bounding box
+export interface HazardPolygon {
+    kind: HazardKind;
+    points: number[]; // Outer ring [x0, y0, x1, y1, ...]
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export interface HazardProvider {
+    /** Provider name for logs */
+    readonly name: string;
+
+    /**
+     * Prepares hazards around a new world origin.
+     * Until the returned promise resolves, there are no hazards.
+     */
+    setOrigin(originLng: number, originLat: number): Promise<void>;
+
+    /**
+     * Every hazard, replicated to clients (the same set queryRect and hazardAt search).
+     */
+    getHazards(): readonly HazardPolygon[];
+
+    /**
+     * Every indexed hazard whose bounding box touches the rectangle (world meters).
+     */
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): HazardPolygon[];
+
+    /**
+     * The hazard at a world position (buildings first, then water, then parks), or null.
+     */
+    hazardAt(x: number, y: number): HazardPolygon | null;
+}
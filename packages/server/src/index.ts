@@ -50,7 +50,9 @@ const gameServer = new Server({
 
 // Define "arena" room
 // This name ("arena") will be used by the client to connect
-gameServer.define('arena', ArenaRoom);
+// Rooms are filtered by lobbyId: players handed off from the same lobby share a room,
+// and quick-play clients (no lobbyId) only match rooms created without one
+gameServer.define('arena', ArenaRoom).filterBy(['lobbyId']);
 
 // Register Colyseus monitor AFTER room definitions
 // (accessible at /colyseus on this server)
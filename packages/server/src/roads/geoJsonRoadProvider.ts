@@ -0,0 +1,110 @@
+/**
+ * geoJsonRoadProvider.ts
+ *
+ * Road detection from a local OSM/GeoJSON extract. Road centerlines around the
+ * world origin are converted to world meters and indexed in a spatial grid,
+ * so point-on-road queries are cheap enough to run every tick.
+ */
+
+import { RoadLine, RoadProvider } from "./types";
+import { SpatialGrid } from "../utils/spatialGrid";
+import { distSqToSegment } from "../utils/geometry";
+import {
+    loadGeoJsonFeatures,
+    getLineStrings,
+    toWorldPoints,
+    isNearOrigin
+} from "../utils/geoJsonLoader";
+
+// Roads further than this from the origin are not loaded
+const ROAD_LOAD_RADIUS_METERS = 2000;
+const GRID_CELL_SIZE_METERS = 25;
+const DEFAULT_ROAD_HALF_WIDTH = 5; // meters
+
+// Half widths (meters) by OSM highway class
+const ROAD_HALF_WIDTHS: Record<string, number> = {
+    motorway: 12,
+    trunk: 10,
+    primary: 9,
+    secondary: 8,
+    tertiary: 7,
+    unclassified: 5,
+    residential: 5,
+    living_street: 4,
+    service: 3.5,
+    track: 3,
+};
+
+// OSM highway classes that are not drivable
+const NON_DRIVABLE_HIGHWAYS = new Set([
+    'footway', 'path', 'cycleway', 'steps', 'bridleway', 'pedestrian', 'corridor', 'elevator', 'platform', 'proposed', 'construction'
+]);
+
+type RoadSegment = { ax: number; ay: number; bx: number; by: number; halfWidthSq: number };
+
+export class GeoJsonRoadProvider implements RoadProvider {
+    readonly name = 'geojson';
+    private lines: RoadLine[] = [];
+    private segmentIndex = new SpatialGrid<RoadSegment>(GRID_CELL_SIZE_METERS);
+    private loadToken = 0;
+
+    constructor(private readonly dataDir?: string) {}
+
+    async setOrigin(originLng: number, originLat: number): Promise<void> {
+        // Ignore results of loads started before the latest origin change
+        const token = ++this.loadToken;
+        this.lines = [];
+        this.segmentIndex.clear();
+
+        const features = await loadGeoJsonFeatures(this.dataDir);
+        if (token !== this.loadToken) return;
+
+        const lines: RoadLine[] = [];
+        for (const feature of features) {
+            const highway = feature.properties?.highway;
+            if (typeof highway !== 'string' || NON_DRIVABLE_HIGHWAYS.has(highway)) continue;
+            const halfWidth = ROAD_HALF_WIDTHS[highway] ?? DEFAULT_ROAD_HALF_WIDTH;
+            for (const positions of getLineStrings(feature.geometry)) {
+                const points = toWorldPoints(positions, originLng, originLat);
+                if (points.length >= 2 && isNearOrigin(points, ROAD_LOAD_RADIUS_METERS)) {
+                    lines.push({ points, halfWidth, highway });
+                }
+            }
+        }
+
+        this.lines = lines;
+        this.buildIndex(lines);
+        console.log(`[GeoJsonRoadProvider] Indexed ${lines.length} road lines around (${originLat}, ${originLng}).`);
+    }
+
+    isOnRoad(x: number, y: number): boolean {
+        for (const seg of this.segmentIndex.queryPoint(x, y)) {
+            if (distSqToSegment(x, y, seg.ax, seg.ay, seg.bx, seg.by) <= seg.halfWidthSq) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    getRoadLines(): readonly RoadLine[] {
+        return this.lines;
+    }
+
+    private buildIndex(lines: RoadLine[]): void {
+        for (const line of lines) {
+            const halfWidthSq = line.halfWidth * line.halfWidth;
+            for (let i = 0; i < line.points.length - 1; i++) {
+                const a = line.points[i];
+                const b = line.points[i + 1];
+                // Register the segment's bounding box grown by the road half width
+                this.segmentIndex.insert(
+                    { ax: a.x, ay: a.y, bx: b.x, by: b.y, halfWidthSq },
+                    Math.min(a.x, b.x) - line.halfWidth,
+                    Math.min(a.y, b.y) - line.halfWidth,
+                    Math.max(a.x, b.x) + line.halfWidth,
+                    Math.max(a.y, b.y) + line.halfWidth
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * index.ts
+ *
+ * Road provider selection. Set ROAD_PROVIDER to:
+ * - "geojson" (default): local GeoJSON road extract in MAP_DATA_DIR (without one, no roads)
+ * - "mapbox": Mapbox Tilequery API (needs MAPBOX_ACCESS_TOKEN)
+ * - "none": road speed boost disabled
+ */
+
+import { RoadProvider } from "./types";
+import { GeoJsonRoadProvider } from "./geoJsonRoadProvider";
+import { MapboxRoadProvider } from "./mapboxRoadProvider";
+import { StaticRoadProvider } from "./staticRoadProvider";
+import { hasGeoJsonFiles, MAP_DATA_DIR } from "../utils/geoJsonLoader";
+
+export type { RoadProvider, RoadLine } from "./types";
+export { GeoJsonRoadProvider } from "./geoJsonRoadProvider";
+export { MapboxRoadProvider } from "./mapboxRoadProvider";
+export { StaticRoadProvider } from "./staticRoadProvider";
+export type { RoadRect } from "./staticRoadProvider";
+export { RoadGraph } from "./roadGraph";
+
+function createGeoJsonRoadProvider(): RoadProvider {
+    if (hasGeoJsonFiles()) return new GeoJsonRoadProvider();
+    console.warn(`[Roads] No GeoJSON map data in ${MAP_DATA_DIR}. Road speed boost disabled (or set ROAD_PROVIDER=mapbox).`);
+    return new StaticRoadProvider();
+}
+
+export function createRoadProvider(kind: string = process.env.ROAD_PROVIDER || 'geojson'): RoadProvider {
+    switch (kind) {
+        case 'geojson':
+            return createGeoJsonRoadProvider();
+        case 'mapbox':
+            return new MapboxRoadProvider();
+        case 'none':
+            return new StaticRoadProvider();
+        default:
+            console.warn(`[Roads] Unknown ROAD_PROVIDER "${kind}". Falling back to geojson.`);
+            return createGeoJsonRoadProvider();
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * mapboxRoadProvider.ts
+ *
+ * Road detection through the Mapbox Tilequery API. Results are cached per grid
+ * cell; a cache miss answers false and starts a background query.
+ * Requires MAPBOX_ACCESS_TOKEN and costs one API call per new cell.
+ */
+
+import { worldToGeo } from "@smugglers-town/shared-utils";
+import { RoadLine, RoadProvider } from "./types";
+import { getMapFeaturesAtPoint, responseHasRoad } from "../utils/mapApiUtils";
+
+const CACHE_CELL_SIZE_METERS = 10;
+const MAX_IN_FLIGHT_QUERIES = 4;
+
+export class MapboxRoadProvider implements RoadProvider {
+    readonly name = 'mapbox';
+    private originLng = 0;
+    private originLat = 0;
+    private cellCache = new Map<string, boolean>();
+    private pendingCells = new Set<string>();
+    private originVersion = 0;
+
+    async setOrigin(originLng: number, originLat: number): Promise<void> {
+        this.originLng = originLng;
+        this.originLat = originLat;
+        this.originVersion++;
+        this.cellCache.clear();
+        this.pendingCells.clear();
+    }
+
+    isOnRoad(x: number, y: number): boolean {
+        const cx = Math.floor(x / CACHE_CELL_SIZE_METERS);
+        const cy = Math.floor(y / CACHE_CELL_SIZE_METERS);
+        const key = `${cx},${cy}`;
+        const cached = this.cellCache.get(key);
+        if (cached !== undefined) return cached;
+
+        if (!this.pendingCells.has(key) && this.pendingCells.size < MAX_IN_FLIGHT_QUERIES) {
+            this.queryCell(key, (cx + 0.5) * CACHE_CELL_SIZE_METERS, (cy + 0.5) * CACHE_CELL_SIZE_METERS);
+        }
+        return false;
+    }
+
+    getRoadLines(): readonly RoadLine[] {
+        // Tilequery answers points, not road geometry
+        return [];
+    }
+
+    private queryCell(key: string, x: number, y: number): void {
+        const version = this.originVersion;
+        const [lng, lat] = worldToGeo(x, y, this.originLng, this.originLat);
+        this.pendingCells.add(key);
+        getMapFeaturesAtPoint(lng, lat)
+            .then(response => {
+                // Drop answers for a previous origin
+                if (version !== this.originVersion) return;
+                this.cellCache.set(key, responseHasRoad(response));
+            })
+            .finally(() => {
+                if (version === this.originVersion) this.pendingCells.delete(key);
+            });
+    }
+}
@@ -0,0 +1,147 @@
+/**
+ * roadGraph.ts
+ *
+ * Routing graph over road centerlines, for AI drivers. Line vertices become nodes
+ * (vertices at the same position, like OSM nodes shared at intersections, are merged)
+ * and long segments are split so cars can join a road near where they are.
+ * Routes are found with A*. Costs are in off-road meters: a meter of road costs
+ * 1 / roadSpeedMultiplier, so a detour over roads wins when it is faster.
+ */
+
+import { RoadLine } from "./types";
+import { WorldPoint } from "../utils/geoJsonLoader";
+import { SpatialGrid } from "../utils/spatialGrid";
+import { PriorityQueue } from "../utils/priorityQueue";
+
+// Vertices closer than this are the same node
+const NODE_MERGE_PRECISION_METERS = 0.5;
+const MAX_EDGE_LENGTH_METERS = 20;
+const NODE_GRID_CELL_SIZE_METERS = 50;
+// Roads further than this from the start or the goal are not used
+const MAX_ROAD_ACCESS_METERS = 150;
+
+type Edge = { to: number; length: number };
+
+export class RoadGraph {
+    private nodes: WorldPoint[] = [];
+    private edges: Edge[][] = [];
+    private nodeIds = new Map<string, number>();
+    private nodeGrid = new SpatialGrid<number>(NODE_GRID_CELL_SIZE_METERS);
+
+    constructor(lines: readonly RoadLine[] = []) {
+        lines.forEach(line => {
+            for (let i = 0; i < line.points.length - 1; i++) {
+                this.addSegment(line.points[i], line.points[i + 1]);
+            }
+        });
+    }
+
+    get nodeCount(): number {
+        return this.nodes.length;
+    }
+
+    /**
+     * Waypoints for the fastest way from one point to another: road nodes (if roads are
+     * faster than driving straight) followed by the goal itself. The start is not included.
+     */
+    findRoute(fromX: number, fromY: number, toX: number, toY: number, roadSpeedMultiplier: number): WorldPoint[] {
+        const goal = { x: toX, y: toY };
+        const entry = this.nearestNode(fromX, fromY, MAX_ROAD_ACCESS_METERS);
+        const exit = this.nearestNode(toX, toY, MAX_ROAD_ACCESS_METERS);
+        if (entry === null || exit === null || entry === exit) return [goal];
+
+        const route = this.aStar(entry, exit, roadSpeedMultiplier);
+        if (!route) return [goal];
+
+        const entryPoint = this.nodes[entry];
+        const exitPoint = this.nodes[exit];
+        const directCost = Math.hypot(toX - fromX, toY - fromY);
+        const routeCost = Math.hypot(entryPoint.x - fromX, entryPoint.y - fromY)
+            + route.cost
+            + Math.hypot(toX - exitPoint.x, toY - exitPoint.y);
+        if (routeCost >= directCost) return [goal];
+
+        return [...route.nodes.map(id => this.nodes[id]), goal];
+    }
+
+    /**
+     * Closest node within maxDistance of the point, or null.
+     */
+    nearestNode(x: number, y: number, maxDistance: number): number | null {
+        let nearest: number | null = null;
+        let nearestDistSq = maxDistance * maxDistance;
+        for (const id of this.nodeGrid.queryRect(x - maxDistance, y - maxDistance, x + maxDistance, y + maxDistance)) {
+            const node = this.nodes[id];
+            const distSq = (node.x - x) ** 2 + (node.y - y) ** 2;
+            if (distSq <= nearestDistSq) {
+                nearest = id;
+                nearestDistSq = distSq;
+            }
+        }
+        return nearest;
+    }
+
+    private aStar(start: number, goal: number, roadSpeedMultiplier: number): { nodes: number[], cost: number } | null {
+        const goalPoint = this.nodes[goal];
+        const heuristic = (id: number) => Math.hypot(this.nodes[id].x - goalPoint.x, this.nodes[id].y - goalPoint.y) / roadSpeedMultiplier;
+        const costSoFar = new Map<number, number>([[start, 0]]);
+        const cameFrom = new Map<number, number>();
+        const closed = new Set<number>();
+        const open = new PriorityQueue<number>();
+        open.push(start, heuristic(start));
+
+        while (open.size > 0) {
+            const current = open.pop()!;
+            if (current === goal) {
+                const nodes = [goal];
+                for (let id = goal; cameFrom.has(id);) {
+                    id = cameFrom.get(id)!;
+                    nodes.push(id);
+                }
+                return { nodes: nodes.reverse(), cost: costSoFar.get(goal)! };
+            }
+            if (closed.has(current)) continue;
+            closed.add(current);
+
+            const currentCost = costSoFar.get(current)!;
+            for (const edge of this.edges[current]) {
+                const cost = currentCost + edge.length / roadSpeedMultiplier;
+                if (cost < (costSoFar.get(edge.to) ?? Infinity)) {
+                    costSoFar.set(edge.to, cost);
+                    cameFrom.set(edge.to, current);
+                    open.push(edge.to, cost + heuristic(edge.to));
+                }
+            }
+        }
+        return null; // Not connected
+    }
+
+    // Adds a road segment, split into edges of at most MAX_EDGE_LENGTH_METERS
+    private addSegment(a: WorldPoint, b: WorldPoint): void {
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        const pieces = Math.max(1, Math.ceil(length / MAX_EDGE_LENGTH_METERS));
+        let previous = this.getNode(a.x, a.y);
+        for (let i = 1; i <= pieces; i++) {
+            const t = i / pieces;
+            const next = this.getNode(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t);
+            if (next !== previous) {
+                this.edges[previous].push({ to: next, length: length / pieces });
+                this.edges[next].push({ to: previous, length: length / pieces });
+            }
+            previous = next;
+        }
+    }
+
+    private getNode(x: number, y: number): number {
+        const key = `${Math.round(x / NODE_MERGE_PRECISION_METERS)},${Math.round(y / NODE_MERGE_PRECISION_METERS)}`;
+        let id = this.nodeIds.get(key);
+        if (id === undefined) {
+            id = this.nodes.length;
+            this.nodes.push({ x, y });
+            this.edges.push([]);
+            this.nodeIds.set(key, id);
+            this.nodeGrid.insert(id, x, y, x, y);
+        }
+        return id;
+    }
+}
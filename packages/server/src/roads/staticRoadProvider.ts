@@ -0,0 +1,40 @@
+/**
+ * staticRoadProvider.ts
+ *
+ * Fixed, in-memory road layout in world meters. Used by tests and simulations
+ * (fake provider), and with no rectangles when road detection is disabled.
+ */
+
+import { isPointInRectangle } from "@smugglers-town/shared-utils";
+import { RoadLine, RoadProvider } from "./types";
+
+export type RoadRect = { minX: number; minY: number; maxX: number; maxY: number };
+
+export class StaticRoadProvider implements RoadProvider {
+    readonly name = 'static';
+
+    constructor(private readonly roads: RoadRect[] = []) {}
+
+    async setOrigin(): Promise<void> {
+        // Layout is relative to whatever origin is active
+    }
+
+    isOnRoad(x: number, y: number): boolean {
+        return this.roads.some(rect => isPointInRectangle(x, y, rect));
+    }
+
+    /**
+     * One centerline per rectangle, along its long side. Crossing rectangles are not connected.
+     */
+    getRoadLines(): readonly RoadLine[] {
+        return this.roads.map(rect => {
+            const centerX = (rect.minX + rect.maxX) / 2;
+            const centerY = (rect.minY + rect.maxY) / 2;
+            const width = rect.maxX - rect.minX;
+            const height = rect.maxY - rect.minY;
+            return width >= height
+                ? { points: [{ x: rect.minX, y: centerY }, { x: rect.maxX, y: centerY }], halfWidth: height / 2, highway: 'static' }
+                : { points: [{ x: centerX, y: rect.minY }, { x: centerX, y: rect.maxY }], halfWidth: width / 2, highway: 'static' };
+        });
+    }
+}
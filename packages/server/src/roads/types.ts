@@ -0,0 +1,37 @@
+/**
+ * types.ts
+ *
+ * Road detection provider interface. Providers answer point-on-road queries
+ * synchronously every tick; any network or disk I/O happens in the background.
+ */
+
+import { WorldPoint } from "../utils/geoJsonLoader";
+
+// A drivable road centerline in world meters
+export interface RoadLine {
+    points: WorldPoint[];
+    halfWidth: number;
+    highway: string;
+}
+
+export interface RoadProvider {
+    /** Provider name for logs */
+    readonly name: string;
+
+    /**
+     * Prepares road data around a new world origin.
+     * Until the returned promise resolves, queries may answer false.
+     */
+    setOrigin(originLng: number, originLat: number): Promise<void>;
+
+    /**
+     * Whether a world position (meters, relative to the current origin) is on a road.
+     */
+    isOnRoad(x: number, y: number): boolean;
+
+    /**
+     * Road centerlines around the current origin, for the AI road graph.
+     * Providers without line geometry return none (bots then drive straight).
+     */
+    getRoadLines(): readonly RoadLine[];
+}
@@ -0,0 +1,34 @@
+/**
+ * auditLog.ts
+ *
+ * Structured log of anti-cheat decisions: one JSON line per entry (prefixed with [Audit]),
+ * so violations, warnings and kicks can be grepped and parsed from the server output.
+ */
+
+import { InputViolation } from "./inputValidation";
+
+export type AuditAction = 'strike' | 'warn' | 'kick';
+
+export interface AuditEntry {
+    time: string; // ISO timestamp
+    roomId: string;
+    sessionId: string;
+    action: AuditAction;
+    violation: InputViolation;
+    strikes: number;
+    // Further violations since the previous entry that were not logged on their own
+    suppressed: number;
+    detail?: string;
+}
+
+export type AuditSink = (entry: AuditEntry) => void;
+
+export const consoleAuditSink: AuditSink = entry => console.warn(`[Audit] ${JSON.stringify(entry)}`);
+
+export class AuditLog {
+    constructor(private readonly roomId: string, private readonly sink: AuditSink = consoleAuditSink) {}
+
+    record(entry: Omit<AuditEntry, 'time' | 'roomId'>): void {
+        this.sink({ time: new Date().toISOString(), roomId: this.roomId, ...entry });
+    }
+}
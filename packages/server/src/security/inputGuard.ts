@@ -0,0 +1,131 @@
+/**
+ * inputGuard.ts
+ *
+ * Per-client anti-cheat for the "input" message stream: schema validation and clamping
+ * (inputValidation.ts), a token-bucket rate limit and sequence checks. Violations earn strikes,
+ * which wear off over time; WARN_STRIKES warns the client and MAX_STRIKES kicks it.
+ * Strikes and their violations are written to the audit log.
+ */
+
+import { InputMessage, SERVER_TICK_RATE } from "@smugglers-town/shared-utils";
+import { AuditLog } from "./auditLog";
+import { InputViolation, parseInputMessage } from "./inputValidation";
+
+// Clients send one input per simulation step; the slack covers frame hitches and network bursts
+const INPUT_RATE_PER_SECOND = SERVER_TICK_RATE * 1.5;
+const INPUT_BURST = SERVER_TICK_RATE; // A second's worth arriving at once (e.g. after a stall)
+// seq counts client steps, so it can't get further ahead than this between two messages
+const MAX_SEQ_JUMP = SERVER_TICK_RATE * 10;
+// At most one strike per interval: a burst of bad messages (e.g. a lag spike) costs one strike
+const STRIKE_INTERVAL_MS = 1000;
+// One strike wears off after this long without a new one
+const STRIKE_DECAY_MS = 30_000;
+export const WARN_STRIKES = 3;
+export const MAX_STRIKES = 6;
+// Longest message excerpt kept in an audit entry
+const MAX_DETAIL_LENGTH = 200;
+
+export type InputGuardAction = 'none' | 'warn' | 'kick';
+
+export interface InputCheck {
+    input: InputMessage | null; // Input to apply, or null if the message is dropped
+    action: InputGuardAction;
+    strikes: number;
+    violation?: InputViolation;
+}
+
+interface ClientRecord {
+    tokens: number;
+    lastRefillMs: number;
+    lastSeq: number; // 0 until the first accepted input
+    strikes: number;
+    lastStrikeMs: number;
+    suppressed: number; // Violations since the last strike
+}
+
+function describe(message: unknown): string {
+    const text = typeof message === 'object' ? JSON.stringify(message) : String(message);
+    return (text ?? String(message)).slice(0, MAX_DETAIL_LENGTH);
+}
+
+export class InputGuard {
+    private clients = new Map<string, ClientRecord>();
+
+    constructor(private readonly audit: AuditLog) {}
+
+    /**
+     * Checks one "input" message from a client.
+     * @param nowMs Current time in milliseconds (Date.now()).
+     */
+    check(sessionId: string, message: unknown, nowMs: number): InputCheck {
+        const record = this.getRecord(sessionId, nowMs);
+        this.decayStrikes(record, nowMs);
+
+        // Rate limit first: a flood is dropped before any further work
+        record.tokens = Math.min(INPUT_BURST, record.tokens + (nowMs - record.lastRefillMs) / 1000 * INPUT_RATE_PER_SECOND);
+        record.lastRefillMs = nowMs;
+        if (record.tokens < 1) return this.violate(sessionId, record, 'rate_limit', null, nowMs);
+        record.tokens -= 1;
+
+        const { input, violation } = parseInputMessage(message);
+        if (!input) return this.violate(sessionId, record, violation ?? 'malformed', null, nowMs, describe(message));
+        if (input.seq <= record.lastSeq) {
+            return this.violate(sessionId, record, 'seq_replay', null, nowMs, `seq ${input.seq} after ${record.lastSeq}`);
+        }
+        if (record.lastSeq > 0 && input.seq - record.lastSeq > MAX_SEQ_JUMP) {
+            return this.violate(sessionId, record, 'seq_jump', null, nowMs, `seq ${input.seq} after ${record.lastSeq}`);
+        }
+        record.lastSeq = input.seq;
+        if (violation) return this.violate(sessionId, record, violation, input, nowMs, describe(message));
+        return { input, action: 'none', strikes: record.strikes };
+    }
+
+    /**
+     * Accepts any sequence number next, e.g. after a reconnect (a reloaded client counts from 1 again).
+     */
+    resetSequence(sessionId: string): void {
+        const record = this.clients.get(sessionId);
+        if (record) record.lastSeq = 0;
+    }
+
+    forget(sessionId: string): void {
+        this.clients.delete(sessionId);
+    }
+
+    private getRecord(sessionId: string, nowMs: number): ClientRecord {
+        let record = this.clients.get(sessionId);
+        if (!record) {
+            record = { tokens: INPUT_BURST, lastRefillMs: nowMs, lastSeq: 0, strikes: 0, lastStrikeMs: -Infinity, suppressed: 0 };
+            this.clients.set(sessionId, record);
+        }
+        return record;
+    }
+
+    private decayStrikes(record: ClientRecord, nowMs: number): void {
+        if (record.strikes === 0) return;
+        const periods = Math.floor((nowMs - record.lastStrikeMs) / STRIKE_DECAY_MS);
+        if (periods <= 0) return;
+        record.strikes = Math.max(0, record.strikes - periods);
+        record.lastStrikeMs += periods * STRIKE_DECAY_MS;
+    }
+
+    private violate(sessionId: string, record: ClientRecord, violation: InputViolation, input: InputMessage | null, nowMs: number, detail?: string): InputCheck {
+        if (nowMs - record.lastStrikeMs < STRIKE_INTERVAL_MS) {
+            record.suppressed++;
+            return { input, action: 'none', strikes: record.strikes, violation };
+        }
+        record.strikes++;
+        record.lastStrikeMs = nowMs;
+        const action: InputGuardAction = record.strikes >= MAX_STRIKES ? 'kick' : record.strikes >= WARN_STRIKES ? 'warn' : 'none';
+        this.audit.record({
+            sessionId,
+            action: action === 'none' ? 'strike' : action,
+            violation,
+            strikes: record.strikes,
+            suppressed: record.suppressed,
+            detail,
+        });
+        record.suppressed = 0;
+        return { input: action === 'kick' ? null : input, action, strikes: record.strikes, violation };
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * inputValidation.ts
+ *
+ * Schema check for the "input" message: dx/dy must be finite numbers and seq a positive
+ * integer. Directions longer than MAX_INPUT_MAGNITUDE are clamped rather than rejected.
+ * `throw` counts only if it is exactly true.
+ */
+
+import { InputMessage, MAX_INPUT_MAGNITUDE } from "@smugglers-town/shared-utils";
+
+export type InputViolation =
+    | 'malformed' // Not an { dx, dy, seq } object of finite numbers (dropped)
+    | 'magnitude' // (dx, dy) longer than MAX_INPUT_MAGNITUDE (clamped, then applied)
+    | 'rate_limit' // More messages than a client's fixed step sends (dropped)
+    | 'seq_replay' // seq not above the last accepted one (dropped)
+    | 'seq_jump'; // seq further ahead than a client can count (dropped)
+
+// Float noise allowed above MAX_INPUT_MAGNITUDE before it counts as a violation
+const MAGNITUDE_TOLERANCE = 1e-6;
+
+export interface ParsedInput {
+    input: InputMessage | null; // null if the message is unusable
+    violation?: InputViolation;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Validates a raw "input" message and clamps its direction.
+ */
+export function parseInputMessage(message: unknown): ParsedInput {
+    if (typeof message !== 'object' || message === null) return { input: null, violation: 'malformed' };
+    const { dx, dy, seq, throw: throwItem } = message as Record<string, unknown>;
+    if (!isFiniteNumber(dx) || !isFiniteNumber(dy) || !isFiniteNumber(seq) || !Number.isSafeInteger(seq) || seq < 1) {
+        return { input: null, violation: 'malformed' };
+    }
+    const extra = throwItem === true ? { throw: true } : {};
+
+    const magnitude = Math.hypot(dx, dy);
+    if (magnitude <= MAX_INPUT_MAGNITUDE + MAGNITUDE_TOLERANCE) return { input: { dx, dy, seq, ...extra } };
+    const scale = MAX_INPUT_MAGNITUDE / magnitude;
+    return { input: { dx: dx * scale, dy: dy * scale, seq, ...extra }, violation: 'magnitude' };
+}
@@ -0,0 +1,54 @@
+/**
+ * lobbyHandoff.ts
+ *
+ * Checks the lobby settings an "arena" room is created with. The first player handed off
+ * from a lobby creates its room with the handoff options, so they come from a client.
+ * The Firebase lobby API (firebase/functions/src/lobbies.ts) signs them with an HMAC-SHA256
+ * over LOBBY_HANDOFF_SECRET, which this server shares; a room whose options don't match the
+ * signature is not created. Without the secret, lobby options are trusted as sent, which is
+ * only meant for local development.
+ */
+
+import crypto from "crypto";
+
+// The options the lobby API hands off (MatchHandoff in lobbies.ts), without the signature
+export interface LobbyHandoffOptions {
+    lobbyId: string;
+    location: { lat: number, lng: number };
+    durationSeconds: number;
+    itemCount: number;
+    botFill: number;
+}
+
+// What is signed; must match handoffPayload in firebase/functions/src/lobbies.ts
+function handoffPayload(options: LobbyHandoffOptions): string {
+    const { lobbyId, location, durationSeconds, itemCount, botFill } = options;
+    return JSON.stringify([lobbyId, location.lat, location.lng, durationSeconds, itemCount, botFill]);
+}
+
+export function signLobbyHandoff(options: LobbyHandoffOptions, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(handoffPayload(options)).digest('hex');
+}
+
+/**
+ * Checks the options a room is created with. Rooms without a lobbyId (quick play) always pass.
+ * @returns Why the room may not be created with these options, or null if it may.
+ */
+export function checkLobbyHandoff(options: unknown, secret: string | undefined = process.env.LOBBY_HANDOFF_SECRET): string | null {
+    const fields = (options ?? {}) as Partial<Record<keyof LobbyHandoffOptions | 'signature', unknown>>;
+    if (fields.lobbyId === undefined) return null;
+    if (!secret) {
+        console.warn(`[LobbyHandoff] LOBBY_HANDOFF_SECRET is not set; trusting the options of lobby ${fields.lobbyId}.`);
+        return null;
+    }
+    if (typeof fields.signature !== 'string') return "Missing lobby handoff signature";
+
+    // Anything malformed serializes differently from what the lobby API signed
+    const { lat, lng } = (fields.location ?? {}) as { lat?: unknown, lng?: unknown };
+    const expected = Buffer.from(signLobbyHandoff({ ...fields, location: { lat, lng } } as LobbyHandoffOptions, secret), 'hex');
+    const given = Buffer.from(fields.signature, 'hex');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        return "Invalid lobby handoff signature";
+    }
+    return null;
+}
@@ -0,0 +1,159 @@
+/**
+ * headlessSimulation.ts
+ *
+ * Runs the ArenaSimulation without Colyseus: fixed timestep, seeded random
+ * source, a static road layout and scripted human inputs. The same seed and
+ * scripts always produce the same match, so scenarios can assert on outcomes.
+ */
+
+import { ArenaState, MatchConfigValues, Player } from "@smugglers-town/shared-schemas";
+import { AIDifficulty, GameEvent, GameEventOf, GameEventType, InputMessage, SERVER_TICK_RATE } from "@smugglers-town/shared-utils";
+import { ArenaSimulation } from "../game/arenaSimulation";
+import { StaticRoadProvider, RoadRect } from "../roads";
+import { StaticHazardProvider, StaticHazard } from "../hazards";
+import { createSeededRandom } from "../utils/random";
+import { DEFAULT_MATCH_CONFIG } from "../config/matchConfig";
+
+// Decides a human player's input for the current tick
+export type InputScript = (player: Player, state: ArenaState, tick: number) => Omit<InputMessage, 'seq'>;
+
+export interface HeadlessSimulationOptions {
+    seed: number;
+    // Road rectangles in world meters (default: no roads)
+    roads?: RoadRect[];
+    // Terrain hazard polygons in world meters (default: none)
+    hazards?: StaticHazard[];
+    // Seconds per tick (default: the server tick)
+    dt?: number;
+    // Match settings overriding DEFAULT_MATCH_CONFIG
+    config?: Partial<MatchConfigValues>;
+}
+
+const idle: InputScript = () => ({ dx: 0, dy: 0 });
+
+export class HeadlessSimulation {
+    readonly simulation: ArenaSimulation;
+    readonly dt: number;
+    // Every event emitted so far, in order
+    readonly eventLog: GameEvent[] = [];
+    tick = 0;
+
+    private scripts = new Map<string, InputScript>();
+    private nextSeq = 1;
+
+    constructor(options: HeadlessSimulationOptions) {
+        this.dt = options.dt ?? 1 / SERVER_TICK_RATE;
+        this.simulation = new ArenaSimulation({
+            roadProvider: new StaticRoadProvider(options.roads),
+            hazardProvider: new StaticHazardProvider(options.hazards),
+            random: createSeededRandom(options.seed),
+            config: { ...DEFAULT_MATCH_CONFIG, ...options.config },
+        });
+        this.simulation.events.onAny(event => this.eventLog.push(event));
+        this.simulation.start();
+    }
+
+    get state(): ArenaState {
+        return this.simulation.state;
+    }
+
+    addHuman(sessionId: string, team: "Red" | "Blue", script: InputScript = idle): Player {
+        this.scripts.set(sessionId, script);
+        return this.simulation.addHumanPlayer(sessionId, team);
+    }
+
+    addAI(team: "Red" | "Blue", difficulty?: AIDifficulty, botName?: string): string {
+        return this.simulation.addAIPlayer(team, difficulty, botName).sessionId;
+    }
+
+    setScript(sessionId: string, script: InputScript): void {
+        this.scripts.set(sessionId, script);
+    }
+
+    /**
+     * Stops feeding a player's inputs, like a dropped client whose car the room holds for
+     * reconnection. setScript resumes it.
+     */
+    disconnect(sessionId: string): void {
+        this.scripts.delete(sessionId);
+        this.simulation.releaseInput(sessionId);
+    }
+
+    /**
+     * Skips warmup and countdown: resets the match (players move to their bases) and starts playing.
+     */
+    startMatch(): void {
+        this.simulation.enterPhase('countdown');
+        this.simulation.enterPhase('playing');
+    }
+
+    /**
+     * Feeds every scripted player one input, then advances one tick.
+     */
+    step(): void {
+        this.scripts.forEach((script, sessionId) => {
+            const player = this.state.players.get(sessionId);
+            if (!player) return;
+            const { dx, dy, throw: throwItem } = script(player, this.state, this.tick);
+            this.simulation.pushInput(sessionId, { dx, dy, seq: this.nextSeq++, throw: throwItem });
+        });
+        this.simulation.step(this.dt);
+        this.tick++;
+    }
+
+    run(ticks: number): void {
+        for (let i = 0; i < ticks; i++) this.step();
+    }
+
+    runFor(seconds: number): void {
+        this.run(Math.round(seconds / this.dt));
+    }
+
+    /**
+     * Steps until `predicate` holds or `maxTicks` have passed.
+     * @returns Whether the predicate was met.
+     */
+    runUntil(predicate: (state: ArenaState) => boolean, maxTicks: number): boolean {
+        for (let i = 0; i < maxTicks; i++) {
+            if (predicate(this.state)) return true;
+            this.step();
+        }
+        return predicate(this.state);
+    }
+
+    eventsOfType<T extends GameEventType>(type: T): GameEventOf<T>[] {
+        return this.eventLog.filter((event): event is GameEventOf<T> => event.type === type);
+    }
+
+    /**
+     * Compact description of the current state, for comparing runs.
+     */
+    snapshot(): string {
+        const players = Array.from(this.state.players.entries()).map(([id, p]) =>
+            `${id}:${p.x.toFixed(3)},${p.y.toFixed(3)},${p.heading.toFixed(3)}`);
+        const items = this.state.items.map(item =>
+            `${item.id}:${item.status}:${item.carrierId ?? '-'}:${item.x.toFixed(3)},${item.y.toFixed(3)}`);
+        return [
+            `phase=${this.state.matchPhase}`,
+            `score=${this.state.redScore}-${this.state.blueScore}`,
+            ...players,
+            ...items,
+        ].join('|');
+    }
+}
+
+/**
+ * Script that steers straight towards a world point (or stops when there is none).
+ */
+export function driveTowards(target: (player: Player, state: ArenaState) => { x: number, y: number } | null): InputScript {
+    return (player, state) => {
+        const point = target(player, state);
+        if (!point) return { dx: 0, dy: 0 };
+        const dirX = point.x - player.x;
+        const dirY = point.y - player.y;
+        const length = Math.hypot(dirX, dirY);
+        if (length < 0.5) return { dx: 0, dy: 0 };
+        // Inputs use screen-space Y (down is positive)
+        return { dx: dirX / length, dy: -dirY / length };
+    };
+}
@@ -0,0 +1,33 @@
+/**
+ * runScenarios.ts
+ *
+ * Runs every headless scenario and exits non-zero if any fails.
+ * Game logs are muted unless --verbose is passed.
+ */
+
+import { scenarios } from "./scenarios";
+
+const verbose = process.argv.includes('--verbose');
+const gameLog = console.log;
+
+async function main(): Promise<void> {
+    let failures = 0;
+    for (const scenario of scenarios) {
+        if (!verbose) console.log = () => {};
+        try {
+            await scenario.run();
+            console.log = gameLog;
+            console.log(`PASS ${scenario.name}`);
+        } catch (err) {
+            console.log = gameLog;
+            failures++;
+            console.error(`FAIL ${scenario.name}`);
+            console.error(err);
+        }
+    }
+
+    console.log(`\n${scenarios.length - failures}/${scenarios.length} scenarios passed.`);
+    process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
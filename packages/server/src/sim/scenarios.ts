@@ -0,0 +1,700 @@
+/**
+ * scenarios.ts
+ *
+ * Scripted headless matches with assertions on their outcome.
+ * Run them with `pnpm run sim` in packages/server.
+ */
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ArenaState, Player, getTeamBase } from "@smugglers-town/shared-schemas";
+import { createBotSnapshot, findSnapshotPlayer } from "@smugglers-town/shared-bots";
+import {
+    CarMovementState,
+    HazardList,
+    PLAYER_EFFECTIVE_RADIUS,
+    SERVER_TICK_RATE,
+    hasLineOfSight,
+    inputToWorldDirection,
+    stepCarWithTerrain
+} from "@smugglers-town/shared-utils";
+import { HeadlessSimulation, InputScript, driveTowards } from "./headlessSimulation";
+import { GeoJsonHazardProvider, StaticHazard, StaticHazardProvider } from "../hazards";
+import { RoadGraph, StaticRoadProvider } from "../roads";
+import { AINavigator } from "../ai/aiNavigator";
+import { AIState } from "../ai/types";
+import { determineAIState } from "../ai/aiStateMachine";
+import { getDefendTarget, getInterceptTarget } from "../ai/carrierTactics";
+import { AIRole, TeamCoordinator } from "../ai/teamCoordinator";
+import { AIReflexes, AI_DIFFICULTY_PROFILES } from "../ai/difficulty";
+import { FsmBot, registerBot } from "../bots";
+import { AuditEntry, AuditLog } from "../security/auditLog";
+import { InputGuard, MAX_STRIKES, WARN_STRIKES } from "../security/inputGuard";
+import { checkLobbyHandoff, signLobbyHandoff } from "../security/lobbyHandoff";
+import { parseArenaRoomOptions } from "../config/roomOptions";
+import { DEFAULT_MATCH_CONFIG } from "../config/matchConfig";
+import { cancelLocationVote, castLocationVote, proposeLocation, updateLocationVote } from "../game/locationVote";
+import { checkLocation, parseRegions } from "../config/locationRules";
+import { LOCATION_VOTE_COOLDOWN_SECONDS, LOCATION_VOTE_DURATION_SECONDS } from "../config/constants";
+import { ARENA_PRESETS, findArenaPreset, resolveArenaPreset } from "../config/arenaPresets";
+import { createSeededRandom } from "../utils/random";
+import { getSpawnShortfall } from "../game/itemSpawning";
+import { InputBuffer } from "../game/inputBuffer";
+
+export interface Scenario {
+    name: string;
+    run: () => void | Promise<void>;
+}
+
+// Picks up the nearest loose item, then drives it home to the Red base
+const smuggleToRedBase: InputScript = driveTowards((player, state) => {
+    const carrying = state.items.some(item => item.carrierId && state.players.get(item.carrierId) === player);
+    if (carrying) return getTeamBase(state, 'Red');
+    let nearest: { x: number, y: number } | null = null;
+    let nearestDistSq = Infinity;
+    state.items.forEach(item => {
+        if (item.status !== 'available' && item.status !== 'dropped') return;
+        const d = (item.x - player.x) ** 2 + (item.y - player.y) ** 2;
+        if (d < nearestDistSq) {
+            nearestDistSq = d;
+            nearest = { x: item.x, y: item.y };
+        }
+    });
+    return nearest;
+});
+
+const driveWest: InputScript = () => ({ dx: -1, dy: 0 });
+
+// Axis-aligned hazard polygon
+function rectHazard(kind: StaticHazard['kind'], minX: number, minY: number, maxX: number, maxY: number): StaticHazard {
+    return { kind, points: [{ x: minX, y: minY }, { x: maxX, y: minY }, { x: maxX, y: maxY }, { x: minX, y: maxY }] };
+}
+
+// A strip of water west of the Red base
+const LAKE = rectHazard('water', -600, -200, -500, 200);
+
+function runBotMatch(seed: number, seconds: number): HeadlessSimulation {
+    const sim = new HeadlessSimulation({ seed });
+    sim.addHuman('human', 'Red', smuggleToRedBase);
+    sim.addAI('Red');
+    sim.addAI('Blue');
+    sim.addAI('Blue');
+    sim.startMatch();
+    sim.runFor(seconds);
+    return sim;
+}
+
+export const scenarios: Scenario[] = [
+    {
+        name: "same seed replays the same match",
+        run: () => {
+            const first = runBotMatch(42, 30);
+            const second = runBotMatch(42, 30);
+            assert.equal(second.snapshot(), first.snapshot());
+            assert.deepEqual(second.eventLog, first.eventLog);
+
+            const other = runBotMatch(7, 0);
+            assert.notEqual(other.snapshot(), runBotMatch(42, 0).snapshot(), "different seeds should spawn differently");
+        },
+    },
+    {
+        name: "carrier scores an item at their base",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 1 });
+            sim.addHuman('red-1', 'Red', smuggleToRedBase);
+            sim.startMatch();
+
+            const scored = sim.runUntil(state => state.redScore >= 1, 60 * 60);
+            assert.ok(scored, "expected a Red capture within 60 seconds");
+
+            const stats = sim.state.players.get('red-1')!.stats;
+            assert.equal(stats.captures, 1);
+            assert.ok(stats.pickups >= 1);
+            assert.equal(sim.eventsOfType('item_scored')[0]?.playerId, 'red-1');
+        },
+    },
+    {
+        name: "a disconnected carrier stops and keeps its item until it reconnects",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 1 });
+            sim.addHuman('red-1', 'Red', smuggleToRedBase);
+            sim.startMatch();
+            const carrying = () => sim.state.items.some(item => item.carrierId === 'red-1');
+            assert.ok(sim.runUntil(carrying, 60 * 60), "expected a pickup within 60 seconds");
+
+            sim.disconnect('red-1');
+            sim.runFor(5);
+            const player = sim.state.players.get('red-1')!;
+            assert.ok(Math.hypot(player.vx, player.vy) < 1, "released car should coast to a stop");
+            assert.ok(carrying(), "held car should keep its item");
+
+            sim.setScript('red-1', smuggleToRedBase);
+            assert.ok(sim.runUntil(state => state.redScore >= 1, 60 * 60), "expected the resumed carrier to score");
+        },
+    },
+    {
+        name: "driving into water resets the car",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 1, hazards: [LAKE] });
+            const player = sim.addHuman('swimmer', 'Red', driveWest);
+            sim.startMatch();
+            player.x = -450;
+            player.y = 0;
+
+            const reset = sim.runUntil(() => player.stats.waterResets > 0, 10 * 60);
+            assert.ok(reset, "expected a water reset within 10 seconds");
+            assert.equal(sim.eventsOfType('water_reset').length, 1);
+            const base = getTeamBase(sim.state, 'Red')!;
+            assert.ok(Math.hypot(player.x - base.x, player.y - base.y) < 5, "car should be back at its base");
+        },
+    },
+    {
+        name: "parks slow cars down and buildings stop them",
+        run: () => {
+            // Drives east from the Blue base (x=200) for three seconds
+            const driveEast = (hazards: StaticHazard[]) => {
+                const sim = new HeadlessSimulation({ seed: 3, hazards });
+                const player = sim.addHuman('driver', 'Blue', () => ({ dx: 1, dy: 0 }));
+                sim.startMatch();
+                const startX = player.x;
+                sim.runFor(3);
+                return { startX, endX: player.x };
+            };
+            const open = driveEast([]);
+            const park = driveEast([rectHazard('park', -2000, -2000, 2000, 2000)]);
+            const openDistance = open.endX - open.startX;
+            const parkDistance = park.endX - park.startX;
+            assert.ok(parkDistance < openDistance * 0.75, `expected the park to slow the car (${parkDistance.toFixed(1)} vs ${openDistance.toFixed(1)})`);
+
+            const blocked = driveEast([rectHazard('building', 280, -500, 320, 500)]);
+            assert.ok(open.endX > 320, "the open run should pass the building's position");
+            assert.ok(blocked.endX < 280, `expected the building to stop the car (ended at x=${blocked.endX.toFixed(1)})`);
+        },
+    },
+    {
+        name: "cars slide along buildings, which block line of sight",
+        run: () => {
+            const wall = rectHazard('building', 280, -500, 320, 500);
+            const sim = new HeadlessSimulation({ seed: 4, hazards: [wall] });
+            // North-east from the Blue base (x=200) into the wall
+            const player = sim.addHuman('driver', 'Blue', () => ({ dx: 1, dy: -1 }));
+            sim.startMatch();
+            const startY = player.y;
+            sim.runFor(4);
+            assert.ok(player.x <= 280 - PLAYER_EFFECTIVE_RADIUS + 0.01, `car should stay outside the wall (x=${player.x.toFixed(2)})`);
+            assert.ok(player.y - startY > 50, `car should slide north along the wall (moved ${(player.y - startY).toFixed(1)})`);
+
+            const hazards = new StaticHazardProvider([wall]);
+            assert.equal(hasLineOfSight(200, 0, 400, 0, hazards), false);
+            assert.equal(hasLineOfSight(200, 0, 250, 300, hazards), true);
+        },
+    },
+    {
+        name: "client prediction over the replicated hazards matches the server at walls and water",
+        run: () => {
+            const wall = rectHazard('building', 280, -500, 320, 500);
+            const sim = new HeadlessSimulation({ seed: 4, hazards: [wall, LAKE] });
+            // North-east into the wall, then west across the map into the lake
+            const input = (tick: number) => tick < 3 * SERVER_TICK_RATE ? { dx: 1, dy: -1 } : { dx: -1, dy: 0 };
+            const player = sim.addHuman('driver', 'Blue', (_player, _state, tick) => input(tick));
+            sim.startMatch();
+            const hazards = new HazardList(sim.state.hazards);
+            assert.equal(sim.state.hazards.length, 2, "both hazards should be replicated");
+
+            let wallHits = 0;
+            for (let tick = 0; tick < 30 * SERVER_TICK_RATE && player.stats.waterResets === 0; tick++) {
+                const car: CarMovementState = { x: player.x, y: player.y, heading: player.heading, vx: player.vx, vy: player.vy };
+                const { dirX, dirY } = inputToWorldDirection(input(sim.tick));
+                const terrain = stepCarWithTerrain(car, dirX, dirY, false, 1 / SERVER_TICK_RATE, sim.state.matchConfig, hazards);
+                if (terrain.hitWall) wallHits++;
+                if (terrain.inWater) Object.assign(car, getTeamBase(sim.state, 'Blue'));
+                sim.step();
+                assert.ok(Math.hypot(car.x - player.x, car.y - player.y) < 1e-3,
+                    `prediction should match the server at tick ${sim.tick} (${car.x.toFixed(2)}, ${car.y.toFixed(2)} vs ${player.x.toFixed(2)}, ${player.y.toFixed(2)})`);
+            }
+            assert.ok(wallHits > 0, "the car should have slid along the wall");
+            assert.equal(player.stats.waterResets, 1, "the car should have reached the lake");
+        },
+    },
+    {
+        name: "every GeoJSON hazard the server collides with is replicated, also past 400 polygons",
+        run: async () => {
+            // A 21 x 22 grid of ~20 m buildings, ~65 m apart, around the origin (0, 0)
+            const features = [];
+            for (let col = -10; col <= 10; col++) {
+                for (let row = -11; row <= 10; row++) {
+                    const lng = col * 0.0006, lat = row * 0.0006, size = 0.0002;
+                    const ring = [[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size], [lng, lat]];
+                    features.push({ type: 'Feature', properties: { building: 'yes' }, geometry: { type: 'Polygon', coordinates: [ring] } });
+                }
+            }
+            const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hazards-'));
+            try {
+                fs.writeFileSync(path.join(dataDir, 'buildings.geojson'), JSON.stringify({ type: 'FeatureCollection', features }));
+                const provider = new GeoJsonHazardProvider(dataDir);
+                await provider.setOrigin(0, 0);
+                const replicated = provider.getHazards();
+                assert.equal(replicated.length, features.length, "every building should be replicated");
+
+                const predicted = new HazardList(replicated);
+                for (const hazard of replicated) {
+                    const x = (hazard.minX + hazard.maxX) / 2, y = (hazard.minY + hazard.maxY) / 2;
+                    assert.equal(provider.queryRect(x, y, x, y).length, 1);
+                    assert.equal(predicted.hazardAt(x, y)?.kind, provider.hazardAt(x, y)?.kind,
+                        `prediction should see the building at (${x.toFixed(1)}, ${y.toFixed(1)})`);
+                }
+            } finally {
+                fs.rmSync(dataDir, { recursive: true, force: true });
+            }
+        },
+    },
+    {
+        name: "roads make cars faster",
+        run: () => {
+            const distanceAfterThreeSeconds = (onRoads: boolean) => {
+                const roads = onRoads ? [{ minX: -2000, minY: -50, maxX: 2000, maxY: 50 }] : [];
+                const sim = new HeadlessSimulation({ seed: 3, roads });
+                const player = sim.addHuman('driver', 'Blue', () => ({ dx: 1, dy: 0 }));
+                sim.startMatch();
+                const startX = player.x;
+                sim.runFor(3);
+                return player.x - startX;
+            };
+            assert.ok(distanceAfterThreeSeconds(true) > distanceAfterThreeSeconds(false) * 1.5);
+        },
+    },
+    {
+        name: "AI routes over roads when they are faster",
+        run: () => {
+            const roads = [{ minX: -1000, minY: -10, maxX: 1000, maxY: 10 }];
+            const graph = new RoadGraph(new StaticRoadProvider(roads).getRoadLines());
+            const route = graph.findRoute(-300, 60, 300, 60, 2.5);
+            assert.ok(route.length > 2 && route.some(p => Math.abs(p.y) < 1), "expected a route along the road");
+            assert.deepEqual(graph.findRoute(-20, 60, 20, 60, 2.5), [{ x: 20, y: 60 }], "short trips should go straight");
+
+            const navigator = new AINavigator(() => graph);
+            const bot = new Player();
+            bot.x = -300;
+            bot.y = 60;
+            const steer = navigator.getSteeringTarget('bot', bot, { x: 300, y: 60 }, 2.5);
+            assert.ok(steer.y < 10, "bot should head for the road first");
+            // A new target (no road near it) is planned right away
+            assert.deepEqual(navigator.getSteeringTarget('bot', bot, { x: -300, y: 200 }, 2.5), { x: -300, y: 200 });
+        },
+    },
+    {
+        name: "bots intercept ahead of carriers and escorts block chasers",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 8 });
+            const carrier = sim.addHuman('carrier', 'Red');
+            const escort = sim.addHuman('escort', 'Red');
+            const interceptor = sim.addHuman('interceptor', 'Blue');
+            const chaser = sim.addHuman('chaser', 'Blue');
+            sim.startMatch();
+            const place = (player: Player, x: number, y: number) => { player.x = x; player.y = y; };
+            place(carrier, 0, 0);
+            carrier.vx = -40; // Heading home to the Red base at x=-200
+            place(escort, 10, 10);
+            place(interceptor, -100, 60);
+            place(chaser, 20, 0);
+            const item = sim.state.items.at(0)!;
+            item.carrierId = 'carrier';
+            item.status = 'carried';
+
+            // The AI works from the bot snapshot, like every bot
+            const snapshot = createBotSnapshot(sim.state);
+            const view = (id: string) => findSnapshotPlayer(snapshot, id)!;
+            assert.equal(determineAIState('interceptor', view('interceptor'), snapshot), AIState.INTERCEPTING);
+            const meetingPoint = getInterceptTarget(view('interceptor'), snapshot)!;
+            assert.ok(meetingPoint.x < -20 && Math.abs(meetingPoint.y) < 1, "interceptor should aim ahead of the carrier, on its way home");
+            assert.equal(determineAIState('chaser', view('chaser'), snapshot), AIState.PURSUING_CARRIER);
+
+            assert.equal(determineAIState('escort', view('escort'), snapshot), AIState.DEFENDING);
+            const block = getDefendTarget(view('escort'), snapshot)!;
+            assert.ok(block.x > 0 && block.x < 20 && Math.abs(block.y) < 1, "escort should get between the carrier and the chaser");
+        },
+    },
+    {
+        name: "team coordinator spreads bots over items and carriers",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 9, config: { itemCount: 3 } });
+            const bots = ['a', 'b', 'c'];
+            const place = (entity: { x: number, y: number }, x: number, y: number) => { entity.x = x; entity.y = y; };
+            const [a, b, c] = bots.map(id => sim.addHuman(id, 'Red'));
+            const teammate = sim.addHuman('teammate', 'Red');
+            const opponent = sim.addHuman('opponent', 'Blue');
+            sim.startMatch();
+            place(a, 90, 0);
+            place(b, 0, -90);
+            place(c, -50, 0);
+            place(teammate, 0, 95);
+            place(opponent, 300, 300);
+            const [nearTeammate, east, south] = sim.state.items.toArray();
+            place(nearTeammate, 0, 100);
+            place(east, 100, 0);
+            place(south, 0, -100);
+
+            const coordinator = new TeamCoordinator();
+            const isBot = (id: string) => bots.includes(id);
+            coordinator.update(createBotSnapshot(sim.state), isBot);
+            const roles = () => bots.map(id => coordinator.getAssignment(id)!);
+            assert.deepEqual(roles(), [
+                { role: AIRole.ATTACKER, itemId: east.id },
+                { role: AIRole.ATTACKER, itemId: south.id },
+                { role: AIRole.GOALIE },
+            ], "each bot should take its own item, leaving the human's item alone");
+
+            // An opponent picks up the east item: exactly one bot goes after them
+            place(opponent, 95, 0);
+            east.carrierId = 'opponent';
+            east.status = 'carried';
+            coordinator.update(createBotSnapshot(sim.state), isBot);
+            const interceptors = roles().filter(assignment => assignment.role === AIRole.INTERCEPTOR);
+            assert.deepEqual(interceptors, [{ role: AIRole.INTERCEPTOR, carrierId: 'opponent' }]);
+            assert.equal(coordinator.getAssignment('a')?.role, AIRole.INTERCEPTOR);
+        },
+    },
+    {
+        name: "harder bots react faster and reach items sooner",
+        run: () => {
+            const reflexes = new AIReflexes(AI_DIFFICULTY_PROFILES.Easy, () => 0.5);
+            const dt = 1 / 60;
+            reflexes.tick(dt);
+            assert.deepEqual(reflexes.perceive({ x: 0, y: 0 }), { x: 0, y: 0 });
+            for (let t = dt; t < 0.5; t += dt) {
+                reflexes.tick(dt);
+                assert.deepEqual(reflexes.perceive({ x: 100, y: 0 }), { x: 0, y: 0 }, "easy bots should not see a move within 0.5 s");
+            }
+
+            const secondsToFirstPickup = (difficulty: 'Easy' | 'Nightmare') => {
+                const sim = new HeadlessSimulation({ seed: 10 });
+                const bot = sim.addAI('Red', difficulty);
+                assert.equal(sim.state.players.get(bot)?.aiDifficulty, difficulty);
+                sim.startMatch();
+                const start = sim.tick;
+                assert.ok(sim.runUntil(() => sim.eventsOfType('item_picked_up').length > 0, 60 * 30), `${difficulty} bot never picked up an item`);
+                return (sim.tick - start) / 60;
+            };
+            assert.ok(secondsToFirstPickup('Nightmare') < secondsToFirstPickup('Easy'));
+        },
+    },
+    {
+        name: "registered bots drive from snapshots with car physics",
+        run: () => {
+            let snapshotFrozen = false;
+            registerBot("scenario-east", () => ({
+                decide: (snapshot, selfId) => {
+                    snapshotFrozen = Object.isFrozen(snapshot) && Object.isFrozen(snapshot.players);
+                    assert.ok(snapshot.players.some(p => p.id === selfId));
+                    return { dx: 1, dy: 0 };
+                },
+            }));
+            const sim = new HeadlessSimulation({ seed: 11 });
+            const east = sim.addAI('Blue', 'Nightmare', 'scenario-east');
+            const greedy = sim.addAI('Red', 'Normal', 'greedy');
+            sim.startMatch();
+            const startX = sim.state.players.get(east)!.x;
+            sim.runFor(1);
+            assert.ok(snapshotFrozen, "bots should get a frozen snapshot");
+            // Nightmare speed (110% of 50 m/s) is reached within a second at 115% acceleration
+            const eastBot = sim.state.players.get(east)!;
+            assert.ok(eastBot.x - startX > 30 && Math.hypot(eastBot.vx, eastBot.vy) <= 55.01, "bot should drive east at its difficulty's speed");
+
+            assert.ok(sim.runUntil(() => sim.eventsOfType('item_scored').some(e => e.playerId === greedy), 60 * 60), "greedy bot should score");
+        },
+    },
+    {
+        name: "the built-in bot decides from the snapshot and the simulation records its state",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 12, config: { itemCount: 1 } });
+            const red = sim.addAI('Red', 'Nightmare');
+            sim.addAI('Blue', 'Nightmare');
+            sim.startMatch();
+            Object.assign(sim.state.items.at(0)!, { status: 'carried', carrierId: red });
+            const player = sim.state.players.get(red)!;
+            const before = { x: player.x, y: player.y, currentState: player.currentState };
+
+            const bot = new FsmBot({
+                hazards: new StaticHazardProvider(),
+                navigator: new AINavigator(() => new RoadGraph([])),
+                coordinator: new TeamCoordinator(),
+                random: createSeededRandom(1),
+                getDeltaTime: () => 1 / SERVER_TICK_RATE,
+            }, 'Nightmare');
+            const action = bot.decide(createBotSnapshot(sim.state), red);
+            assert.equal(action.state, AIState.RETURNING_TO_BASE, "a carrier should head home");
+            assert.deepEqual({ x: player.x, y: player.y, currentState: player.currentState }, before, "deciding should not change the state");
+
+            sim.step();
+            assert.equal(player.currentState, AIState.RETURNING_TO_BASE, "the simulation should record the bot's state");
+        },
+    },
+    {
+        name: "input guard clamps and rate limits input, then warns and kicks floods",
+        run: () => {
+            const audit: AuditEntry[] = [];
+            const guard = new InputGuard(new AuditLog('scenario', entry => audit.push(entry)));
+            const tickMs = 1000 / SERVER_TICK_RATE;
+
+            // A normal client: one input per tick for 10 seconds, never flagged
+            for (let seq = 1; seq <= SERVER_TICK_RATE * 10; seq++) {
+                const check = guard.check('honest', { dx: 1, dy: -1, seq }, seq * tickMs);
+                assert.deepEqual(check.input, { dx: 1, dy: -1, seq });
+            }
+            assert.equal(audit.length, 0, "an honest client should not be audited");
+
+            const nan = guard.check('cheater', { dx: NaN, dy: 0, seq: 1 }, 0);
+            assert.equal(nan.input, null);
+            assert.equal(nan.violation, 'malformed');
+            const huge = guard.check('cheater', { dx: 1e9, dy: 0, seq: 2 }, 2000);
+            assert.ok(huge.input && Math.hypot(huge.input.dx, huge.input.dy) <= Math.SQRT2 + 1e-9, "huge input should be clamped");
+
+            // 10 messages per millisecond: most are dropped, one strike per second, warned, then kicked
+            let seq = 3;
+            let warned = false;
+            let kickedAt = -1;
+            for (let ms = 4000; ms < 20000 && kickedAt < 0; ms++) {
+                for (let i = 0; i < 10; i++) {
+                    const check = guard.check('cheater', { dx: 0, dy: 1, seq: seq++ }, ms);
+                    warned ||= check.action === 'warn';
+                    if (check.action === 'kick') kickedAt = ms;
+                }
+            }
+            assert.ok(warned, `expected a warning at ${WARN_STRIKES} strikes`);
+            assert.ok(kickedAt > 0 && kickedAt < 10000, "expected a kick within a few seconds of flooding");
+            assert.deepEqual(audit.map(entry => entry.action).slice(-1), ['kick']);
+            assert.equal(audit[audit.length - 1].strikes, MAX_STRIKES);
+            assert.ok(audit.some(entry => entry.violation === 'rate_limit' && entry.suppressed > 0));
+        },
+    },
+    {
+        name: "location votes need a majority and respect the cooldown and region rules",
+        run: () => {
+            const state = new ArenaState();
+            state.hostId = 'host';
+            const voters = ['host', 'a', 'b', 'c'];
+            const paris = { lat: 48.8566, lng: 2.3522, label: 'Paris' };
+
+            // 2 of 4 approve: no majority until time runs out, then approvals beat rejections
+            assert.equal(proposeLocation(state, 'a', paris), null);
+            assert.notEqual(proposeLocation(state, 'b', paris), null, "only one vote at a time");
+            castLocationVote(state, 'b', true);
+            castLocationVote(state, 'c', false);
+            assert.equal(updateLocationVote(state, 1, voters), null);
+            assert.ok(state.locationVote, "vote should still be open");
+            assert.deepEqual(updateLocationVote(state, LOCATION_VOTE_DURATION_SECONDS, voters), { ...paris, presetId: undefined });
+            assert.equal(state.locationVote, undefined);
+
+            // Cooldown: everyone waits, the host too; a majority rejecting ends the vote early
+            assert.notEqual(proposeLocation(state, 'b', paris), null, "cooldown should refuse the proposal");
+            assert.notEqual(proposeLocation(state, 'host', paris), null, "cooldown should refuse the host's proposal too");
+            updateLocationVote(state, LOCATION_VOTE_COOLDOWN_SECONDS, voters);
+            assert.equal(proposeLocation(state, 'host', paris), null);
+            ['a', 'b', 'c'].forEach(id => castLocationVote(state, id, false));
+            assert.equal(updateLocationVote(state, 0.1, voters), null);
+            assert.equal(state.locationVote, undefined, "a majority rejecting should close the vote");
+
+            // Cancelling starts the cooldown, so the host cannot spam proposals
+            updateLocationVote(state, LOCATION_VOTE_COOLDOWN_SECONDS, voters);
+            assert.equal(proposeLocation(state, 'host', paris), null);
+            assert.equal(cancelLocationVote(state, 'a'), false, "only the host may cancel");
+            assert.equal(cancelLocationVote(state, 'host'), true);
+            assert.notEqual(proposeLocation(state, 'host', paris), null, "cancelling should start the cooldown");
+
+            const rules = {
+                allowedRegions: parseRegions('[{"name":"Europe","minLat":35,"minLng":-10,"maxLat":70,"maxLng":40}]', 'allowed'),
+                deniedRegions: parseRegions('[{"name":"Paris","minLat":48.8,"minLng":2.2,"maxLat":48.9,"maxLng":2.5}, {"bad":1}]', 'denied'),
+            };
+            assert.equal(rules.deniedRegions.length, 1, "invalid regions are skipped");
+            assert.equal(checkLocation(52.52, 13.405, rules), null);
+            assert.match(checkLocation(paris.lat, paris.lng, rules)!, /Paris/);
+            assert.match(checkLocation(40.758, -73.985, rules)!, /Europe/);
+            assert.notEqual(checkLocation(89, 0, { allowedRegions: [], deniedRegions: [] }), null, "latitude beyond the map");
+            assert.notEqual(checkLocation(NaN, 0, { allowedRegions: [], deniedRegions: [] }), null);
+        },
+    },
+    {
+        name: "arena presets place the bases and items, and random picks a different preset",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 23 });
+            sim.addHuman('red-1', 'Red');
+            const preset = findArenaPreset('champs-elysees')!;
+            sim.simulation.resetGame(preset.origin, preset);
+            assert.equal(sim.state.arenaPresetId, preset.id);
+            assert.equal(sim.state.mapStyle, preset.mapStyle);
+            assert.deepEqual(getTeamBase(sim.state, 'Red'), preset.bases.red);
+            assert.deepEqual(getTeamBase(sim.state, 'Blue'), preset.bases.blue);
+            sim.state.items.forEach(item => {
+                const inZone = preset.itemSpawnZones.some(zone => Math.hypot(item.x - zone.x, item.y - zone.y) <= zone.radius);
+                assert.ok(inZone, `item ${item.id} at (${item.x.toFixed(1)}, ${item.y.toFixed(1)}) is outside the spawn zones`);
+            });
+
+            // Random never picks the current preset; unknown ids resolve to nothing
+            const random = createSeededRandom(4);
+            for (let i = 0; i < 20; i++) {
+                const pick = resolveArenaPreset('random', random, preset.id);
+                assert.ok(pick && pick.id !== preset.id && ARENA_PRESETS.includes(pick));
+            }
+            assert.equal(resolveArenaPreset('atlantis', random), undefined);
+
+            // A searched place clears the preset again
+            sim.simulation.resetGame({ lat: 52.52, lng: 13.405 });
+            assert.equal(sim.state.arenaPresetId, "");
+            assert.equal(sim.state.mapStyle, "");
+        },
+    },
+    {
+        name: "regulation time ends the match with results",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 5 });
+            sim.addHuman('red-1', 'Red');
+            sim.startMatch();
+            sim.state.redScore = 2;
+            sim.state.blueScore = 1;
+            sim.state.gameTimeRemaining = 1;
+
+            sim.runFor(1.5);
+            assert.equal(sim.state.matchPhase, 'results');
+            assert.equal(sim.state.matchResults.winner, 'Red');
+        },
+    },
+    {
+        name: "match config sets duration, item count and base distance",
+        run: () => {
+            const sim = new HeadlessSimulation({ seed: 6, config: { durationSeconds: 120, itemCount: 7, baseDistance: 120 } });
+            const player = sim.addHuman('red-1', 'Red');
+            sim.startMatch();
+            assert.equal(sim.state.matchConfig.itemCount, 7);
+            assert.equal(sim.state.items.length, 7);
+            assert.equal(sim.state.gameTimeRemaining, 120);
+            // Spawned near the configured base, not the default one at -200
+            assert.ok(Math.abs(player.x + 120) <= 10);
+        },
+    },
+    {
+        name: "lobby rooms need the lobby API's signature and take only the lobby settings",
+        run: () => {
+            const secret = 'test-secret';
+            const handoff = { lobbyId: 'lobby-1', location: { lat: 48.8566, lng: 2.3522 }, durationSeconds: 180, itemCount: 6, botFill: 1 };
+            const signature = signLobbyHandoff(handoff, secret);
+            assert.equal(checkLobbyHandoff({ ...handoff, signature }, secret), null);
+            assert.equal(checkLobbyHandoff({ itemCount: 12 }, secret), null, "quick play rooms need no signature");
+            assert.notEqual(checkLobbyHandoff(handoff, secret), null, "a lobby room without a signature is refused");
+            assert.notEqual(checkLobbyHandoff({ ...handoff, botFill: 4, signature }, secret), null, "changed settings are refused");
+            assert.notEqual(checkLobbyHandoff({ ...handoff, location: { lat: 40.758, lng: -73.985 }, signature }, secret), null);
+            assert.notEqual(checkLobbyHandoff({ ...handoff, signature: 'abc' }, secret), null);
+
+            // Fields the lobby API doesn't hand off are ignored in lobby rooms
+            const rules = { allowedRegions: [], deniedRegions: [] };
+            const options = parseArenaRoomOptions({ ...handoff, signature, maxSpeed: 150, preset: 'random' }, rules);
+            assert.equal(options.config.maxSpeed, DEFAULT_MATCH_CONFIG.maxSpeed);
+            assert.equal(options.config.durationSeconds, 180);
+            assert.equal(options.preset, undefined);
+            assert.equal(parseArenaRoomOptions({ maxSpeed: 150 }, rules).config.maxSpeed, 150, "quick play rooms keep their physics options");
+        },
+    },
+    {
+        name: "items spawn fairly, clear of bases, water and each other, and respawn on a timer",
+        run: () => {
+            // Water over the middle, where items would otherwise be fairest
+            const pond = rectHazard('water', -60, -60, 60, 60);
+            const sim = new HeadlessSimulation({ seed: 24, hazards: [pond], config: { itemCount: 8, itemRespawnSeconds: 3 } });
+            sim.addHuman('red-1', 'Red');
+            sim.startMatch();
+            const { matchConfig } = sim.state;
+            const spawnRules = {
+                bases: { red: getTeamBase(sim.state, 'Red')!, blue: getTeamBase(sim.state, 'Blue')! },
+                rules: { minBaseDistance: matchConfig.itemMinBaseDistance, minItemSpacing: matchConfig.itemMinSpacing, fairnessTolerance: matchConfig.itemFairnessTolerance },
+                isBlocked: (x: number, y: number) => x > -60 && x < 60 && y > -60 && y < 60,
+            };
+            sim.state.items.forEach(item => {
+                const otherItems = sim.state.items.filter(other => other !== item);
+                assert.equal(getSpawnShortfall(item, { ...spawnRules, otherItems }), 0, `item ${item.id} at (${item.x.toFixed(1)}, ${item.y.toFixed(1)}) breaks the spawn rules`);
+            });
+
+            // A scored item comes back after the respawn delay, without waiting for the others
+            const item = sim.state.items[0]!;
+            const spawnCount = () => sim.eventLog.filter(event => event.type === 'item_spawned' && event.itemId === item.id).length;
+            const spawnsBefore = spawnCount();
+            item.status = 'scored';
+            sim.runFor(2.5);
+            assert.equal(item.status, 'scored');
+            sim.runFor(1);
+            assert.equal(item.status, 'available');
+            assert.equal(spawnCount(), spawnsBefore + 1);
+            assert.equal(sim.state.items.length, 8);
+        },
+    },
+    {
+        name: "thrown items reach teammates and bounce off buildings, and dropped items return",
+        run: () => {
+            // Red 1 stands at the origin facing east with the only item and throws it on the first tick
+            const throwEast = (hazards: StaticHazard[], teammateX?: number) => {
+                const sim = new HeadlessSimulation({ seed: 25, hazards, config: { itemCount: 1, droppedItemReturnSeconds: 5 } });
+                const thrower = sim.addHuman('red-1', 'Red', (_player, _state, tick) => ({ dx: 0, dy: 0, throw: tick === 0 }));
+                const teammate = teammateX === undefined ? null : sim.addHuman('red-2', 'Red');
+                sim.startMatch();
+                Object.assign(thrower, { x: 0, y: 0, heading: 0 });
+                if (teammate) Object.assign(teammate, { x: teammateX, y: 0 });
+                const item = sim.state.items[0]!;
+                Object.assign(item, { status: 'carried', carrierId: 'red-1' });
+                return { sim, item };
+            };
+
+            const pass = throwEast([], 15);
+            pass.sim.step();
+            assert.equal(pass.item.status, 'dropped');
+            assert.equal(pass.item.thrownBy, 'red-1');
+            assert.ok(pass.item.vx > 20, "the item should fly forward");
+            assert.ok(pass.sim.runUntil(state => state.items[0]!.carrierId === 'red-2', 60), "the teammate should catch the pass");
+
+            // A building east of the origin: the item bounces back, stops, then returns to neutral ground
+            const wall = throwEast([rectHazard('building', 15, -50, 25, 50)]);
+            let maxX = -Infinity;
+            for (let i = 0; i < 4 * SERVER_TICK_RATE; i++) {
+                wall.sim.step();
+                maxX = Math.max(maxX, wall.item.x);
+            }
+            assert.ok(maxX > 10 && maxX < 15, `item should reach the wall without entering it (max x ${maxX.toFixed(1)})`);
+            assert.ok(wall.item.x < maxX - 1, "item should bounce back");
+            assert.equal(wall.item.vx, 0, "item should have stopped");
+            assert.equal(wall.item.thrownBy, "");
+            wall.sim.runFor(1.5);
+            assert.equal(wall.item.status, 'available', "dropped item should return after droppedItemReturnSeconds");
+            assert.ok(wall.sim.eventLog.some(event => event.type === 'item_spawned' && event.itemId === wall.item.id));
+        },
+    },
+    {
+        name: "a throw is applied once, also when it was flushed while cars were frozen",
+        run: () => {
+            const buffer = new InputBuffer();
+            buffer.push('p1', { dx: 1, dy: 0, seq: 1, throw: true });
+            assert.equal(buffer.next('p1').throw, true);
+            assert.equal(buffer.next('p1').throw, undefined, "an empty queue should not repeat the throw");
+
+            // Thrown during the countdown: flushed, then the queue stays empty
+            buffer.push('p1', { dx: 0, dy: 1, seq: 2, throw: true });
+            assert.equal(buffer.flush('p1'), 2);
+            for (let tick = 0; tick < 3; tick++) {
+                assert.deepEqual(buffer.next('p1'), { dx: 0, dy: 1, seq: 2 });
+            }
+        },
+    },
+    {
+        name: "bases avoid the water and prefer roads",
+        run: () => {
+            // Default distance would put the Red base in the water (x -600..-500)
+            const wet = new HeadlessSimulation({ seed: 7, hazards: [LAKE], config: { baseDistance: 550 } });
+            assert.notEqual(wet.state.redBaseY, 0);
+            assert.ok(wet.state.redBaseX > -500 - wet.state.baseRadius || Math.abs(wet.state.redBaseY) > 200);
+
+            // A north-south road through the origin: bases move onto it
+            const roads = [{ minX: -40, minY: -300, maxX: 40, maxY: 300 }];
+            const sim = new HeadlessSimulation({ seed: 7, roads });
+            assert.ok(Math.abs(sim.state.redBaseX) < 1 && Math.abs(sim.state.blueBaseX) < 1);
+            assert.equal(sim.state.redBaseY, -sim.state.blueBaseY);
+        },
+    },
+];
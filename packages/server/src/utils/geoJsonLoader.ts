@@ -0,0 +1,132 @@
+/**
+ * geoJsonLoader.ts
+ *
+ * Loads local GeoJSON extracts (e.g. exported from OpenStreetMap with osmium/ogr2ogr)
+ * and converts their geometry into world meters relative to the current origin.
+ */
+
+import fs from 'fs/promises';
+import { readdirSync } from 'fs';
+import path from 'path';
+import { geoToWorld } from "@smugglers-town/shared-utils";
+
+export type WorldPoint = { x: number; y: number };
+type Position = [number, number, ...number[]]; // [lng, lat, (alt)]
+
+export type GeoJsonGeometry =
+    | { type: 'Point'; coordinates: Position }
+    | { type: 'MultiPoint' | 'LineString'; coordinates: Position[] }
+    | { type: 'MultiLineString' | 'Polygon'; coordinates: Position[][] }
+    | { type: 'MultiPolygon'; coordinates: Position[][][] }
+    | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+export interface GeoJsonFeature {
+    type: 'Feature';
+    geometry: GeoJsonGeometry | null;
+    properties: Record<string, any> | null;
+}
+
+// Directory holding the GeoJSON extracts (relative paths resolve from the server package root)
+export const MAP_DATA_DIR = path.resolve(__dirname, '../..', process.env.MAP_DATA_DIR || 'data/map');
+const GEOJSON_EXTENSIONS = ['.geojson', '.json'];
+
+/**
+ * True if the map data directory holds at least one GeoJSON file (checked when a provider is chosen).
+ */
+export function hasGeoJsonFiles(dir: string = MAP_DATA_DIR): boolean {
+    try {
+        return readdirSync(dir).some(fileName => GEOJSON_EXTENSIONS.includes(path.extname(fileName).toLowerCase()));
+    } catch {
+        return false;
+    }
+}
+
+// Parsed files by path; reloaded when the file changes. The road and hazard providers share them.
+const fileCache = new Map<string, { mtimeMs: number; size: number; features: Promise<readonly GeoJsonFeature[]> }>();
+
+async function parseGeoJsonFile(filePath: string): Promise<readonly GeoJsonFeature[]> {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    if (parsed?.type === 'FeatureCollection' && Array.isArray(parsed.features)) return parsed.features;
+    if (parsed?.type === 'Feature') return [parsed];
+    console.warn(`[GeoJSON] ${path.basename(filePath)} is not a Feature or FeatureCollection. Skipping.`);
+    return [];
+}
+
+/**
+ * Reads every GeoJSON FeatureCollection in the map data directory.
+ * Each file is parsed once and cached until it changes on disk, so callers
+ * must not modify the returned features.
+ * Missing directories and unreadable files are logged and skipped.
+ */
+export async function loadGeoJsonFeatures(dir: string = MAP_DATA_DIR): Promise<readonly GeoJsonFeature[]> {
+    let fileNames: string[];
+    try {
+        fileNames = await fs.readdir(dir);
+    } catch (err: any) {
+        console.warn(`[GeoJSON] Map data directory not readable (${dir}): ${err.message}`);
+        return [];
+    }
+
+    const features: GeoJsonFeature[] = [];
+    for (const fileName of fileNames) {
+        if (!GEOJSON_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) continue;
+        const filePath = path.join(dir, fileName);
+        try {
+            const { mtimeMs, size } = await fs.stat(filePath);
+            let cached = fileCache.get(filePath);
+            if (!cached || cached.mtimeMs !== mtimeMs || cached.size !== size) {
+                cached = { mtimeMs, size, features: parseGeoJsonFile(filePath) };
+                fileCache.set(filePath, cached);
+            }
+            features.push(...await cached.features);
+        } catch (err: any) {
+            fileCache.delete(filePath);
+            console.error(`[GeoJSON] Failed to load ${filePath}: ${err.message}`);
+        }
+    }
+    console.log(`[GeoJSON] Loaded ${features.length} features from ${dir}`);
+    return features;
+}
+
+/**
+ * Converts a GeoJSON position list ([lng, lat] pairs) to world meters.
+ */
+export function toWorldPoints(positions: Position[], originLng: number, originLat: number): WorldPoint[] {
+    return positions.map(([lng, lat]) => geoToWorld(lng, lat, originLng, originLat));
+}
+
+/**
+ * Splits (Multi)LineString geometry into its individual lines (position lists).
+ */
+export function getLineStrings(geometry: GeoJsonGeometry | null): Position[][] {
+    if (!geometry) return [];
+    if (geometry.type === 'LineString') return [geometry.coordinates];
+    if (geometry.type === 'MultiLineString') return geometry.coordinates;
+    return [];
+}
+
+/**
+ * Outer rings (position lists) of (Multi)Polygon geometry, without the closing position.
+ * Holes are ignored.
+ */
+export function getPolygonRings(geometry: GeoJsonGeometry | null): Position[][] {
+    if (!geometry) return [];
+    let rings: Position[][] = [];
+    if (geometry.type === 'Polygon') rings = geometry.coordinates.slice(0, 1);
+    else if (geometry.type === 'MultiPolygon') rings = geometry.coordinates.map(polygon => polygon[0]);
+    return rings
+        .filter(ring => Array.isArray(ring) && ring.length > 0)
+        .map(ring => {
+            const first = ring[0];
+            const last = ring[ring.length - 1];
+            return first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+        });
+}
+
+/**
+ * True if any point lies within `radius` meters of the origin (0, 0).
+ */
+export function isNearOrigin(points: WorldPoint[], radius: number): boolean {
+    const radiusSq = radius * radius;
+    return points.some(p => p.x * p.x + p.y * p.y <= radiusSq);
+}
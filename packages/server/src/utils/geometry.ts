@@ -0,0 +1,22 @@
+/**
+ * geometry.ts
+ *
+ * Planar geometry helpers for world-space (meter) calculations.
+ */
+
+/**
+ * Squared distance from point P to the segment AB.
+ */
+export function distSqToSegment(px: number, py: number, ax: number, ay: number, bx: number, by: number): number {
+    const abx = bx - ax;
+    const aby = by - ay;
+    const lengthSq = abx * abx + aby * aby;
+    // Degenerate segment: distance to A
+    let t = lengthSq > 0 ? ((px - ax) * abx + (py - ay) * aby) / lengthSq : 0;
+    t = Math.max(0, Math.min(1, t));
+    const cx = ax + abx * t;
+    const cy = ay + aby * t;
+    const dx = px - cx;
+    const dy = py - cy;
+    return dx * dx + dy * dy;
+}
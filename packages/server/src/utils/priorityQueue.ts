@@ -0,0 +1,57 @@
+/**
+ * priorityQueue.ts
+ *
+ * Binary min-heap keyed by a numeric priority (used by A* routing).
+ */
+
+export class PriorityQueue<T> {
+    private items: T[] = [];
+    private priorities: number[] = [];
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(item: T, priority: number): void {
+        this.items.push(item);
+        this.priorities.push(priority);
+        let i = this.items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.priorities[parent] <= this.priorities[i]) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    /**
+     * Removes and returns the item with the lowest priority.
+     */
+    pop(): T | undefined {
+        if (this.items.length === 0) return undefined;
+        const top = this.items[0];
+        const lastItem = this.items.pop()!;
+        const lastPriority = this.priorities.pop()!;
+        if (this.items.length > 0) {
+            this.items[0] = lastItem;
+            this.priorities[0] = lastPriority;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+                if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+                if (smallest === i) break;
+                this.swap(i, smallest);
+                i = smallest;
+            }
+        }
+        return top;
+    }
+
+    private swap(a: number, b: number): void {
+        [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    }
+}
@@ -0,0 +1,38 @@
+/**
+ * random.ts
+ *
+ * Injectable random source. The server uses Math.random; simulations pass a
+ * seeded generator so spawns (and therefore whole matches) are reproducible.
+ */
+
+// Returns a float in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+export const defaultRandom: RandomSource = Math.random;
+
+/**
+ * Small, fast seeded PRNG (mulberry32). Same seed -> same sequence on every platform.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Random point within `radius` meters of (centerX, centerY).
+ * Picks a random angle and distance (denser towards the center).
+ */
+export function randomPointNear(random: RandomSource, centerX: number, centerY: number, radius: number): { x: number; y: number } {
+    const angle = random() * Math.PI * 2;
+    const distance = random() * radius;
+    return {
+        x: centerX + Math.cos(angle) * distance,
+        y: centerY + Math.sin(angle) * distance,
+    };
+}
@@ -0,0 +1,69 @@
+/**
+ * spatialGrid.ts
+ *
+ * Uniform grid spatial index for world-space (meter) geometry.
+ * Items are registered in every cell their bounding box touches.
+ */
+
+export class SpatialGrid<T> {
+    private cells = new Map<string, T[]>();
+
+    constructor(private readonly cellSize: number) {}
+
+    private key(cx: number, cy: number): string {
+        return `${cx},${cy}`;
+    }
+
+    private cellCoord(value: number): number {
+        return Math.floor(value / this.cellSize);
+    }
+
+    /**
+     * Adds an item covering the given bounding box (world meters).
+     */
+    insert(item: T, minX: number, minY: number, maxX: number, maxY: number): void {
+        const minCx = this.cellCoord(minX);
+        const maxCx = this.cellCoord(maxX);
+        const minCy = this.cellCoord(minY);
+        const maxCy = this.cellCoord(maxY);
+        for (let cx = minCx; cx <= maxCx; cx++) {
+            for (let cy = minCy; cy <= maxCy; cy++) {
+                const k = this.key(cx, cy);
+                let bucket = this.cells.get(k);
+                if (!bucket) {
+                    bucket = [];
+                    this.cells.set(k, bucket);
+                }
+                bucket.push(item);
+            }
+        }
+    }
+
+    /**
+     * Items registered in the cell containing the point.
+     */
+    queryPoint(x: number, y: number): readonly T[] {
+        return this.cells.get(this.key(this.cellCoord(x), this.cellCoord(y))) ?? [];
+    }
+
+    /**
+     * Unique items registered in any cell touching the rectangle.
+     */
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): T[] {
+        const found = new Set<T>();
+        for (let cx = this.cellCoord(minX); cx <= this.cellCoord(maxX); cx++) {
+            for (let cy = this.cellCoord(minY); cy <= this.cellCoord(maxY); cy++) {
+                this.cells.get(this.key(cx, cy))?.forEach(item => found.add(item));
+            }
+        }
+        return Array.from(found);
+    }
+
+    get isEmpty(): boolean {
+        return this.cells.size === 0;
+    }
+
+    clear(): void {
+        this.cells.clear();
+    }
+}
@@ -0,0 +1,101 @@
+import { ArenaState, MatchConfigValues, MatchPhase } from "@smugglers-town/shared-schemas";
+
+// Bot API: bots see a plain, read-only copy of the arena each tick and answer with
+// the same input a human client sends. The server drives them with the human car physics.
+
+export interface BotPlayerView {
+  readonly id: string; // sessionId
+  readonly name: string;
+  readonly team: "Red" | "Blue" | "none";
+  readonly isAI: boolean;
+  readonly x: number; // Meters relative to origin
+  readonly y: number; // Meters relative to origin (+Y = North)
+  readonly vx: number;
+  readonly vy: number;
+  readonly heading: number; // Radians (0 = East)
+  readonly state: number; // What the bot reported doing last tick (BotInput.state), 0 for humans
+}
+
+export interface BotItemView {
+  readonly id: string;
+  readonly status: "available" | "dropped" | "carried" | "scored";
+  readonly x: number;
+  readonly y: number;
+  readonly carrierId: string | null;
+}
+
+export interface BotSnapshot {
+  readonly matchPhase: MatchPhase;
+  readonly gameTimeRemaining: number;
+  readonly redScore: number;
+  readonly blueScore: number;
+  readonly bases: { readonly Red: { readonly x: number; readonly y: number }; readonly Blue: { readonly x: number; readonly y: number } };
+  readonly baseRadius: number;
+  readonly matchConfig: Readonly<MatchConfigValues>;
+  readonly players: readonly BotPlayerView[];
+  readonly items: readonly BotItemView[];
+}
+
+// Same convention as the "input" message: direction only, +dx = east, +dy = south (screen down)
+export interface BotInput {
+  dx: number;
+  dy: number;
+  // Optional label of what the bot is doing (e.g. the built-in AIState); the server stores it in
+  // Player.currentState and shows it to all bots in the next snapshot
+  state?: number;
+}
+
+export interface Bot {
+  // Called once per server tick while the match is live. Bots must not change the
+  // snapshot or the room state; the server applies the returned input.
+  decide(snapshot: BotSnapshot, selfId: string): BotInput;
+}
+
+export function findSnapshotPlayer(snapshot: BotSnapshot, id: string): BotPlayerView | undefined {
+  return snapshot.players.find(player => player.id === id);
+}
+
+// Snapshot counterpart of getTeamBase
+export function getSnapshotBase(snapshot: BotSnapshot, team: string): { x: number, y: number } | null {
+  return team === "Red" || team === "Blue" ? snapshot.bases[team] : null;
+}
+
+// Plain copy of the parts of the state bots can use (terrain hazards are not included)
+export function createBotSnapshot(state: ArenaState): BotSnapshot {
+  const players: BotPlayerView[] = [];
+  state.players.forEach((player, id) => {
+    players.push(Object.freeze({
+      id,
+      name: player.name,
+      team: player.team,
+      isAI: player.isAI,
+      x: player.x,
+      y: player.y,
+      vx: player.vx,
+      vy: player.vy,
+      heading: player.heading,
+      state: player.currentState,
+    }));
+  });
+  const items = state.items.map(item => Object.freeze({
+    id: item.id,
+    status: item.status,
+    x: item.x,
+    y: item.y,
+    carrierId: item.carrierId ?? null,
+  }));
+  return Object.freeze({
+    matchPhase: state.matchPhase,
+    gameTimeRemaining: state.gameTimeRemaining,
+    redScore: state.redScore,
+    blueScore: state.blueScore,
+    bases: Object.freeze({
+      Red: Object.freeze({ x: state.redBaseX, y: state.redBaseY }),
+      Blue: Object.freeze({ x: state.blueBaseX, y: state.blueBaseY }),
+    }),
+    baseRadius: state.baseRadius,
+    matchConfig: Object.freeze(state.matchConfig.toJSON() as MatchConfigValues),
+    players: Object.freeze(players),
+    items: Object.freeze(items),
+  });
+}
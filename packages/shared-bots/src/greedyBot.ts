@@ -0,0 +1,38 @@
+import { Bot, BotInput, BotSnapshot } from "./bots";
+
+// Example bot that only uses the snapshot: drive home with an item, ram opponent
+// carriers, otherwise grab the nearest loose item. Runs in-process on the server
+// (bot "greedy") and as a bot-client strategy; a starting point for custom bots.
+
+type Point = { x: number; y: number };
+
+function nearest<T extends Point>(from: Point, points: readonly T[]): T | null {
+  let best: T | null = null;
+  let bestDistSq = Infinity;
+  for (const point of points) {
+    const d = (point.x - from.x) ** 2 + (point.y - from.y) ** 2;
+    if (d < bestDistSq) {
+      bestDistSq = d;
+      best = point;
+    }
+  }
+  return best;
+}
+
+export class GreedyBot implements Bot {
+  decide(snapshot: BotSnapshot, selfId: string): BotInput {
+    const self = snapshot.players.find(p => p.id === selfId);
+    if (!self || self.team === "none") return { dx: 0, dy: 0 };
+    const home = snapshot.bases[self.team];
+
+    const carrierIds = snapshot.items.map(item => item.carrierId);
+    const opponentCarriers = snapshot.players.filter(p => p.team !== self.team && carrierIds.includes(p.id));
+    const looseItems = snapshot.items.filter(item => item.status === "available" || item.status === "dropped");
+
+    const target = carrierIds.includes(selfId)
+      ? home
+      : nearest(self, opponentCarriers) ?? nearest(self, looseItems) ?? home;
+    // World +Y is north, input +dy is south
+    return { dx: target.x - self.x, dy: -(target.y - self.y) };
+  }
+}
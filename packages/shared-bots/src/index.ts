@@ -0,0 +1,2 @@
+export * from "./bots";
+export * from "./greedyBot";
@@ -1,5 +1,16 @@
 import { Schema, MapSchema, ArraySchema, type } from "@colyseus/schema";
 
+// Per-player statistics for the current match (reset when a new match starts)
+export class PlayerStats extends Schema {
+  @type("uint16") pickups: number = 0; // Items picked up from the ground
+  @type("uint16") captures: number = 0; // Items scored at the own base
+  @type("uint16") steals: number = 0; // Items taken from another player
+  @type("uint16") timesRobbed: number = 0; // Items lost to another player
+  @type("number") distanceDriven: number = 0; // Meters
+  @type("number") timeCarrying: number = 0; // Seconds spent carrying an item
+  @type("uint16") waterResets: number = 0; // Times sent back by the water hazard
+}
+
 export class Player extends Schema {
   @type("string") name: string = "Guest"; // Default name
   @type("number") x: number = 0; // Meters relative to origin
@@ -12,6 +23,9 @@ export class Player extends Schema {
   @type("boolean") isOnRoad: boolean = false; // Flag for if player is currently on a road (updated by server)
   @type("uint8") currentState: number = 0; // AI State Machine State (0=SEEKING_ITEM)
   @type("boolean") isAI: boolean = false; // Flag to distinguish AI players
+  @type("string") aiDifficulty: string = ""; // Difficulty profile of AI players (AI_DIFFICULTIES in shared-utils), empty for humans
+  @type(PlayerStats) stats = new PlayerStats();
+  @type("uint32") lastProcessedInput: number = 0; // Sequence number of the last input applied (client reconciliation)
   // Add other player-specific state later (e.g., score, hasPickup)
 }
 
@@ -23,6 +37,79 @@ export class FlagState extends Schema {
   @type("number") y: number = 0;
   @type("string") carrierId: string | null = null;
   @type("number") lastStealTimestamp: number = 0; // Added for steal cooldown
+  @type("number") vx: number = 0; // Velocity while a thrown item slides (meters/second)
+  @type("number") vy: number = 0;
+  @type("string") thrownBy: string = ""; // sessionId of the thrower, who can't catch it until it stops
+  @type("number") timeDropped: number = 0; // Seconds on the ground since it was dropped (see MatchConfig.droppedItemReturnSeconds)
+}
+
+// Settings of the current match, validated by the server from the room options.
+// Defaults match the constants in shared-utils (constants.ts); the movement fields
+// double as the MovementParams used by the shared car physics.
+export class MatchConfig extends Schema {
+  @type("uint16") durationSeconds: number = 300; // Regulation time
+  @type("uint8") itemCount: number = 4; // Items spawned each round
+  @type("number") baseDistance: number = 200; // Preferred meters from the origin to each base (see ArenaState base positions)
+  @type("number") itemSpawnRadius: number = 250; // Meters around the origin where items spawn
+  @type("number") itemMinBaseDistance: number = 60; // Meters between a spawned item and each base
+  @type("number") itemMinSpacing: number = 30; // Meters between spawned items
+  @type("number") itemFairnessTolerance: number = 40; // Largest difference (meters) between an item's distances to the two bases
+  @type("uint16") itemRespawnSeconds: number = 0; // Delay before a scored item respawns, 0 = only when all are scored
+  @type("uint16") droppedItemReturnSeconds: number = 20; // A dropped item goes back to neutral ground after this long, 0 = never
+  @type("uint16") stealCooldownMs: number = 500; // Time after a steal before the item can be stolen again
+  @type("number") maxSpeed: number = 50; // meters per second (off-road)
+  @type("number") acceleration: number = 200; // meters per second^2
+  @type("number") frictionFactor: number = 0.6; // Velocity multiplier per second
+  @type("number") turnSpeed: number = Math.PI * 3; // Heading lerp factor per second
+  @type("number") roadSpeedMultiplier: number = 2.5; // Speed limit multiplier on roads
+}
+
+// Plain (JSON) values of a MatchConfig
+export type MatchConfigValues = {
+  [K in keyof MatchConfig as MatchConfig[K] extends number ? K : never]: number
+};
+
+// Terrain hazard polygon (water resets cars, parks slow them down, buildings block them)
+export class Hazard extends Schema {
+  @type("string") kind: "water" | "park" | "building" = "water";
+  @type(["float32"]) points = new ArraySchema<number>(); // Outer ring [x0, y0, x1, y1, ...] in meters from origin
+}
+
+// Match lifecycle phases (server-driven)
+export type MatchPhase = "warmup" | "countdown" | "playing" | "overtime" | "results";
+
+// Cars only move (and rules only run) while the match is live
+export function isLivePhase(phase: MatchPhase | undefined): boolean {
+  return phase === "playing" || phase === "overtime";
+}
+
+// Per-player line of the end-of-match results
+export class PlayerResult extends Schema {
+  @type("string") sessionId: string = "";
+  @type("string") name: string = "";
+  @type("string") team: "Red" | "Blue" | "none" = "none";
+  @type("boolean") isAI: boolean = false;
+  @type(PlayerStats) stats = new PlayerStats(); // Snapshot of the player's stats at the end of the match
+}
+
+// Results payload filled in when the match enters the "results" phase
+export class MatchResults extends Schema {
+  @type("string") winner: "Red" | "Blue" | "Draw" | "" = ""; // Empty until a match has finished
+  @type("number") redScore: number = 0;
+  @type("number") blueScore: number = 0;
+  @type("boolean") decidedInOvertime: boolean = false;
+  @type([ PlayerResult ]) players = new ArraySchema<PlayerResult>();
+}
+
+// Pending vote to move the arena to another location (set_world_origin)
+export class LocationVote extends Schema {
+  @type("string") proposerId: string = ""; // sessionId
+  @type("string") label: string = ""; // Place name from the location search, may be empty
+  @type("string") presetId: string = ""; // Arena preset being proposed, empty for a searched place
+  @type("number") lat: number = 0;
+  @type("number") lng: number = 0;
+  @type({ map: "boolean" }) votes = new MapSchema<boolean>(); // sessionId -> approve
+  @type("number") timeRemaining: number = 0; // Seconds until the vote closes
 }
 
 export class ArenaState extends Schema {
@@ -36,12 +123,41 @@ export class ArenaState extends Schema {
   // Add world origin coordinates
   @type("number") worldOriginLat: number = 0; // Latitude of the world origin
   @type("number") worldOriginLng: number = 0; // Longitude of the world origin
+  @type("string") arenaPresetId: string = ""; // Arena preset at the origin, empty for a searched place
+  @type("string") mapStyle: string = ""; // Map style the preset recommends, empty for none
 
   // Multiple items
   @type([ FlagState ]) items = new ArraySchema<FlagState>();
 
+  // Terrain hazards around the current origin; terrainVersion changes whenever they are replaced
+  @type([ Hazard ]) hazards = new ArraySchema<Hazard>();
+  @type("uint16") terrainVersion: number = 0;
+
   // Add base radius for rendering
   @type("number") baseRadius: number = 10; // Default value, server will override
 
-  // Add more state later: bases, game timer, etc.
+  // Base positions (meters from origin), chosen by the server for each location
+  @type("number") redBaseX: number = -200;
+  @type("number") redBaseY: number = 0;
+  @type("number") blueBaseX: number = 200;
+  @type("number") blueBaseY: number = 0;
+
+  // Match lifecycle
+  @type("string") matchPhase: MatchPhase = "warmup";
+  @type("number") phaseTimeRemaining: number = 0; // Seconds left in warmup/countdown/overtime/results
+  @type("uint16") matchNumber: number = 0;
+  @type(MatchResults) matchResults = new MatchResults();
+  @type(MatchConfig) matchConfig = new MatchConfig();
+
+  // Room host (first human to join, handed on when they leave) and the location vote
+  @type("string") hostId: string = ""; // sessionId, empty without human players
+  @type(LocationVote) locationVote: LocationVote | undefined = undefined; // Set while a vote is open
+  @type("number") locationVoteCooldown: number = 0; // Seconds until the next proposal is allowed
+}
+
+// Position of a team's base, or null for players without a team
+export function getTeamBase(state: ArenaState, team: string): { x: number, y: number } | null {
+  if (team === "Red") return { x: state.redBaseX, y: state.redBaseY };
+  if (team === "Blue") return { x: state.blueBaseX, y: state.blueBaseY };
+  return null;
 }
@@ -0,0 +1,237 @@
+/**
+ * Car movement against terrain hazards, shared by the server simulation and client-side prediction.
+ *
+ * Cars are circles (PLAYER_EFFECTIVE_RADIUS) that cannot overlap building footprints.
+ * Movement is swept in sub-steps of at most half the radius, so fast cars cannot
+ * tunnel through thin walls. After each sub-step the car is pushed out of any
+ * building it overlaps and the velocity into the wall is removed, so it slides along.
+ * The same footprints block AI line of sight. Parks lower the speed limit and water
+ * ends the step (the caller sends the car back to its base).
+ */
+
+import { PLAYER_EFFECTIVE_RADIUS } from "./constants";
+import { HazardShape, findHazardAt, getTerrainSpeedMultiplier, isPointInPolygon } from "./hazards";
+import { CarMovementState, MovementParams, stepCarMovement } from "./physics";
+
+// A hazard polygon with its bounding box (world meters)
+export interface BoundedHazard {
+    kind: string;
+    points: readonly number[]; // Outer ring [x0, y0, x1, y1, ...]
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// What the collision code asks of the hazards (the server's HazardProvider, or a HazardList)
+export interface HazardLookup {
+    // Every hazard whose bounding box touches the rectangle
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): readonly BoundedHazard[];
+    // The hazard at a position (buildings first, then water, then parks), or null
+    hazardAt(x: number, y: number): HazardShape | null;
+}
+
+export interface SweepResult {
+    x: number;
+    y: number;
+    // True if the car touched a building on the way
+    hit: boolean;
+}
+
+export interface TerrainStepResult {
+    // The car touched a building and slid along it
+    hitWall: boolean;
+    // The car ended the step in water (it is left where it entered)
+    inWater: boolean;
+}
+
+type Velocity = { vx: number, vy: number };
+
+const MAX_SUBSTEP_METERS = PLAYER_EFFECTIVE_RADIUS / 2;
+// Push-out passes per sub-step (a car can touch several buildings at a corner)
+const RESOLVE_ITERATIONS = 3;
+
+/**
+ * Hazards in a plain list, e.g. the ones replicated in ArenaState (used by client-side prediction).
+ */
+export class HazardList implements HazardLookup {
+    private hazards: BoundedHazard[];
+
+    constructor(shapes: Iterable<HazardShape>) {
+        this.hazards = [];
+        for (const shape of shapes) {
+            const points = Array.from(shape.points, value => value ?? 0);
+            let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+            for (let i = 0; i + 1 < points.length; i += 2) {
+                minX = Math.min(minX, points[i]);
+                minY = Math.min(minY, points[i + 1]);
+                maxX = Math.max(maxX, points[i]);
+                maxY = Math.max(maxY, points[i + 1]);
+            }
+            if (points.length >= 6) this.hazards.push({ kind: shape.kind, points, minX, minY, maxX, maxY });
+        }
+    }
+
+    queryRect(minX: number, minY: number, maxX: number, maxY: number): BoundedHazard[] {
+        return this.hazards.filter(h => h.maxX >= minX && h.minX <= maxX && h.maxY >= minY && h.minY <= maxY);
+    }
+
+    hazardAt(x: number, y: number): BoundedHazard | null {
+        return findHazardAt(x, y, this.queryRect(x, y, x, y));
+    }
+}
+
+function buildingsInRect(hazards: HazardLookup, minX: number, minY: number, maxX: number, maxY: number): BoundedHazard[] {
+    return hazards.queryRect(minX, minY, maxX, maxY).filter(h => h.kind === 'building');
+}
+
+// Closest point to (x, y) on the polygon's outline
+function closestPointOnRing(x: number, y: number, points: readonly number[]): { x: number, y: number, distSq: number } {
+    let best = { x: points[0], y: points[1], distSq: Infinity };
+    const count = points.length / 2;
+    for (let i = 0, j = count - 1; i < count; j = i++) {
+        const ax = points[j * 2], ay = points[j * 2 + 1];
+        const bx = points[i * 2], by = points[i * 2 + 1];
+        const abx = bx - ax, aby = by - ay;
+        const lengthSq = abx * abx + aby * aby;
+        const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * abx + (y - ay) * aby) / lengthSq)) : 0;
+        const px = ax + abx * t, py = ay + aby * t;
+        const distSq = (x - px) ** 2 + (y - py) ** 2;
+        if (distSq < best.distSq) best = { x: px, y: py, distSq };
+    }
+    return best;
+}
+
+/**
+ * Direction and distance that move a circle out of a polygon, or null if they do not overlap.
+ */
+function getPushOut(x: number, y: number, radius: number, building: BoundedHazard): { nx: number, ny: number, depth: number } | null {
+    if (x < building.minX - radius || x > building.maxX + radius || y < building.minY - radius || y > building.maxY + radius) return null;
+    const closest = closestPointOnRing(x, y, building.points);
+    const dist = Math.sqrt(closest.distSq);
+    const inside = isPointInPolygon(x, y, building.points);
+    if (!inside && dist >= radius) return null;
+    if (dist < 1e-9) return null; // Exactly on the outline: no usable direction
+    // Outside: away from the wall; inside: towards (and past) the nearest wall
+    const sign = inside ? 1 : -1;
+    return {
+        nx: sign * (closest.x - x) / dist,
+        ny: sign * (closest.y - y) / dist,
+        depth: inside ? dist + radius : radius - dist,
+    };
+}
+
+// Removes the part of a vector pointing into the wall (normal points out of it)
+function removeIntoWall(vector: { x: number, y: number }, nx: number, ny: number): void {
+    const into = vector.x * nx + vector.y * ny;
+    if (into < 0) {
+        vector.x -= into * nx;
+        vector.y -= into * ny;
+    }
+}
+
+/**
+ * Moves a car from (fromX, fromY) towards (toX, toY), sliding along building walls.
+ * The velocity loses its component into any wall that was hit.
+ */
+export function sweepCar(
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    velocity: Velocity,
+    hazards: HazardLookup,
+    radius: number = PLAYER_EFFECTIVE_RADIUS
+): SweepResult {
+    const buildings = buildingsInRect(hazards,
+        Math.min(fromX, toX) - radius, Math.min(fromY, toY) - radius,
+        Math.max(fromX, toX) + radius, Math.max(fromY, toY) + radius);
+    if (buildings.length === 0) return { x: toX, y: toY, hit: false };
+
+    const steps = Math.max(1, Math.ceil(Math.hypot(toX - fromX, toY - fromY) / MAX_SUBSTEP_METERS));
+    const step = { x: (toX - fromX) / steps, y: (toY - fromY) / steps };
+    const vel = { x: velocity.vx, y: velocity.vy };
+    let x = fromX, y = fromY;
+    let hit = false;
+
+    for (let i = 0; i < steps; i++) {
+        x += step.x;
+        y += step.y;
+        for (let iteration = 0; iteration < RESOLVE_ITERATIONS; iteration++) {
+            let resolved = true;
+            for (const building of buildings) {
+                const push = getPushOut(x, y, radius, building);
+                if (!push) continue;
+                x += push.nx * push.depth;
+                y += push.ny * push.depth;
+                removeIntoWall(step, push.nx, push.ny);
+                removeIntoWall(vel, push.nx, push.ny);
+                hit = true;
+                resolved = false;
+            }
+            if (resolved) break;
+        }
+    }
+
+    velocity.vx = vel.x;
+    velocity.vy = vel.y;
+    return { x, y, hit };
+}
+
+// Whether segments AB and CD cross
+function segmentsIntersect(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, dx: number, dy: number): boolean {
+    const cross = (px: number, py: number, qx: number, qy: number, rx: number, ry: number) =>
+        (qx - px) * (ry - py) - (qy - py) * (rx - px);
+    const d1 = cross(cx, cy, dx, dy, ax, ay);
+    const d2 = cross(cx, cy, dx, dy, bx, by);
+    const d3 = cross(ax, ay, bx, by, cx, cy);
+    const d4 = cross(ax, ay, bx, by, dx, dy);
+    return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+}
+
+/**
+ * True if no building footprint lies between the two points.
+ */
+export function hasLineOfSight(fromX: number, fromY: number, toX: number, toY: number, hazards: HazardLookup): boolean {
+    const buildings = buildingsInRect(hazards, Math.min(fromX, toX), Math.min(fromY, toY), Math.max(fromX, toX), Math.max(fromY, toY));
+    for (const building of buildings) {
+        const points = building.points;
+        const count = points.length / 2;
+        for (let i = 0, j = count - 1; i < count; j = i++) {
+            if (segmentsIntersect(fromX, fromY, toX, toY, points[j * 2], points[j * 2 + 1], points[i * 2], points[i * 2 + 1])) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Movement params for a car at (x, y) (reduced top speed on park grass).
+ */
+export function getTerrainMovementParams(x: number, y: number, params: MovementParams, hazards: HazardLookup): MovementParams {
+    const multiplier = getTerrainSpeedMultiplier(hazards.hazardAt(x, y));
+    return multiplier === 1 ? params : { ...params, maxSpeed: params.maxSpeed * multiplier };
+}
+
+/**
+ * stepCarMovement on terrain: park speed limit, then the move swept against buildings,
+ * then the water check. Modifies `car` in place.
+ */
+export function stepCarWithTerrain(
+    car: CarMovementState,
+    dirX: number,
+    dirY: number,
+    isOnRoad: boolean,
+    dt: number,
+    params: MovementParams,
+    hazards: HazardLookup
+): TerrainStepResult {
+    const fromX = car.x;
+    const fromY = car.y;
+    stepCarMovement(car, dirX, dirY, isOnRoad, dt, getTerrainMovementParams(fromX, fromY, params, hazards));
+    const swept = sweepCar(fromX, fromY, car.x, car.y, car, hazards);
+    car.x = swept.x;
+    car.y = swept.y;
+    return { hitWall: swept.hit, inWater: hazards.hazardAt(car.x, car.y)?.kind === 'water' };
+}
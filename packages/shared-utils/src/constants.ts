@@ -1,10 +1,7 @@
 // packages/shared-utils/src/constants.ts
 
-// Base Positions (Meters from Origin) - Used by Server and Client Rendering
-export const BASE_DISTANCE = 200; // meters (Increased from 80)
-export const Y_OFFSET = 0; // Keep bases horizontally aligned for simplicity
-export const RED_BASE_POS = { x: -BASE_DISTANCE, y: Y_OFFSET };
-export const BLUE_BASE_POS = { x: BASE_DISTANCE, y: -Y_OFFSET };
+// Base Placement - The server picks the actual positions per location (ArenaState redBaseX/blueBaseX...)
+export const BASE_DISTANCE = 200; // meters - Default preferred distance from the origin to each base
 
 // World Origin Constants (Lng/Lat) - Used for coordinate conversion
 const INITIAL_CENTER: [number, number] = [-73.985, 40.758]; // Times Square, NYC
@@ -17,7 +14,50 @@ export const METERS_PER_DEGREE_LAT_APPROX = 111320; // Approx meters per degree
 // Gameplay Constants
 export const NUM_ITEMS = 4; // Number of items to spawn each round
 
-// Player Constants - NOTE: Actual physics values are in server/config/constants.ts
+// AI Difficulty - Profile names; the server defines what each one does (server/src/ai/difficulty.ts)
+export const AI_DIFFICULTIES = ['Easy', 'Normal', 'Hard', 'Nightmare'] as const;
+export type AIDifficulty = typeof AI_DIFFICULTIES[number];
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'Normal';
+
+// Simulation
+export const SERVER_TICK_RATE = 60; // Server simulation steps per second (client prediction uses the same step)
+
+// Location Votes - Moving the arena ("set_world_origin") is put to a vote of the human players
+export const MAX_ARENA_LATITUDE = 85; // The map (Web Mercator) ends at ~85.05 degrees
+export const LOCATION_VOTE_MESSAGE = 'location_vote'; // Client -> server, payload: { approve: boolean }
+export const LOCATION_VOTE_CANCEL_MESSAGE = 'location_vote_cancel'; // Client -> server, host only
+export const LOCATION_REJECTED_MESSAGE = 'location_rejected'; // Server -> proposer, payload: { reason: string }
+export type LocationProposal =
+    | { lat: number; lng: number; label?: string } // label: place name shown in the vote
+    | { presetId: string }; // An arena preset (ArenaPresetSummary.id or RANDOM_ARENA_PRESET)
+
+// Arena Presets - Vetted arenas defined by the server (server/src/config/arenaPresets.ts)
+export const RANDOM_ARENA_PRESET = 'random'; // Preset id that picks one of the presets at random
+export const ARENA_PRESETS_MESSAGE = 'arena_presets'; // Server -> client on join, payload: ArenaPresetSummary[]
+export interface ArenaPresetSummary {
+    id: string;
+    name: string;
+    mapStyle: string; // Recommended map style (MapStyleSelector id)
+}
+
+// Input Anti-Cheat - The server warns a client that keeps sending invalid "input" messages, then kicks it
+export const MAX_INPUT_MAGNITUDE = Math.SQRT2; // Longest valid (dx, dy): a diagonal on the keyboard
+export const INPUT_WARNING_MESSAGE = 'input_warning'; // Server -> client, payload: InputWarning
+export const KICKED_CLOSE_CODE = 4003; // Connection close code for kicked clients (they don't auto-reconnect)
+export interface InputWarning {
+    reason: string;
+    strikes: number;
+    maxStrikes: number; // Kicked on reaching this
+}
+
+// Movement Physics - Shared so client-side prediction matches the server simulation
+export const MAX_SPEED = 50; // meters per second
+export const ACCELERATION = 200; // meters per second^2
+export const FRICTION_FACTOR = 0.60; // Velocity multiplier per second
+export const TURN_SPEED = Math.PI * 3.0; // Heading lerp factor per second
+export const ROAD_SPEED_MULTIPLIER = 2.5; // Speed limit multiplier on roads (~125 m/s top speed)
+
+// Player Constants
 // Player Dimensions (used for physics and rendering hints)
 export const PLAYER_EFFECTIVE_RADIUS = 1.6; // meters (Reduced from 1.8)
 export const PLAYER_COLLISION_RADIUS_SQ = PLAYER_EFFECTIVE_RADIUS * PLAYER_EFFECTIVE_RADIUS; // meters^2 (Used for server collision checks)
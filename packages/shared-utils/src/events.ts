@@ -0,0 +1,120 @@
+/**
+ * Gameplay events emitted by the server rules and broadcast to clients.
+ * All positions are world meters relative to the current origin.
+ */
+
+// Colyseus message type used to broadcast every GameEvent
+export const GAME_EVENT_MESSAGE = "game_event";
+
+type TeamName = "Red" | "Blue";
+
+export interface ItemPickedUpEvent {
+    type: "item_picked_up";
+    itemId: string;
+    playerId: string;
+    x: number;
+    y: number;
+}
+
+export interface ItemStolenEvent {
+    type: "item_stolen";
+    itemId: string;
+    fromPlayerId: string;
+    toPlayerId: string;
+    x: number;
+    y: number;
+}
+
+export interface ItemScoredEvent {
+    type: "item_scored";
+    itemId: string;
+    playerId: string;
+    team: TeamName;
+    x: number; // Carrier position when the item was scored
+    y: number;
+}
+
+export interface ItemSpawnedEvent {
+    type: "item_spawned";
+    itemId: string;
+    x: number;
+    y: number;
+}
+
+export interface PlayerCollisionEvent {
+    type: "player_collision";
+    playerIds: [string, string];
+    x: number; // Midpoint between the two cars
+    y: number;
+}
+
+export interface WaterResetEvent {
+    type: "water_reset";
+    playerId: string;
+    x: number; // Where the car hit the water
+    y: number;
+}
+
+export type GameEvent =
+    | ItemPickedUpEvent
+    | ItemStolenEvent
+    | ItemScoredEvent
+    | ItemSpawnedEvent
+    | PlayerCollisionEvent
+    | WaterResetEvent;
+
+export type GameEventType = GameEvent["type"];
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+export type GameEventListener<T extends GameEventType> = (event: GameEventOf<T>) => void;
+
+/**
+ * Minimal typed publish/subscribe dispatcher for GameEvents.
+ * The server emits into one per room; clients re-dispatch received broadcasts through their own.
+ */
+export class GameEventDispatcher {
+    private listeners = new Map<GameEventType, Set<(event: GameEvent) => void>>();
+    private anyListeners = new Set<(event: GameEvent) => void>();
+
+    /**
+     * Subscribes to one event type.
+     * @returns A function that removes the listener.
+     */
+    on<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(type, set);
+        }
+        const wrapped = listener as (event: GameEvent) => void;
+        set.add(wrapped);
+        return () => { set!.delete(wrapped); };
+    }
+
+    /**
+     * Subscribes to every event type.
+     * @returns A function that removes the listener.
+     */
+    onAny(listener: (event: GameEvent) => void): () => void {
+        this.anyListeners.add(listener);
+        return () => { this.anyListeners.delete(listener); };
+    }
+
+    emit(event: GameEvent): void {
+        this.listeners.get(event.type)?.forEach(listener => this.safeCall(listener, event));
+        this.anyListeners.forEach(listener => this.safeCall(listener, event));
+    }
+
+    clear(): void {
+        this.listeners.clear();
+        this.anyListeners.clear();
+    }
+
+    // One failing listener must not stop the others (or the game loop)
+    private safeCall(listener: (event: GameEvent) => void, event: GameEvent): void {
+        try {
+            listener(event);
+        } catch (err) {
+            console.error(`[GameEvents] Listener for "${event.type}" threw:`, err);
+        }
+    }
+}
@@ -0,0 +1,57 @@
+/**
+ * Terrain hazards: water, park and building polygons in world meters.
+ * The server loads them from map data and replicates them in ArenaState;
+ * these helpers let server rules and client prediction hit-test them the same way.
+ */
+
+export type HazardKind = "water" | "park" | "building";
+
+// Flat coordinates [x0, y0, x1, y1, ...] in world meters (a plain array or a replicated ArraySchema)
+export type FlatPoints = ArrayLike<number | undefined>;
+
+// A hazard polygon: its outer ring as flat coordinates
+export interface HazardShape {
+    kind: string;
+    points: FlatPoints;
+}
+
+// Cars drive at this fraction of their speed limit on park grass
+export const PARK_SPEED_MULTIPLIER = 0.5;
+
+// When polygons overlap, the first kind in this list wins (a building in a park is a building)
+const HAZARD_PRIORITY: string[] = ["building", "water", "park"];
+
+/**
+ * Even-odd point-in-polygon test for a flat coordinate ring.
+ */
+export function isPointInPolygon(x: number, y: number, points: FlatPoints): boolean {
+    let inside = false;
+    const count = Math.floor(points.length / 2);
+    for (let i = 0, j = count - 1; i < count; j = i++) {
+        const xi = points[i * 2] ?? 0, yi = points[i * 2 + 1] ?? 0;
+        const xj = points[j * 2] ?? 0, yj = points[j * 2 + 1] ?? 0;
+        if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * The highest-priority hazard containing the point, or null.
+ */
+export function findHazardAt<T extends HazardShape>(x: number, y: number, hazards: Iterable<T>): T | null {
+    let found: T | null = null;
+    for (const hazard of hazards) {
+        if (found && HAZARD_PRIORITY.indexOf(hazard.kind) >= HAZARD_PRIORITY.indexOf(found.kind)) continue;
+        if (isPointInPolygon(x, y, hazard.points)) found = hazard;
+    }
+    return found;
+}
+
+/**
+ * Speed limit factor for the terrain at a position (parks slow cars down).
+ */
+export function getTerrainSpeedMultiplier(hazard: HazardShape | null): number {
+    return hazard?.kind === "park" ? PARK_SPEED_MULTIPLIER : 1;
+}
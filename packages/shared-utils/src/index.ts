@@ -1,6 +1,10 @@
 // packages/shared-utils/src/index.ts
 export * from './constants';
 export * from './utils';
+export * from './events';
+export * from './physics';
+export * from './hazards';
+export * from './collision';
 
 // Explicitly export isPointInRectangle if needed? Already covered by export *
 // export { isPointInRectangle } from './utils';
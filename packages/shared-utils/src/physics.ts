@@ -0,0 +1,95 @@
+/**
+ * Car movement integration shared by the server simulation and client-side prediction.
+ * Both sides must run exactly this code so predicted and authoritative positions agree.
+ */
+
+import { lerp, angleLerp } from "./utils";
+import { MAX_SPEED, ACCELERATION, FRICTION_FACTOR, TURN_SPEED, ROAD_SPEED_MULTIPLIER } from "./constants";
+
+export interface MovementParams {
+    maxSpeed: number; // meters per second (off-road)
+    acceleration: number; // meters per second^2
+    frictionFactor: number; // Velocity multiplier per second
+    turnSpeed: number; // Heading lerp factor per second
+    roadSpeedMultiplier: number;
+}
+
+export const DEFAULT_MOVEMENT_PARAMS: MovementParams = {
+    maxSpeed: MAX_SPEED,
+    acceleration: ACCELERATION,
+    frictionFactor: FRICTION_FACTOR,
+    turnSpeed: TURN_SPEED,
+    roadSpeedMultiplier: ROAD_SPEED_MULTIPLIER,
+};
+
+// Kinematic state of one car (world meters, radians, meters/second)
+export interface CarMovementState {
+    x: number;
+    y: number;
+    heading: number;
+    vx: number;
+    vy: number;
+}
+
+// Raw directional input (screen convention: +dy = down / south)
+export interface MovementInput {
+    dx: number;
+    dy: number;
+}
+
+// Payload of the "input" message; seq increases by one per simulation step
+export interface InputMessage extends MovementInput {
+    seq: number;
+    throw?: boolean; // Throw the carried item forward (set on one message per key press)
+}
+
+/**
+ * Converts raw input to a normalized world direction (+Y = north).
+ */
+export function inputToWorldDirection(input: MovementInput): { dirX: number; dirY: number } {
+    const magnitude = Math.sqrt(input.dx * input.dx + input.dy * input.dy);
+    if (!(magnitude > 0)) return { dirX: 0, dirY: 0 };
+    return { dirX: input.dx / magnitude, dirY: -input.dy / magnitude }; // Y-flip
+}
+
+/**
+ * Advances a car by one step towards a world direction.
+ * Applies friction, accelerates towards the (road-dependent) speed limit,
+ * moves the car and turns it towards the direction. Modifies `car` in place.
+ * Hazards and collisions are not handled here (see stepCarWithTerrain in collision.ts).
+ */
+export function stepCarMovement(
+    car: CarMovementState,
+    dirX: number,
+    dirY: number,
+    isOnRoad: boolean,
+    dt: number,
+    params: MovementParams = DEFAULT_MOVEMENT_PARAMS
+): void {
+    // Apply Friction
+    const friction = Math.pow(params.frictionFactor, dt);
+    car.vx *= friction;
+    car.vy *= friction;
+
+    // Interpolate velocity towards the target velocity (direction * speed limit)
+    const speedLimit = isOnRoad ? params.maxSpeed * params.roadSpeedMultiplier : params.maxSpeed;
+    const lerpFactor = speedLimit > 0 ? Math.min(params.acceleration * dt / speedLimit, 1.0) : 1.0;
+    car.vx = lerp(car.vx, dirX * speedLimit, lerpFactor);
+    car.vy = lerp(car.vy, dirY * speedLimit, lerpFactor);
+
+    // Move
+    if (isFinite(car.vx) && isFinite(car.vy)) {
+        car.x += car.vx * dt;
+        car.y += car.vy * dt;
+    } else {
+        console.warn(`stepCarMovement: Invalid velocity (vx:${car.vx}, vy:${car.vy}), resetting velocity.`);
+        car.vx = 0;
+        car.vy = 0;
+    }
+
+    // Turn towards the input direction
+    if (dirX !== 0 || dirY !== 0) {
+        const targetHeading = Math.atan2(dirY, dirX);
+        car.heading = angleLerp(car.heading, targetHeading, params.turnSpeed * dt);
+    }
+}